@@ -0,0 +1,139 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ApiError} from '@google-cloud/common';
+
+export interface BatchOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+}
+export interface BatchSuccess<T> {
+  id: string;
+  result: T;
+}
+export interface BatchFailure {
+  id: string;
+  error: Error;
+}
+export interface BatchReport<T> {
+  succeeded: Array<BatchSuccess<T>>;
+  failed: BatchFailure[];
+}
+export type BatchResponse<T> = [BatchReport<T>];
+export interface BatchCallback<T> {
+  (err: Error | null, report?: BatchReport<T> | null): void;
+}
+export type BatchTask<T> = (
+  id: string,
+  callback: (err: Error | null, result?: T) => void
+) => void;
+
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+/*! Developer Documentation
+ *
+ * Requests beyond the quota of the API are rejected with
+ * `429 Too Many Requests` (`RESOURCE_EXHAUSTED`).
+ */
+function isRateLimitError(err: ApiError) {
+  return err.code === 429;
+}
+
+/**
+ * Run a task for each ID, with at most `options.concurrency` tasks in flight.
+ * A task failing because of rate limiting is retried after a delay which
+ * doubles with each retry. Other failures are recorded and the remaining
+ * tasks still run; the callback receives a report once every task settled,
+ * with successes and failures in the order of `ids`.
+ *
+ * @private
+ *
+ * @param {string[]} ids The IDs to run the task for.
+ * @param {BatchTask} task The task.
+ * @param {BatchOptions} options Configuration object.
+ * @param {BatchCallback} callback Callback function.
+ */
+export function runBatch<T>(
+  ids: string[],
+  task: BatchTask<T>,
+  options: BatchOptions,
+  callback: BatchCallback<T>
+) {
+  const concurrency =
+    options.concurrency === undefined
+      ? DEFAULT_CONCURRENCY
+      : options.concurrency;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    callback(new Error('`concurrency` must be a positive integer.'));
+    return;
+  }
+  const maxRetries =
+    options.maxRetries === undefined ? DEFAULT_MAX_RETRIES : options.maxRetries;
+  const retryDelayMs =
+    options.retryDelayMs === undefined
+      ? DEFAULT_RETRY_DELAY_MS
+      : options.retryDelayMs;
+
+  const results: Array<{result?: T; error?: Error}> = [];
+  let started = 0;
+  let settled = 0;
+
+  const report = () => {
+    const batchReport: BatchReport<T> = {succeeded: [], failed: []};
+    results.forEach(({result, error}, i) => {
+      if (error) {
+        batchReport.failed.push({id: ids[i], error});
+      } else {
+        batchReport.succeeded.push({id: ids[i], result: result as T});
+      }
+    });
+    callback(null, batchReport);
+  };
+
+  const next = () => {
+    if (started === ids.length) {
+      return;
+    }
+    const index = started++;
+    let retries = 0;
+    const attempt = () => {
+      task(ids[index], (err, result) => {
+        if (err && isRateLimitError(err) && retries < maxRetries) {
+          setTimeout(attempt, retryDelayMs * Math.pow(2, retries++));
+          return;
+        }
+        results[index] = err ? {error: err} : {result};
+        if (++settled === ids.length) {
+          report();
+          return;
+        }
+        next();
+      });
+    };
+    attempt();
+  };
+
+  if (ids.length === 0) {
+    report();
+    return;
+  }
+  for (let i = 0; i < Math.min(concurrency, ids.length); i++) {
+    next();
+  }
+}
@@ -0,0 +1,271 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Expression} from './project';
+
+export interface ConditionOptions {
+  title?: string;
+  description?: string;
+}
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 256;
+
+/*! Developer Documentation
+ *
+ * Times are written as RFC 3339 timestamps in UTC, the format `timestamp()`
+ * parses.
+ */
+function toTimestamp(time: Date | string) {
+  const date = new Date(time);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid time "${time}".`);
+  }
+  return date.toISOString();
+}
+
+function quote(value: string) {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/*! Developer Documentation
+ *
+ * Build the expression, with the given title and description taking
+ * precedence over the generated title.
+ */
+function toExpression(
+  expression: string,
+  title: string,
+  options: ConditionOptions
+): Expression {
+  const condition: Expression = {
+    expression,
+    title: options.title === undefined ? title : options.title,
+  };
+  if (!condition.title || condition.title.length > MAX_TITLE_LENGTH) {
+    throw new Error(
+      `Invalid condition title "${condition.title}": it must be 1 to ` +
+        `${MAX_TITLE_LENGTH} characters long.`
+    );
+  }
+  if (options.description !== undefined) {
+    if (options.description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new Error(
+        'Invalid condition description: it must be at most ' +
+          `${MAX_DESCRIPTION_LENGTH} characters long.`
+      );
+    }
+    condition.description = options.description;
+  }
+  return condition;
+}
+
+/**
+ * @typedef {object} ConditionOptions
+ * @property {string} [title] The title of the condition, at most 100
+ *     characters. Default: a title generated from the arguments.
+ * @property {string} [description] The description of the condition, at most
+ *     256 characters.
+ */
+/**
+ * IamCondition builds the `condition` of conditional role bindings, as
+ * [Expression]{@link https://cloud.google.com/resource-manager/reference/rest/Shared.Types/Expr}
+ * objects which can be passed to {@link Project#addIamBinding}. Invalid
+ * arguments throw as soon as the condition is built, before any request is
+ * made.
+ *
+ * Each condition gets a generated title, which can be overridden along with
+ * a description. A policy holding conditional bindings must have `version`
+ * 3.
+ *
+ * @see [Overview of IAM Conditions]{@link https://cloud.google.com/iam/docs/conditions-overview}
+ *
+ * @class
+ *
+ * @example
+ * const {IamCondition, Resource} = require('@google-cloud/resource');
+ * const resource = new Resource();
+ * const project = resource.project('grape-spaceship-123');
+ *
+ * const condition = IamCondition.all([
+ *   IamCondition.expiresAt('2030-01-01T00:00:00Z'),
+ *   IamCondition.resourceNamePrefix('projects/_/buckets/logs-'),
+ * ]);
+ *
+ * project.addIamBinding(
+ *   'roles/storage.objectViewer',
+ *   ['user:jane@example.com'],
+ *   condition,
+ *   (err, policy) => {}
+ * );
+ */
+class IamCondition {
+  private constructor() {}
+
+  /**
+   * Grant access until a given time.
+   *
+   * @throws {Error} If the time is invalid.
+   *
+   * @param {Date|string} time The time access expires, e.g.
+   *     `2030-01-01T00:00:00Z`.
+   * @param {ConditionOptions} [options] The title and description of the
+   *     condition.
+   * @returns {Expression}
+   */
+  static expiresAt(time: Date | string, options: ConditionOptions = {}) {
+    const timestamp = toTimestamp(time);
+    return toExpression(
+      `request.time < timestamp("${timestamp}")`,
+      `Expires at ${timestamp}`,
+      options
+    );
+  }
+
+  /**
+   * Grant access from a given time.
+   *
+   * @throws {Error} If the time is invalid.
+   *
+   * @param {Date|string} time The time access starts, e.g.
+   *     `2030-01-01T00:00:00Z`.
+   * @param {ConditionOptions} [options] The title and description of the
+   *     condition.
+   * @returns {Expression}
+   */
+  static startsAt(time: Date | string, options: ConditionOptions = {}) {
+    const timestamp = toTimestamp(time);
+    return toExpression(
+      `request.time >= timestamp("${timestamp}")`,
+      `Starts at ${timestamp}`,
+      options
+    );
+  }
+
+  /**
+   * Grant access from a given time until another one.
+   *
+   * @throws {Error} If a time is invalid, or the end is not after the start.
+   *
+   * @param {Date|string} start The time access starts.
+   * @param {Date|string} end The time access expires.
+   * @param {ConditionOptions} [options] The title and description of the
+   *     condition.
+   * @returns {Expression}
+   */
+  static between(
+    start: Date | string,
+    end: Date | string,
+    options: ConditionOptions = {}
+  ) {
+    const startTimestamp = toTimestamp(start);
+    const endTimestamp = toTimestamp(end);
+    if (endTimestamp <= startTimestamp) {
+      throw new Error(
+        `The end time ${endTimestamp} must be after the start time ` +
+          `${startTimestamp}.`
+      );
+    }
+    return toExpression(
+      `request.time >= timestamp("${startTimestamp}") && ` +
+        `request.time < timestamp("${endTimestamp}")`,
+      `From ${startTimestamp} to ${endTimestamp}`,
+      options
+    );
+  }
+
+  /**
+   * Grant access to the resources whose name starts with a prefix, e.g. the
+   * buckets whose name starts with `logs-`.
+   *
+   * @see [Resource attributes]{@link https://cloud.google.com/iam/docs/conditions-attribute-reference#resource-name}
+   *
+   * @throws {Error} If the prefix is empty.
+   *
+   * @param {string} prefix The start of the resource names, e.g.
+   *     `projects/_/buckets/logs-`.
+   * @param {ConditionOptions} [options] The title and description of the
+   *     condition.
+   * @returns {Expression}
+   */
+  static resourceNamePrefix(prefix: string, options: ConditionOptions = {}) {
+    if (!prefix) {
+      throw new Error('A resource name prefix is required.');
+    }
+    return toExpression(
+      `resource.name.startsWith(${quote(prefix)})`,
+      `Resource name starts with ${prefix}`.slice(0, MAX_TITLE_LENGTH),
+      options
+    );
+  }
+
+  /**
+   * Grant access to the resources of a type, e.g.
+   * `storage.googleapis.com/Bucket`.
+   *
+   * @see [Resource attributes]{@link https://cloud.google.com/iam/docs/conditions-attribute-reference#resource-type}
+   *
+   * @throws {Error} If the type is empty.
+   *
+   * @param {string} type The resource type.
+   * @param {ConditionOptions} [options] The title and description of the
+   *     condition.
+   * @returns {Expression}
+   */
+  static resourceType(type: string, options: ConditionOptions = {}) {
+    if (!type) {
+      throw new Error('A resource type is required.');
+    }
+    return toExpression(
+      `resource.type == ${quote(type)}`,
+      `Resource type is ${type}`.slice(0, MAX_TITLE_LENGTH),
+      options
+    );
+  }
+
+  /**
+   * Grant access when all the given conditions hold.
+   *
+   * @throws {Error} If no condition is given.
+   *
+   * @param {Expression[]} conditions The conditions to combine.
+   * @param {ConditionOptions} [options] The title and description of the
+   *     condition. The titles of the conditions are joined by default.
+   * @returns {Expression}
+   */
+  static all(conditions: Expression[], options: ConditionOptions = {}) {
+    if (conditions.length === 0) {
+      throw new Error('At least one condition is required.');
+    }
+    if (conditions.length === 1) {
+      return toExpression(
+        conditions[0].expression,
+        conditions[0].title,
+        options
+      );
+    }
+    return toExpression(
+      conditions.map(c => `(${c.expression})`).join(' && '),
+      conditions
+        .map(c => c.title)
+        .join(' and ')
+        .slice(0, MAX_TITLE_LENGTH),
+      options
+    );
+  }
+}
+
+export {IamCondition};
@@ -0,0 +1,69 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DecorateRequestOptions, Metadata} from '@google-cloud/common';
+
+export interface DryRunOptions {
+  dryRun?: boolean;
+}
+export interface RequestDescription {
+  method: string;
+  uri: string;
+  qs?: Metadata;
+  json?: Metadata;
+}
+export interface DryRunRequest extends RequestDescription {
+  dryRun: true;
+}
+
+/**
+ * @typedef {object} DryRunRequest
+ * @property {boolean} dryRun Always `true`: the request was not sent.
+ * @property {string} method The HTTP method, e.g. `POST`.
+ * @property {string} uri The full URI of the request.
+ * @property {object} [qs] The query string parameters.
+ * @property {object} [json] The request body.
+ */
+/**
+ * Describe a request the way it is sent: its URI is resolved against the base
+ * URL as `Service#request` does, and undefined fields are dropped.
+ *
+ * @private
+ *
+ * @param {object} reqOpts The request options.
+ * @param {string} baseUrl The base URL the `uri` of the request is relative
+ *     to.
+ * @returns {RequestDescription}
+ */
+export function describeRequest(
+  reqOpts: DecorateRequestOptions,
+  baseUrl: string
+): RequestDescription {
+  const uri = (
+    reqOpts.uri.startsWith('http') ? [reqOpts.uri] : [baseUrl, reqOpts.uri]
+  )
+    .map(component => component.replace(/^\/*|\/*$/g, ''))
+    .join('/')
+    .replace(/\/:/g, ':');
+  return JSON.parse(
+    JSON.stringify({
+      method: reqOpts.method || 'GET',
+      uri,
+      qs: reqOpts.qs,
+      json: typeof reqOpts.json === 'object' ? reqOpts.json : undefined,
+    })
+  );
+}
@@ -0,0 +1,562 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Metadata} from '@google-cloud/common';
+import {promisifyAll} from '@google-cloud/promisify';
+import {createHash} from 'crypto';
+import * as http from 'http';
+import {AddressInfo, Socket} from 'net';
+import {URL} from 'url';
+
+import {LifecycleState, ProjectMetadata} from '.';
+import {Policy} from './project';
+import {CONDITIONAL_POLICY_VERSION, PROJECT_ID_REGEX} from './validation';
+
+export type StartEmulatorResponse = [string];
+export interface StartEmulatorCallback {
+  (err: Error | null, apiEndpoint?: string | null): void;
+}
+export type StopEmulatorResponse = [];
+export interface StopEmulatorCallback {
+  (err?: Error | null): void;
+}
+
+const PROJECT_TYPE =
+  'type.googleapis.com/google.cloudresourcemanager.v1.Project';
+const DEFAULT_PAGE_SIZE = 500;
+
+/*! Developer Documentation
+ *
+ * An error answered to the client, in the format of Google APIs errors.
+ */
+class EmulatorError extends Error {
+  code: number;
+  status: string;
+  constructor(code: number, status: string, message: string) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/*! Developer Documentation
+ *
+ * Check a project against one `field:value` term of a filter. A trailing `*`
+ * matches by prefix and `*` alone matches any value.
+ */
+function matchesTerm(project: ProjectMetadata, term: string) {
+  const separator = term.indexOf(':');
+  if (separator < 1) {
+    throw new EmulatorError(
+      400,
+      'INVALID_ARGUMENT',
+      `Invalid filter term "${term}".`
+    );
+  }
+  const field = term.slice(0, separator);
+  let value = term.slice(separator + 1);
+  if (/^".*"$/.test(value)) {
+    value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+
+  let actual: string | undefined;
+  if (field === 'id') {
+    actual = project.projectId;
+  } else if (field === 'name' || field === 'lifecycleState') {
+    actual = project[field];
+  } else if (field === 'parent.type' || field === 'parent.id') {
+    actual =
+      project.parent && project.parent[field === 'parent.id' ? 'id' : 'type'];
+  } else if (field.startsWith('labels.')) {
+    actual = project.labels && project.labels[field.slice('labels.'.length)];
+  } else {
+    throw new EmulatorError(
+      400,
+      'INVALID_ARGUMENT',
+      `Unsupported filter field "${field}".`
+    );
+  }
+
+  if (actual === undefined) {
+    return false;
+  }
+  if (value.endsWith('*')) {
+    return actual.startsWith(value.slice(0, -1));
+  }
+  return actual === value;
+}
+
+/**
+ * A ResourceManagerEmulator is an in-process stand-in for the Resource
+ * Manager API, listening over plain HTTP on a local port. It keeps its state
+ * in memory and implements enough of the v1 API to run flows without
+ * credentials or network access:
+ *
+ * - projects: create, get, list (with paging and `AND` filters), update,
+ *   delete and undelete, moving projects through their lifecycle states;
+ * - projects: getIamPolicy and setIamPolicy, writing the fields of the
+ *   update mask, rejecting writes with a stale etag and policy versions
+ *   which cannot hold conditional role bindings;
+ * - operations: get, for the operations returned when creating projects.
+ *
+ * Point a {@link Resource} at the emulator with the endpoint returned by
+ * {@link ResourceManagerEmulator#start}.
+ *
+ * @class
+ *
+ * @example
+ * const {Resource, ResourceManagerEmulator} = require('@google-cloud/resource');
+ * const emulator = new ResourceManagerEmulator();
+ *
+ * emulator.start().then(async ([apiEndpoint]) => {
+ *   const resource = new Resource({apiEndpoint, projectId: 'emulator'});
+ *
+ *   const [, operation] = await resource.createProject('grape-spaceship-123');
+ *   const [project] = await operation.waitForCompletion();
+ *
+ *   await emulator.stop();
+ * });
+ */
+class ResourceManagerEmulator {
+  private server: http.Server | null = null;
+  private sockets = new Set<Socket>();
+  private projects = new Map<string, ProjectMetadata>();
+  private policies = new Map<string, Policy>();
+  private operations = new Map<string, Metadata>();
+  private counter = 0;
+
+  start(port?: number): Promise<StartEmulatorResponse>;
+  start(callback: StartEmulatorCallback): void;
+  start(port: number, callback: StartEmulatorCallback): void;
+  /**
+   * Start listening on `localhost`.
+   *
+   * @param {number} [port] The port to listen on. Default: a free port.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while starting the server.
+   * @param {string} callback.apiEndpoint The endpoint to give to
+   *     {@link Resource} as its `apiEndpoint`, e.g. `http://localhost:8085`.
+   * @returns {Promise<StartEmulatorResponse>}
+   */
+  start(
+    portOrCallback?: number | StartEmulatorCallback,
+    callback?: StartEmulatorCallback
+  ): void | Promise<StartEmulatorResponse> {
+    const port = typeof portOrCallback === 'number' ? portOrCallback : 0;
+    callback = typeof portOrCallback === 'function' ? portOrCallback : callback;
+
+    if (this.server) {
+      callback!(new Error('The emulator is already started.'));
+      return;
+    }
+
+    const server = http.createServer((req, res) => this.handle_(req, res));
+    server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+    server.once('error', err => {
+      this.server = null;
+      callback!(err);
+    });
+    server.listen(port, 'localhost', () => {
+      const {port} = server.address() as AddressInfo;
+      callback!(null, `http://localhost:${port}`);
+    });
+    this.server = server;
+  }
+
+  stop(): Promise<StopEmulatorResponse>;
+  stop(callback: StopEmulatorCallback): void;
+  /**
+   * Stop listening and close the open connections. The state is kept, see
+   * {@link ResourceManagerEmulator#reset} to clear it.
+   *
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while stopping the server.
+   * @returns {Promise<StopEmulatorResponse>}
+   */
+  stop(callback?: StopEmulatorCallback): void | Promise<StopEmulatorResponse> {
+    const server = this.server;
+    if (!server) {
+      callback!(null);
+      return;
+    }
+    this.server = null;
+    server.close(err => callback!(err || null));
+    this.sockets.forEach(socket => socket.destroy());
+    this.sockets.clear();
+  }
+
+  /**
+   * Forget every project, policy and operation.
+   */
+  reset() {
+    this.projects.clear();
+    this.policies.clear();
+    this.operations.clear();
+    this.counter = 0;
+  }
+
+  /**
+   * Read the body of a request, then answer it.
+   *
+   * @private
+   */
+  handle_(req: http.IncomingMessage, res: http.ServerResponse) {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      let status = 200;
+      let body: Metadata;
+      try {
+        const text = Buffer.concat(chunks).toString();
+        const url = new URL(req.url!, 'http://localhost');
+        body = this.route_(req.method!, url, text ? JSON.parse(text) : {});
+      } catch (e) {
+        const err =
+          e instanceof EmulatorError
+            ? e
+            : new EmulatorError(400, 'INVALID_ARGUMENT', e.message);
+        status = err.code;
+        body = {
+          error: {
+            code: err.code,
+            message: err.message,
+            status: err.status,
+            errors: [
+              {
+                message: err.message,
+                domain: 'global',
+                reason: err.status.toLowerCase(),
+              },
+            ],
+          },
+        };
+      }
+      res.writeHead(status, {'Content-Type': 'application/json'});
+      res.end(JSON.stringify(body));
+    });
+  }
+
+  /**
+   * Dispatch a request to the method it calls.
+   *
+   * @private
+   */
+  route_(method: string, url: URL, body: Metadata): Metadata {
+    const path = decodeURIComponent(url.pathname);
+    let match: RegExpMatchArray | null;
+
+    if (path === '/v1/projects') {
+      if (method === 'POST') {
+        return this.createProject_(body);
+      }
+      if (method === 'GET') {
+        return this.listProjects_(url.searchParams);
+      }
+    }
+
+    if ((match = path.match(/^\/v1\/projects\/([^/:]+)(?::(\w+))?$/))) {
+      const [, id, verb] = match;
+      if (!verb && method === 'GET') {
+        return this.getProject_(id);
+      }
+      if (!verb && method === 'PUT') {
+        return this.updateProject_(id, body);
+      }
+      if (!verb && method === 'DELETE') {
+        return this.setLifecycleState_(
+          id,
+          LifecycleState.ACTIVE,
+          LifecycleState.DELETE_REQUESTED
+        );
+      }
+      if (verb === 'undelete' && method === 'POST') {
+        return this.setLifecycleState_(
+          id,
+          LifecycleState.DELETE_REQUESTED,
+          LifecycleState.ACTIVE
+        );
+      }
+      if (verb === 'getIamPolicy' && method === 'POST') {
+        return this.getIamPolicy_(id, body);
+      }
+      if (verb === 'setIamPolicy' && method === 'POST') {
+        return this.setIamPolicy_(id, body);
+      }
+    }
+
+    if ((match = path.match(/^\/v1\/(operations\/.+)$/)) && method === 'GET') {
+      const operation = this.operations.get(match[1]);
+      if (!operation) {
+        throw new EmulatorError(
+          404,
+          'NOT_FOUND',
+          `Operation ${match[1]} not found.`
+        );
+      }
+      operation.done = true;
+      return operation;
+    }
+
+    throw new EmulatorError(
+      404,
+      'NOT_FOUND',
+      `${method} ${path} is not supported by the emulator.`
+    );
+  }
+
+  /**
+   * @private
+   */
+  createProject_(body: ProjectMetadata) {
+    const id = body.projectId;
+    if (!id || !PROJECT_ID_REGEX.test(id)) {
+      throw new EmulatorError(
+        400,
+        'INVALID_ARGUMENT',
+        `Invalid project ID "${id}".`
+      );
+    }
+    if (this.projects.has(id)) {
+      throw new EmulatorError(
+        409,
+        'ALREADY_EXISTS',
+        `Project ${id} already exists.`
+      );
+    }
+
+    const number = ++this.counter;
+    const project: ProjectMetadata = {
+      projectNumber: `${100000000000 + number}`,
+      projectId: id,
+      lifecycleState: LifecycleState.ACTIVE,
+      name: body.name || id,
+      createTime: new Date().toISOString(),
+    };
+    if (body.labels) {
+      project.labels = Object.assign({}, body.labels);
+    }
+    if (body.parent) {
+      project.parent = Object.assign({}, body.parent);
+    }
+    this.projects.set(id, project);
+    this.policies.set(id, {
+      version: 1,
+      bindings: [],
+      auditConfigs: [],
+      etag: this.etag_(),
+    });
+
+    const name = `operations/cp.${number}`;
+    const operation = {
+      name,
+      done: false,
+      response: Object.assign({'@type': PROJECT_TYPE}, project),
+    };
+    this.operations.set(name, operation);
+    return {name, done: false};
+  }
+
+  /**
+   * @private
+   */
+  getProject_(id: string) {
+    const project = this.projects.get(id);
+    if (!project) {
+      throw new EmulatorError(404, 'NOT_FOUND', `Project ${id} not found.`);
+    }
+    return project;
+  }
+
+  /**
+   * @private
+   */
+  listProjects_(query: URLSearchParams) {
+    const filter = query.get('filter');
+    const terms = filter ? filter.split(' AND ') : [];
+    if (terms.some(term => /^\(|\)$| OR /.test(term))) {
+      throw new EmulatorError(
+        400,
+        'INVALID_ARGUMENT',
+        'Only filters joining terms with AND are supported by the emulator.'
+      );
+    }
+    const projects = Array.from(this.projects.values()).filter(project =>
+      terms.every(term => matchesTerm(project, term))
+    );
+
+    const pageSize = Number(query.get('pageSize')) || DEFAULT_PAGE_SIZE;
+    const start = Number(query.get('pageToken') || 0);
+    const response: Metadata = {
+      projects: projects.slice(start, start + pageSize),
+    };
+    if (start + pageSize < projects.length) {
+      response.nextPageToken = `${start + pageSize}`;
+    }
+    return response;
+  }
+
+  /**
+   * @private
+   */
+  updateProject_(id: string, body: ProjectMetadata) {
+    const project = this.getActiveProject_(id);
+    project.name = body.name;
+    project.labels = body.labels;
+    project.parent = body.parent;
+    Object.keys(project).forEach(key => {
+      if (project[key as keyof ProjectMetadata] === undefined) {
+        delete project[key as keyof ProjectMetadata];
+      }
+    });
+    return project;
+  }
+
+  /**
+   * Move a project from one lifecycle state to another, as deleting and
+   * undeleting it do.
+   *
+   * @private
+   */
+  setLifecycleState_(id: string, from: LifecycleState, to: LifecycleState) {
+    const project = this.getProject_(id);
+    if (project.lifecycleState !== from) {
+      throw new EmulatorError(
+        400,
+        'FAILED_PRECONDITION',
+        `Project ${id} is ${project.lifecycleState}, expected ${from}.`
+      );
+    }
+    project.lifecycleState = to;
+    return {};
+  }
+
+  /**
+   * @private
+   */
+  getIamPolicy_(
+    id: string,
+    body: {options?: {requestedPolicyVersion?: number}}
+  ) {
+    this.getProject_(id);
+    const policy = this.policies.get(id)!;
+    const version = (body.options || {}).requestedPolicyVersion || 1;
+    if (
+      version >= CONDITIONAL_POLICY_VERSION ||
+      !policy.bindings.some(b => b.condition)
+    ) {
+      return policy;
+    }
+    // Like the API, return conditional bindings without their condition and
+    // with a role marking them, so they cannot be written back as is.
+    return Object.assign({}, policy, {
+      version: 1,
+      bindings: policy.bindings.map(binding => {
+        if (!binding.condition) {
+          return binding;
+        }
+        const hash = createHash('sha256')
+          .update(JSON.stringify(binding.condition))
+          .digest('hex')
+          .slice(0, 20);
+        return {
+          role: `${binding.role}_withcond_${hash}`,
+          members: binding.members,
+        };
+      }),
+    });
+  }
+
+  /**
+   * @private
+   */
+  setIamPolicy_(id: string, body: {policy?: Policy; updateMask?: string}) {
+    this.getActiveProject_(id);
+    const current = this.policies.get(id)!;
+    const policy = body.policy;
+    if (!policy) {
+      throw new EmulatorError(400, 'INVALID_ARGUMENT', 'A policy is required.');
+    }
+    if (
+      (policy.bindings || []).some(b => b.condition) &&
+      policy.version !== CONDITIONAL_POLICY_VERSION
+    ) {
+      throw new EmulatorError(
+        400,
+        'INVALID_ARGUMENT',
+        `Conditional role bindings require policy version ${CONDITIONAL_POLICY_VERSION}.`
+      );
+    }
+    if (policy.etag && policy.etag !== current.etag) {
+      throw new EmulatorError(
+        409,
+        'ABORTED',
+        'There were concurrent policy changes. Please retry the whole ' +
+          'read-modify-write with exponential backoff.'
+      );
+    }
+    // Only the fields in the update mask are written, `bindings` and `etag`
+    // by default.
+    const updateMask = (body.updateMask || 'bindings,etag').split(',');
+    const updated = {
+      version: policy.version || 1,
+      bindings: updateMask.includes('bindings')
+        ? policy.bindings || []
+        : current.bindings,
+      auditConfigs: updateMask.includes('auditConfigs')
+        ? policy.auditConfigs || []
+        : current.auditConfigs,
+      etag: this.etag_(),
+    };
+    this.policies.set(id, updated);
+    return updated;
+  }
+
+  /**
+   * @private
+   */
+  getActiveProject_(id: string) {
+    const project = this.getProject_(id);
+    if (project.lifecycleState !== LifecycleState.ACTIVE) {
+      throw new EmulatorError(
+        400,
+        'FAILED_PRECONDITION',
+        `Project ${id} is ${project.lifecycleState}.`
+      );
+    }
+    return project;
+  }
+
+  /**
+   * A new etag, as the base64 encoding of a counter.
+   *
+   * @private
+   */
+  etag_() {
+    return Buffer.from(`etag-${++this.counter}`).toString('base64');
+  }
+}
+
+/*! Developer Documentation
+ *
+ * All async methods (except for streams) will return a Promise in the event
+ * that a callback is omitted.
+ */
+promisifyAll(ResourceManagerEmulator, {exclude: ['reset']});
+
+export {ResourceManagerEmulator};
@@ -0,0 +1,242 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {LifecycleState} from '.';
+import {ResourceType} from './project';
+import {
+  LABEL_KEY_REGEX,
+  LABEL_VALUE_REGEX,
+  PROJECT_ID_REGEX,
+} from './validation';
+
+export type FilterOperator = 'AND' | 'OR';
+export interface ProjectFilterParent {
+  type: Exclude<ResourceType, 'project'>;
+  id?: string;
+}
+
+const NUMERIC_ID_REGEX = /^[0-9]+$/;
+const UNQUOTED_VALUE_REGEX = /^[A-Za-z0-9_.-]+$/;
+
+/*! Developer Documentation
+ *
+ * Format a value for the right-hand side of a `field:value` term. Values are
+ * quoted when they contain anything but plain characters. A trailing `*` is a
+ * prefix match, and `*` on its own matches any value; neither works inside
+ * quotes, so wildcards are only accepted on plain values.
+ */
+function formatValue(field: string, value: string) {
+  if (value === '*') {
+    return value;
+  }
+  if (!value) {
+    throw new Error(`A value is required to filter by ${field}.`);
+  }
+  const prefix = value.endsWith('*') ? value.slice(0, -1) : value;
+  if (prefix.includes('*')) {
+    throw new Error(
+      `Invalid value "${value}" for ${field}: a wildcard may only end a value.`
+    );
+  }
+  if (UNQUOTED_VALUE_REGEX.test(prefix)) {
+    return value;
+  }
+  if (prefix !== value) {
+    throw new Error(
+      `Invalid value "${value}" for ${field}: wildcards can only be used ` +
+        'with letters, digits, "_", "-" and ".".'
+    );
+  }
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * A ProjectFilter builds the `filter` expression of
+ * {@link Resource#getProjects}. Filters are created with the static methods
+ * and combined with {@link ProjectFilter#and} and {@link ProjectFilter#or}.
+ * Invalid field values throw as soon as the filter is built, before any
+ * request is made.
+ *
+ * Values may end with `*` to match by prefix, and `*` alone matches any
+ * value.
+ *
+ * @see [projects: list API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/list}
+ *
+ * @class
+ *
+ * @example
+ * const {ProjectFilter, Resource} = require('@google-cloud/resource');
+ * const resource = new Resource();
+ *
+ * const filter = ProjectFilter.label('env', 'prod')
+ *   .and(ProjectFilter.lifecycleState('ACTIVE'))
+ *   .and(
+ *     ProjectFilter.displayName('billing*')
+ *       .or(ProjectFilter.id('payments-*'))
+ *   );
+ *
+ * // labels.env:prod AND lifecycleState:ACTIVE AND
+ * //   (name:billing* OR id:payments-*)
+ * resource.getProjects({filter}, (err, projects) => {});
+ */
+class ProjectFilter {
+  private expression: string;
+  private operator?: FilterOperator;
+  private constructor(expression: string, operator?: FilterOperator) {
+    this.expression = expression;
+    this.operator = operator;
+  }
+
+  /**
+   * Match projects by display name, the `name` field of the API.
+   *
+   * @throws {Error} If the name is empty or uses a wildcard which cannot be
+   *     expressed.
+   *
+   * @param {string} name The display name.
+   * @returns {ProjectFilter}
+   */
+  static displayName(name: string) {
+    return new ProjectFilter(`name:${formatValue('name', name)}`);
+  }
+
+  /**
+   * Match projects by ID.
+   *
+   * @throws {Error} If the ID is not a valid project ID or prefix.
+   *
+   * @param {string} id The project ID, e.g. `grape-spaceship-123`.
+   * @returns {ProjectFilter}
+   */
+  static id(id: string) {
+    const valid = id.endsWith('*')
+      ? /^[a-z0-9-]*\*$/.test(id)
+      : PROJECT_ID_REGEX.test(id);
+    if (!valid) {
+      throw new Error(`Invalid project ID "${id}".`);
+    }
+    return new ProjectFilter(`id:${id}`);
+  }
+
+  /**
+   * Match projects which have a label, optionally with a given value.
+   *
+   * @throws {Error} If the key or value is not a valid label key or value.
+   *
+   * @param {string} key The label key.
+   * @param {string} [value='*'] The label value. Default: any value.
+   * @returns {ProjectFilter}
+   */
+  static label(key: string, value = '*') {
+    if (!LABEL_KEY_REGEX.test(key)) {
+      throw new Error(`Invalid label key "${key}".`);
+    }
+    const prefix = value.endsWith('*') ? value.slice(0, -1) : value;
+    if (!LABEL_VALUE_REGEX.test(prefix)) {
+      throw new Error(`Invalid value "${value}" for label "${key}".`);
+    }
+    return new ProjectFilter(`labels.${key}:${value || '""'}`);
+  }
+
+  /**
+   * Match projects in a lifecycle state.
+   *
+   * @throws {Error} If the state is unknown.
+   *
+   * @param {LifecycleState|string} state The lifecycle state, e.g. `ACTIVE`.
+   * @returns {ProjectFilter}
+   */
+  static lifecycleState(state: LifecycleState | string) {
+    if (!Object.values(LifecycleState).includes(state as LifecycleState)) {
+      throw new Error(`Invalid lifecycle state "${state}".`);
+    }
+    return new ProjectFilter(`lifecycleState:${state}`);
+  }
+
+  /**
+   * Match projects directly under a folder or an organization. If the `id`
+   * is omitted, projects under any parent of the given type match.
+   *
+   * @throws {Error} If the type or ID is invalid.
+   *
+   * @param {object} parent The parent.
+   * @param {string} parent.type Either `folder` or `organization`.
+   * @param {string} [parent.id] The numeric ID of the parent.
+   * @returns {ProjectFilter}
+   */
+  static parent(parent: ProjectFilterParent) {
+    if (parent.type !== 'folder' && parent.type !== 'organization') {
+      throw new Error(`Invalid parent type "${parent.type}".`);
+    }
+    const type = new ProjectFilter(`parent.type:${parent.type}`);
+    if (parent.id === undefined) {
+      return type;
+    }
+    if (!NUMERIC_ID_REGEX.test(parent.id)) {
+      throw new Error(`Invalid ${parent.type} ID "${parent.id}".`);
+    }
+    return type.and(new ProjectFilter(`parent.id:${parent.id}`));
+  }
+
+  /**
+   * Match projects matching this filter and all the given filters.
+   *
+   * @param {...ProjectFilter} filters The filters to combine with.
+   * @returns {ProjectFilter}
+   */
+  and(...filters: ProjectFilter[]) {
+    return this.combine_('AND', filters);
+  }
+
+  /**
+   * Match projects matching this filter or any of the given filters.
+   *
+   * @param {...ProjectFilter} filters The filters to combine with.
+   * @returns {ProjectFilter}
+   */
+  or(...filters: ProjectFilter[]) {
+    return this.combine_('OR', filters);
+  }
+
+  /**
+   * The filter expression, as sent to the API.
+   *
+   * @returns {string}
+   */
+  toString() {
+    return this.expression;
+  }
+
+  /**
+   * Join filters with an operator, wrapping the operands built with the
+   * other operator in parentheses.
+   *
+   * @private
+   */
+  combine_(operator: FilterOperator, filters: ProjectFilter[]) {
+    const expression = [this as ProjectFilter]
+      .concat(filters)
+      .map(filter =>
+        filter.operator && filter.operator !== operator
+          ? `(${filter.expression})`
+          : filter.expression
+      )
+      .join(` ${operator} `);
+    return new ProjectFilter(expression, operator);
+  }
+}
+
+export {ProjectFilter};
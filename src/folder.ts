@@ -0,0 +1,399 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Metadata, Operation, ServiceObjectConfig} from '@google-cloud/common';
+import {promisifyAll} from '@google-cloud/promisify';
+
+import {Resource} from '.';
+import {IamServiceObject} from './iam';
+import {ResourceId} from './project';
+
+export type FolderOperationResponse = [Operation<Folder>, Metadata];
+export interface FolderOperationCallback {
+  (
+    err: Error | null,
+    operation?: Operation<Folder> | null,
+    apiResponse?: Metadata
+  ): void;
+}
+
+export interface FolderMetadata {
+  displayName: string;
+}
+
+/*! Developer Documentation
+ *
+ * Folders are updated and deleted through long-running operations, so
+ * `setMetadata` and `delete` return an `Operation` instead of the response
+ * types `ServiceObject` declares for them.
+ */
+const FolderServiceObject = IamServiceObject as new (
+  config: ServiceObjectConfig
+) => Omit<IamServiceObject<Metadata>, 'delete' | 'setMetadata'>;
+
+/**
+ * A Folder object allows you to interact with a Google Cloud Platform folder.
+ *
+ * @see [Creating and managing folders]{@link https://cloud.google.com/resource-manager/docs/creating-managing-folders}
+ * @see [Folder Resource]{@link https://cloud.google.com/resource-manager/reference/rest/v3/folders#Folder}
+ *
+ * @class
+ * @extends IamServiceObject
+ * @param {Resource} resource {@link Resource} object this folder belongs to.
+ * @param {string} id The folder's numeric ID.
+ *
+ * @example
+ * const {Resource} = require('@google-cloud/resource');
+ * const resource = new Resource();
+ * const folder = resource.folder('1234567890');
+ */
+class Folder extends FolderServiceObject {
+  resource: Resource;
+  constructor(resource: Resource, id: string) {
+    const methods = {
+      /**
+       * Check if the folder exists.
+       *
+       * @method Folder#exists
+       * @param {function} callback The callback function.
+       * @param {?error} callback.err An error returned while making this
+       *     request.
+       * @param {boolean} callback.exists Whether the folder exists or not.
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const folder = resource.folder('1234567890');
+       *
+       * folder.exists((err, exists) => {});
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * folder.exists().then((data) => {
+       *   const exists = data[0];
+       * });
+       */
+      exists: true,
+
+      /**
+       * Get a folder if it exists.
+       *
+       * @method Folder#get
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const folder = resource.folder('1234567890');
+       *
+       * folder.get((err, folder, apiResponse) => {
+       *   // `folder.metadata` has been populated.
+       * });
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * folder.get().then((data) => {
+       *   const folder = data[0];
+       *   const apiResponse = data[1];
+       * });
+       */
+      get: true,
+
+      /**
+       * Get the metadata for the folder.
+       *
+       * @see [folders: get API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/folders/get}
+       *
+       * @method Folder#getMetadata
+       * @param {function} [callback] The callback function.
+       * @param {?error} callback.err An error returned while making this
+       *     request.
+       * @param {?object} callback.metadata - Metadata of the folder from the
+       *     API.
+       * @param {object} callback.apiResponse - Raw API response.
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const folder = resource.folder('1234567890');
+       *
+       * folder.getMetadata((err, metadata, apiResponse) => {});
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * folder.getMetadata().then((data) => {
+       *   const metadata = data[0];
+       *   const apiResponse = data[1];
+       * });
+       */
+      getMetadata: true,
+    };
+
+    super({
+      parent: resource,
+      baseUrl: `${resource.getBaseUrl_('v3')}/folders`,
+      /**
+       * @name Folder#id
+       * @type {string}
+       */
+      id: id.replace(/^folders\//, ''),
+      methods,
+    });
+
+    this.resource = resource;
+  }
+
+  delete(): Promise<FolderOperationResponse>;
+  delete(callback: FolderOperationCallback): void;
+  /**
+   * Delete the folder.
+   *
+   * The folder must not contain any projects or folders. It stays in the
+   * `DELETE_REQUESTED` state and can be restored with {@link Folder#restore}
+   * for a while.
+   *
+   * @see [folders: delete API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/folders/delete}
+   *
+   * @param {FolderOperationCallback} [callback] Callback function.
+   * @returns {Promise<FolderOperationResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const folder = resource.folder('1234567890');
+   *
+   * folder.delete((err, operation, apiResponse) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   operation
+   *     .on('error', err => {})
+   *     .on('complete', () => {
+   *       // The folder was deleted!
+   *     });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * folder.delete().then((data) => {
+   *   const operation = data[0];
+   *   return operation.promise();
+   * });
+   */
+  delete(
+    callback?: FolderOperationCallback
+  ): void | Promise<FolderOperationResponse> {
+    this.request(
+      {
+        method: 'DELETE',
+        uri: '',
+      },
+      (err, resp) => {
+        this.resource.handleOperationV3_(err, resp, callback!);
+      }
+    );
+  }
+
+  move(destination: ResourceId): Promise<FolderOperationResponse>;
+  move(destination: ResourceId, callback: FolderOperationCallback): void;
+  /**
+   * Move the folder under another folder or organization.
+   *
+   * @see [folders: move API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/folders/move}
+   *
+   * @param {ResourceId} destination The folder or organization to move the
+   *     folder to.
+   * @param {FolderOperationCallback} [callback] Callback function.
+   * @returns {Promise<FolderOperationResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const folder = resource.folder('1234567890');
+   *
+   * const destination = {type: 'folder', id: '2345678901'};
+   *
+   * folder.move(destination, (err, operation, apiResponse) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   operation
+   *     .on('error', err => {})
+   *     .on('complete', () => {
+   *       // The folder was moved!
+   *     });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * folder.move(destination).then((data) => {
+   *   const operation = data[0];
+   *   return operation.promise();
+   * });
+   */
+  move(
+    destination: ResourceId,
+    callback?: FolderOperationCallback
+  ): void | Promise<FolderOperationResponse> {
+    this.request(
+      {
+        method: 'POST',
+        uri: ':move',
+        json: {
+          destinationParent: `${destination.type}s/${destination.id}`,
+        },
+      },
+      (err, resp) => {
+        this.resource.handleOperationV3_(err, resp, callback!);
+      }
+    );
+  }
+
+  restore(): Promise<FolderOperationResponse>;
+  restore(callback: FolderOperationCallback): void;
+  /**
+   * Restore a folder which is pending deletion.
+   *
+   * @see [folders: undelete API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/folders/undelete}
+   *
+   * @param {FolderOperationCallback} [callback] Callback function.
+   * @returns {Promise<FolderOperationResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const folder = resource.folder('1234567890');
+   *
+   * folder.restore((err, operation, apiResponse) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   operation
+   *     .on('error', err => {})
+   *     .on('complete', () => {
+   *       // Folder restored.
+   *     });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * folder.restore().then((data) => {
+   *   const operation = data[0];
+   *   return operation.promise();
+   * });
+   */
+  restore(
+    callback?: FolderOperationCallback
+  ): void | Promise<FolderOperationResponse> {
+    this.request(
+      {
+        method: 'POST',
+        uri: ':undelete',
+        json: {},
+      },
+      (err, resp) => {
+        this.resource.handleOperationV3_(err, resp, callback!);
+      }
+    );
+  }
+
+  setMetadata(metadata: FolderMetadata): Promise<FolderOperationResponse>;
+  setMetadata(
+    metadata: FolderMetadata,
+    callback: FolderOperationCallback
+  ): void;
+  /**
+   * Set the folder's metadata. Only the display name can be changed.
+   *
+   * @see [folders: patch API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/folders/patch}
+   *
+   * @param {object} metadata The metadata to set.
+   * @param {string} metadata.displayName The new display name of the folder.
+   * @param {FolderOperationCallback} [callback] Callback function.
+   * @returns {Promise<FolderOperationResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const folder = resource.folder('1234567890');
+   *
+   * const metadata = {
+   *   displayName: 'New name'
+   * };
+   *
+   * folder.setMetadata(metadata, (err, operation, apiResponse) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   operation
+   *     .on('error', err => {})
+   *     .on('complete', () => {
+   *       // The folder has been successfully updated.
+   *     });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * folder.setMetadata(metadata).then((data) => {
+   *   const operation = data[0];
+   *   return operation.promise();
+   * });
+   */
+  setMetadata(
+    metadata: FolderMetadata,
+    callback?: FolderOperationCallback
+  ): void | Promise<FolderOperationResponse> {
+    this.request(
+      {
+        method: 'PATCH',
+        uri: '',
+        qs: {
+          updateMask: 'displayName',
+        },
+        json: {
+          displayName: metadata.displayName,
+        },
+      },
+      (err, resp) => {
+        this.resource.handleOperationV3_(err, resp, callback!);
+      }
+    );
+  }
+}
+
+/*! Developer Documentation
+ *
+ * All async methods (except for streams) will return a Promise in the event
+ * that a callback is omitted.
+ */
+promisifyAll(Folder);
+
+/**
+ * Reference to the {@link Folder} class.
+ * @name module:@google-cloud/resource.Folder
+ * @see Folder
+ */
+export {Folder};
@@ -0,0 +1,221 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DecorateRequestOptions, ServiceObject} from '@google-cloud/common';
+import {promisifyAll} from '@google-cloud/promisify';
+
+import {
+  GetIamPolicyCallback,
+  GetIamPolicyOptions,
+  GetIamPolicyResponse,
+  Policy,
+  SetIamPolicyCallback,
+  SetIamPolicyOptions,
+  SetIamPolicyResponse,
+  TestIamPermissionsCallback,
+  TestIamPermissionsResponse,
+} from './project';
+import {CONDITIONAL_POLICY_VERSION, validatePolicy} from './validation';
+
+/**
+ * The IAM methods shared by the resources which hold an IAM policy:
+ * projects, folders, organizations, tag keys and tag values. They call the
+ * `:getIamPolicy`, `:setIamPolicy` and `:testIamPermissions` methods of the
+ * resource, which behave the same across these APIs.
+ *
+ * @see [Policy Resource]{@link https://cloud.google.com/resource-manager/reference/rest/Shared.Types/Policy}
+ *
+ * @class
+ */
+class IamServiceObject<T> extends ServiceObject<T> {
+  getIamPolicy(options?: GetIamPolicyOptions): Promise<GetIamPolicyResponse>;
+  getIamPolicy(callback: GetIamPolicyCallback): void;
+  getIamPolicy(
+    options: GetIamPolicyOptions,
+    callback: GetIamPolicyCallback
+  ): void;
+  /**
+   * @typedef {array} GetIamPolicyResponse
+   * @property {Policy} 0 The IAM [policy]{@link https://cloud.google.com/resource-manager/reference/rest/Shared.Types/Policy}
+   *     of the resource.
+   */
+  /**
+   * @callback GetIamPolicyCallback
+   * @param {?Error} err Request error, if any.
+   * @param {Policy} policy The IAM [policy]{@link https://cloud.google.com/resource-manager/reference/rest/Shared.Types/Policy}
+   *     of the resource.
+   */
+  /**
+   * Get the IAM policy of the resource.
+   *
+   * @param {GetIamPolicyOptions} [options] Options object to get IAM policy.
+   * @param {number} [options.requestedPolicyVersion=3] The policy version to
+   *     request. Conditional role bindings are only returned with their
+   *     conditions at version 3.
+   * @param {GetIamPolicyCallback} [callback] Callback function.
+   * @returns {Promise<GetIamPolicyResponse>}
+   */
+  getIamPolicy(
+    optionsOrCallback?: GetIamPolicyCallback | GetIamPolicyOptions,
+    callback?: GetIamPolicyCallback
+  ): void | Promise<GetIamPolicyResponse> {
+    const options = Object.assign(
+      {requestedPolicyVersion: CONDITIONAL_POLICY_VERSION},
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {}
+    );
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    this.request(
+      {
+        method: 'POST',
+        uri: ':getIamPolicy',
+        body: {
+          options,
+        },
+      },
+      (err, resp) => {
+        callback!(err, resp);
+      }
+    );
+  }
+
+  setIamPolicy(
+    policy: Policy,
+    options?: SetIamPolicyOptions
+  ): Promise<SetIamPolicyResponse>;
+  setIamPolicy(policy: Policy, callback: SetIamPolicyCallback): void;
+  setIamPolicy(
+    policy: Policy,
+    options: SetIamPolicyOptions,
+    callback: SetIamPolicyCallback
+  ): void;
+  /**
+   * Set the IAM policy of the resource, replacing any existing policy.
+   *
+   * A policy holding conditional role bindings is refused before any request
+   * is made unless its `version` is 3, as the conditions would be lost.
+   *
+   * @param {Policy} policy The policy to apply.
+   * @param {SetIamPolicyOptions} [options] Options object to set IAM policy.
+   * @param {string} [options.updateMask] A comma-separated list of policy
+   *     fields to modify, e.g. `bindings,etag`. Only `bindings` and `etag`
+   *     are updated when omitted.
+   * @param {SetIamPolicyCallback} [callback] Callback function.
+   * @returns {Promise<SetIamPolicyResponse>}
+   */
+  setIamPolicy(
+    policy: Policy,
+    optionsOrCallback?: SetIamPolicyOptions | SetIamPolicyCallback,
+    callback?: SetIamPolicyCallback
+  ): void | Promise<SetIamPolicyResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    try {
+      validatePolicy(policy);
+    } catch (e) {
+      callback!(e);
+      return;
+    }
+
+    this.writeIamPolicy_(
+      {
+        method: 'POST',
+        uri: ':setIamPolicy',
+        json: Object.assign({}, options, {
+          policy,
+        }),
+      },
+      callback!
+    );
+  }
+
+  testIamPermissions(
+    permissions: string[]
+  ): Promise<TestIamPermissionsResponse>;
+  testIamPermissions(
+    permissions: string[],
+    callback: TestIamPermissionsCallback
+  ): void;
+  /**
+   * @typedef {array} TestIamPermissionsResponse
+   * @property {string[]} 0 The subset of the requested permissions the caller
+   *     holds on the resource.
+   * @property {object} 1 The full API response.
+   */
+  /**
+   * @callback TestIamPermissionsCallback
+   * @param {?Error} err Request error, if any.
+   * @param {string[]} permissions The subset of the requested permissions the
+   *     caller holds on the resource.
+   * @param {object} apiResponse The full API response.
+   */
+  /**
+   * Check which of the given permissions the caller holds on the resource.
+   *
+   * @param {string[]} permissions The permissions to check, e.g.
+   *     `resourcemanager.projects.delete`.
+   * @param {TestIamPermissionsCallback} [callback] Callback function.
+   * @returns {Promise<TestIamPermissionsResponse>}
+   */
+  testIamPermissions(
+    permissions: string[],
+    callback?: TestIamPermissionsCallback
+  ): void | Promise<TestIamPermissionsResponse> {
+    this.request(
+      {
+        method: 'POST',
+        uri: ':testIamPermissions',
+        json: {
+          permissions,
+        },
+      },
+      (err, resp) => {
+        if (err) {
+          callback!(err, null, resp);
+          return;
+        }
+        callback!(null, resp.permissions || [], resp);
+      }
+    );
+  }
+
+  /**
+   * Send the `:setIamPolicy` request, once the policy is validated.
+   *
+   * @private
+   */
+  writeIamPolicy_(
+    reqOpts: DecorateRequestOptions,
+    callback: SetIamPolicyCallback
+  ) {
+    this.request(reqOpts, (err, resp) => {
+      callback(err, resp);
+    });
+  }
+}
+
+/*! Developer Documentation
+ *
+ * All async methods (except for streams) will return a Promise in the event
+ * that a callback is omitted.
+ */
+promisifyAll(IamServiceObject);
+
+export {IamServiceObject};
@@ -15,6 +15,9 @@
  */
 
 import {
+  ApiError,
+  BodyResponseCallback,
+  DecorateRequestOptions,
   GoogleAuthOptions,
   Operation,
   Service,
@@ -22,16 +25,45 @@ import {
 } from '@google-cloud/common';
 import {paginator} from '@google-cloud/paginator';
 import {promisifyAll} from '@google-cloud/promisify';
+import {randomBytes} from 'crypto';
 
-import {Project} from './project';
+import {BatchCallback, BatchOptions, BatchResponse, runBatch} from './batch';
+import {IamCondition} from './condition';
+import {describeRequest, DryRunOptions, DryRunRequest} from './dry-run';
+import {ResourceManagerEmulator} from './emulator';
+import {ProjectFilter} from './filter';
+import {
+  Folder,
+  FolderOperationCallback,
+  FolderOperationResponse,
+} from './folder';
+import {Lien} from './lien';
+import {OperationError, ProjectOperation} from './operation';
+import {Organization} from './organization';
+import {diffIamPolicies, formatIamPolicyDiff} from './policy-diff';
+import {Project, ResourceId} from './project';
+import {Recorder, RecordingOptions} from './recorder';
+import {validateProjectId, validateProjectMetadata} from './validation';
+import {
+  TagKey,
+  TagKeyOperationCallback,
+  TagKeyOperationResponse,
+} from './tag-key';
+import {
+  TagValue,
+  TagValueOperationCallback,
+  TagValueOperationResponse,
+} from './tag-value';
 
 export type CreateProjectCallback = (
   err: Error | null,
   project?: Project | null,
-  operation?: Operation<Project>,
-  apiResponse?: Metadata
+  operation?: ProjectOperation | null,
+  apiResponse?: Metadata | DryRunRequest
 ) => void;
-export type CreateProjectResponse = [Project, Operation<Project>, Metadata];
+export type CreateProjectResponse =
+  | [Project, ProjectOperation, Metadata]
+  | [Project, null, DryRunRequest];
 export type GetProjectsResponse = [Project[], Metadata];
 export type GetProjectsCallback = (
   err: Error | null,
@@ -40,7 +72,84 @@ export type GetProjectsCallback = (
   apiResponse?: Metadata
 ) => void;
 
-export interface GetProjectOptions {
+export interface GenerateProjectIdOptions {
+  checkAvailability?: boolean;
+  maxAttempts?: number;
+}
+export type GenerateProjectIdResponse = [string];
+export type GenerateProjectIdCallback = (
+  err: Error | null,
+  projectId?: string | null
+) => void;
+
+export interface CreateFolderOptions {
+  parent: ResourceId;
+}
+
+export type GetFoldersResponse = [Folder[], Metadata];
+export type GetFoldersCallback = (
+  err: Error | null,
+  folders?: Folder[] | null,
+  nextQuery?: {} | null,
+  apiResponse?: Metadata
+) => void;
+
+export interface GetFoldersOptions {
+  autoPaginate?: boolean;
+  maxApiCalls?: number;
+  maxResults?: number;
+  pageSize?: number;
+  pageToken?: string;
+  parent: ResourceId;
+  showDeleted?: boolean;
+}
+
+export interface CreateLienOptions {
+  origin: string;
+  parent: ResourceId;
+  reason: string;
+  restrictions: string[];
+}
+export type CreateLienResponse = [Lien, Metadata];
+export type CreateLienCallback = (
+  err: Error | null,
+  lien?: Lien | null,
+  apiResponse?: Metadata
+) => void;
+
+export type GetLiensResponse = [Lien[], Metadata];
+export type GetLiensCallback = (
+  err: Error | null,
+  liens?: Lien[] | null,
+  nextQuery?: {} | null,
+  apiResponse?: Metadata
+) => void;
+
+export interface GetLiensOptions {
+  autoPaginate?: boolean;
+  maxApiCalls?: number;
+  maxResults?: number;
+  pageSize?: number;
+  pageToken?: string;
+  parent: ResourceId;
+}
+
+export type GetOperationResponse = [ProjectOperation, Metadata];
+export type GetOperationCallback = (
+  err: Error | null,
+  operation?: ProjectOperation | null,
+  apiResponse?: Metadata
+) => void;
+
+export type GetOrganizationsResponse = [Organization[], Metadata];
+export type GetOrganizationsCallback = (
+  err: Error | null,
+  organizations?: Organization[] | null,
+  nextQuery?: {} | null,
+  apiResponse?: Metadata
+) => void;
+
+export interface GetOrganizationsOptions {
   autoPaginate?: boolean;
   filter?: string;
   maxApiCalls?: number;
@@ -49,36 +158,113 @@ export interface GetProjectOptions {
   pageToken?: string;
 }
 
+export interface CreateTagKeyOptions {
+  description?: string;
+  parent: ResourceId;
+}
+
+export type GetTagKeysResponse = [TagKey[], Metadata];
+export type GetTagKeysCallback = (
+  err: Error | null,
+  tagKeys?: TagKey[] | null,
+  nextQuery?: {} | null,
+  apiResponse?: Metadata
+) => void;
+
+export interface GetTagKeysOptions {
+  autoPaginate?: boolean;
+  maxApiCalls?: number;
+  maxResults?: number;
+  pageSize?: number;
+  pageToken?: string;
+  parent: ResourceId;
+}
+
+export interface CreateTagValueOptions {
+  description?: string;
+  tagKey: string;
+}
+
+export type GetTagValuesResponse = [TagValue[], Metadata];
+export type GetTagValuesCallback = (
+  err: Error | null,
+  tagValues?: TagValue[] | null,
+  nextQuery?: {} | null,
+  apiResponse?: Metadata
+) => void;
+
+export interface GetTagValuesOptions {
+  autoPaginate?: boolean;
+  maxApiCalls?: number;
+  maxResults?: number;
+  pageSize?: number;
+  pageToken?: string;
+  tagKey: string;
+}
+
+export interface GetProjectOptions {
+  autoPaginate?: boolean;
+  filter?: string | ProjectFilter;
+  maxApiCalls?: number;
+  maxResults?: number;
+  pageSize?: number;
+  pageToken?: string;
+}
+
 export enum LifecycleState {
   /**
    * 	Unspecified state. This is only used/useful for distinguishing unset
    * values.
    */
-  'LIFECYCLE_STATE_UNSPECIFIED',
+  LIFECYCLE_STATE_UNSPECIFIED = 'LIFECYCLE_STATE_UNSPECIFIED',
   /**
    * 	The normal and active state.
    */
-  'ACTIVE',
+  ACTIVE = 'ACTIVE',
   /**
    * 	The project has been marked for deletion by the user (by invoking
    * projects.delete) or by the system (Google Cloud Platform). This can
    * generally be reversed by invoking projects.undelete.
    */
-  'DELETE_REQUESTED',
+  DELETE_REQUESTED = 'DELETE_REQUESTED',
   /**
    * 	This lifecycle state is no longer used and not returned by the API.
    */
-  'DELETE_IN_PROGRESS',
+  DELETE_IN_PROGRESS = 'DELETE_IN_PROGRESS',
 }
 
-export interface CreateProjectOptions {
+/**
+ * @typedef {object} ProjectMetadata
+ * @property {string} [projectNumber] The number uniquely identifying the
+ *     project.
+ * @property {string} [projectId] The unique, user-assigned ID of the project.
+ * @property {LifecycleState} [lifecycleState] The project lifecycle state.
+ * @property {string} [name] The optional user-assigned display name of the
+ *     project.
+ * @property {string} [createTime] Creation time, as an RFC 3339 timestamp.
+ * @property {object} [labels] The labels associated with this project.
+ * @property {object} [parent] The folder or organization the project
+ *     belongs to, e.g. `{type: 'organization', id: '1234'}`.
+ */
+export interface ProjectMetadata {
   projectNumber?: string;
   projectId?: string;
   lifecycleState?: LifecycleState;
-  name: string;
-  createTime: string;
-  labels: {[index: string]: string};
-  parent: {type: string; id: string};
+  name?: string;
+  createTime?: string;
+  labels?: {[index: string]: string};
+  parent?: {type: string; id: string};
+}
+
+export interface CreateProjectOptions extends ProjectMetadata, DryRunOptions {}
+
+/**
+ * @typedef {object} ProjectSpec
+ * @property {string} projectId The ID of the project to create.
+ * @see ProjectMetadata
+ */
+export interface ProjectSpec extends ProjectMetadata {
+  projectId: string;
 }
 
 /**
@@ -106,17 +292,74 @@ export interface CreateProjectOptions {
  *     attempted before returning the error.
  * @property {Constructor} [promise] Custom promise module to use instead of
  *     native Promises.
+ * @property {string} [emulatorHost] The host and port of an emulator of the
+ *     API, e.g. `localhost:8085`. Requests are then sent to the emulator over
+ *     plain HTTP, without looking up credentials, and the project ID defaults
+ *     to `emulator-project`. We will also check the environment variable
+ *     `RESOURCE_MANAGER_EMULATOR_HOST`.
+ * @property {object} [recording] Record the traffic of the client to a
+ *     fixture file, or replay it from the file. Recording includes the
+ *     polling of operations; credentials are scrubbed from the file. When
+ *     replaying, no request is sent and a request which was not recorded
+ *     fails.
+ * @property {string} recording.mode Either `record` or `replay`.
+ * @property {string} recording.path The path of the fixture file.
+ * @property {boolean} [dryRun=false] Describe the requests of mutating calls
+ *     instead of sending them. See the `dryRun` option of
+ *     {@link Resource#createProject}, {@link Project#delete},
+ *     {@link Project#setMetadata}, {@link Project#restore} and
+ *     {@link Project#setIamPolicy}, which overrides this one.
  */
 export interface ClientConfig extends GoogleAuthOptions {
   autoRetry?: boolean;
   maxRetries?: boolean;
   /**
    * The API endpoint of the service used to make requests.
-   * Defaults to `cloudresourcemanager.googleapis.com`.
+   * Defaults to `cloudresourcemanager.googleapis.com`. An endpoint with an
+   * `http://` scheme, e.g. the one of a {@link ResourceManagerEmulator}, is
+   * called over plain HTTP without credentials.
    */
   apiEndpoint?: string;
+  /**
+   * The host and port of an emulator of the API, e.g. `localhost:8085`.
+   * Defaults to the `RESOURCE_MANAGER_EMULATOR_HOST` environment variable.
+   */
+  emulatorHost?: string;
+  /**
+   * Record the requests and responses to a fixture file, or replay them from
+   * it.
+   */
+  recording?: RecordingOptions;
+  /**
+   * Describe the requests of mutating calls instead of sending them.
+   */
+  dryRun?: boolean;
 }
 
+/*! Developer Documentation
+ *
+ * Generated project IDs end with a random suffix of this many lowercase
+ * letters and digits, over 2 billion possibilities.
+ */
+const PROJECT_ID_SUFFIX_LENGTH = 6;
+const PROJECT_ID_SUFFIX_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+/*! Developer Documentation
+ *
+ * Random bytes from this value up are dropped: mapping all 256 values onto
+ * the 36 characters of the alphabet would favor its first characters.
+ */
+const PROJECT_ID_SUFFIX_BYTE_LIMIT =
+  256 - (256 % PROJECT_ID_SUFFIX_ALPHABET.length);
+const DEFAULT_GENERATE_PROJECT_ID_ATTEMPTS = 5;
+
+/*! Developer Documentation
+ *
+ * The project ID used with an emulator, so no credentials are needed to find
+ * one.
+ */
+const EMULATOR_PROJECT_ID = 'emulator-project';
+
 /**
  * The [Cloud Resource Manager](https://cloud.google.com/resource-manager/)
  * provides methods that you can use to programmatically manage your projects
@@ -152,19 +395,44 @@ export interface ClientConfig extends GoogleAuthOptions {
  * Full quickstart example:
  */
 class Resource extends Service {
+  getFoldersStream: Function;
+  getLiensStream: Function;
+  getOrganizationsStream: Function;
   getProjectsStream: Function;
+  getTagKeysStream: Function;
+  getTagValuesStream: Function;
+  recorder?: Recorder;
+  dryRun: boolean;
   constructor(options: ClientConfig = {}) {
+    const emulatorHost =
+      options.emulatorHost || process.env.RESOURCE_MANAGER_EMULATOR_HOST;
+    if (emulatorHost) {
+      options.apiEndpoint = `http://${emulatorHost.replace(/^http:\/\//, '')}`;
+      options.projectId = options.projectId || EMULATOR_PROJECT_ID;
+    }
     options.apiEndpoint =
       options.apiEndpoint || 'cloudresourcemanager.googleapis.com';
+    // An endpoint given with an `http://` scheme is a local stand-in for the
+    // API, such as ResourceManagerEmulator, which is called without
+    // credentials.
+    const customEndpoint = options.apiEndpoint.startsWith('http://');
     const config = {
       apiEndpoint: options.apiEndpoint,
-      baseUrl: `https://${options.apiEndpoint}/v1`,
+      baseUrl: customEndpoint
+        ? `${options.apiEndpoint}/v1`
+        : `https://${options.apiEndpoint}/v1`,
+      customEndpoint,
       scopes: ['https://www.googleapis.com/auth/cloud-platform'],
       projectIdRequired: false,
       packageJson: require('../../package.json'),
     };
     super(config, options);
 
+    if (options.recording) {
+      this.recorder = new Recorder(options.recording);
+    }
+    this.dryRun = !!options.dryRun;
+
     /**
      * Get a list of {@link Resource/project} objects as a readable object
      * stream.
@@ -196,119 +464,1158 @@ class Resource extends Service {
      *   });
      */
     this.getProjectsStream = paginator.streamify('getProjects');
+
+    /**
+     * Get a list of {@link Organization} objects as a readable object stream.
+     *
+     * @param {object} query Configuration object. See
+     *     {@link Resource#getOrganizations} for a complete list of options.
+     * @return {stream}
+     *
+     * @example
+     * const {Resource} = require('@google-cloud/resource');
+     * const resource = new Resource();
+     *
+     * resource.getOrganizationsStream()
+     *   .on('error', console.error)
+     *   .on('data', organization => {
+     *     // `organization` is an `Organization` object.
+     *   })
+     *   .on('end', () => {
+     *     // All organizations retrieved.
+     *   });
+     */
+    this.getOrganizationsStream = paginator.streamify('getOrganizations');
+
+    /**
+     * Get a list of {@link Folder} objects as a readable object stream.
+     *
+     * @param {object} query Configuration object. See
+     *     {@link Resource#getFolders} for a complete list of options.
+     * @return {stream}
+     *
+     * @example
+     * const {Resource} = require('@google-cloud/resource');
+     * const resource = new Resource();
+     *
+     * resource.getFoldersStream({parent: {type: 'organization', id: '1234'}})
+     *   .on('error', console.error)
+     *   .on('data', folder => {
+     *     // `folder` is a `Folder` object.
+     *   })
+     *   .on('end', () => {
+     *     // All folders retrieved.
+     *   });
+     */
+    this.getFoldersStream = paginator.streamify('getFolders');
+
+    /**
+     * Get a list of {@link Lien} objects as a readable object stream.
+     *
+     * @param {object} query Configuration object. See
+     *     {@link Resource#getLiens} for a complete list of options.
+     * @return {stream}
+     *
+     * @example
+     * const {Resource} = require('@google-cloud/resource');
+     * const resource = new Resource();
+     *
+     * resource.getLiensStream({parent: {type: 'project', id: 'my-project'}})
+     *   .on('error', console.error)
+     *   .on('data', lien => {
+     *     // `lien` is a `Lien` object.
+     *   })
+     *   .on('end', () => {
+     *     // All liens retrieved.
+     *   });
+     */
+    this.getLiensStream = paginator.streamify('getLiens');
+
+    /**
+     * Get a list of {@link TagKey} objects as a readable object stream.
+     *
+     * @param {object} query Configuration object. See
+     *     {@link Resource#getTagKeys} for a complete list of options.
+     * @return {stream}
+     *
+     * @example
+     * const {Resource} = require('@google-cloud/resource');
+     * const resource = new Resource();
+     *
+     * resource.getTagKeysStream({parent: {type: 'organization', id: '1234'}})
+     *   .on('error', console.error)
+     *   .on('data', tagKey => {
+     *     // `tagKey` is a `TagKey` object.
+     *   })
+     *   .on('end', () => {
+     *     // All tag keys retrieved.
+     *   });
+     */
+    this.getTagKeysStream = paginator.streamify('getTagKeys');
+
+    /**
+     * Get a list of {@link TagValue} objects as a readable object stream.
+     *
+     * @param {object} query Configuration object. See
+     *     {@link Resource#getTagValues} for a complete list of options.
+     * @return {stream}
+     *
+     * @example
+     * const {Resource} = require('@google-cloud/resource');
+     * const resource = new Resource();
+     *
+     * resource.getTagValuesStream({tagKey: '1234'})
+     *   .on('error', console.error)
+     *   .on('data', tagValue => {
+     *     // `tagValue` is a `TagValue` object.
+     *   })
+     *   .on('end', () => {
+     *     // All tag values retrieved.
+     *   });
+     */
+    this.getTagValuesStream = paginator.streamify('getTagValues');
   }
 
   /**
-   * Create a project.
+   * Create a folder.
    *
-   * **This method only works if you are authenticated as yourself, e.g. using
-   * the gcloud SDK.**
+   * The ID of the folder is assigned by the API, so the new {@link Folder} is
+   * only available once the returned operation completes.
    *
-   * @see [Projects Overview]{@link https://cloud.google.com/compute/docs/networking#networks}
-   * @see [projects: create API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/create}
+   * @see [Creating and managing folders]{@link https://cloud.google.com/resource-manager/docs/creating-managing-folders}
+   * @see [folders: create API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/folders/create}
    *
-   * @param {string} id ID of the project.
-   * @param {object} [options] See a
-   *     [Project
-   * resource](https://cloud.google.com/resource-manager/reference/rest/v1/projects#Project).
-   * @param {function} [callback] The callback function.
-   * @param {?error} callback.err An error returned while making this request.
-   * @param {Project} callback.project The created Project
-   *     object.
-   * @param {object} callback.apiResponse The full API response.
+   * @param {string} displayName The folder's display name.
+   * @param {object} options Configuration object.
+   * @param {ResourceId} options.parent The folder or organization to create
+   *     the folder in.
+   * @param {FolderOperationCallback} [callback] Callback function.
+   * @returns {Promise<FolderOperationResponse>}
    *
    * @example
    * const {Resource} = require('@google-cloud/resource');
    * const resource = new Resource();
    *
-   * const id = 'new-project-id';
+   * const parent = {type: 'organization', id: '1234567890'};
    *
-   * resource.createProject(id, (err, project, operation, apiResponse) => {
+   * resource.createFolder('Engineering', {parent}, (err, operation) => {
    *   if (err) {
    *     // Error handling omitted.
    *   }
    *
-   *   // `project` is a new Project instance.
-   *   // `operation` will emit `error` or `complete` when the status updates.
-   *
    *   operation
    *     .on('error', err => {})
-   *     .on('complete', () => {
-   *       // Project was created successfully!
+   *     .on('complete', metadata => {
+   *       // `metadata.response` describes the new folder.
    *     });
    * });
    *
    * //-
    * // If the callback is omitted, we'll return a Promise.
    * //-
-   * resource.createProject(id)
-   *   .then(data => {
-   *     const project = data[0];
-   *     const operation = data[1];
-   *     const apiResponse = data[2];
-   *
-   *     return operation.promise();
-   *   })
-   *   .then(data => {
-   *     const operationMetadata = data[0];
-   *
-   *     // Project created successfully!
-   *   });
+   * resource.createFolder('Engineering', {parent}).then(data => {
+   *   const operation = data[0];
+   *   const apiResponse = data[1];
+   * });
    */
-  createProject(
-    id: string,
-    options?: CreateProjectOptions
-  ): Promise<CreateProjectResponse>;
-  createProject(
-    id: string,
-    options: CreateProjectOptions,
-    callback: CreateProjectCallback
+  createFolder(
+    displayName: string,
+    options: CreateFolderOptions
+  ): Promise<FolderOperationResponse>;
+  createFolder(
+    displayName: string,
+    options: CreateFolderOptions,
+    callback: FolderOperationCallback
   ): void;
-  createProject(id: string, callback: CreateProjectCallback): void;
-  createProject(
-    id: string,
-    optionsOrCallback?: CreateProjectOptions | CreateProjectCallback,
-    callback?: CreateProjectCallback
-  ): void | Promise<CreateProjectResponse> {
-    const options =
-      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
-    callback =
-      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+  createFolder(
+    displayName: string,
+    options: CreateFolderOptions,
+    callback?: FolderOperationCallback
+  ): void | Promise<FolderOperationResponse> {
     this.request(
       {
         method: 'POST',
-        uri: '/projects',
-        json: Object.assign({}, options, {
-          projectId: id,
-        }),
+        uri: `${this.getBaseUrl_('v3')}/folders`,
+        json: {
+          displayName,
+          parent: `${options.parent.type}s/${options.parent.id}`,
+        },
       },
       (err, resp) => {
-        if (err) {
-          callback!(err, null, resp);
-          return;
-        }
-        const project = this.project(resp.projectId);
-        const operation = this.operation(resp.name);
-        operation.metadata = resp;
-        callback!(null, project, operation, resp);
+        this.handleOperationV3_(err, resp, callback!);
       }
     );
   }
 
   /**
-   * Get a list of projects.
+   * Create a lien, which applies restrictions to a project such as preventing
+   * its deletion.
    *
-   * @see [Projects Overview]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects}
-   * @see [projects: list API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/list}
+   * @see [Protecting projects with liens]{@link https://cloud.google.com/resource-manager/docs/project-liens}
+   * @see [liens: create API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/liens/create}
    *
-   * @param {object} [options] Operation search options.
-   * @param {boolean} [options.autoPaginate] Have pagination handled
-   *     automatically. Default: true.
-   * @param {string} [options.filter] An expression for filtering the results.
-   * @param {number} [options.maxApiCalls] Maximum number of API calls to make.
-   * @param {number} [options.maxResults] Maximum number of results to return.
-   * @param {number} [options.pageSize] Maximum number of projects to return.
-   * @param {string} [options.pageToken] A previously-returned page token
+   * @param {object} options Configuration object.
+   * @param {ResourceId} options.parent The project the lien applies to.
+   * @param {string[]} options.restrictions The permissions the lien
+   *     restricts, e.g. `resourcemanager.projects.delete`.
+   * @param {string} options.reason A human readable explanation of why the
+   *     lien was placed.
+   * @param {string} options.origin A short identifier of the creator of the
+   *     lien, e.g. `compute.googleapis.com`.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {Lien} callback.lien The created Lien object.
+   * @param {object} callback.apiResponse The full API response.
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const options = {
+   *   parent: {type: 'project', id: 'grape-spaceship-123'},
+   *   restrictions: ['resourcemanager.projects.delete'],
+   *   reason: 'Production project',
+   *   origin: 'platform-team',
+   * };
+   *
+   * resource.createLien(options, (err, lien, apiResponse) => {
+   *   // `lien` is a new Lien instance.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.createLien(options).then(data => {
+   *   const lien = data[0];
+   *   const apiResponse = data[1];
+   * });
+   */
+  createLien(options: CreateLienOptions): Promise<CreateLienResponse>;
+  createLien(options: CreateLienOptions, callback: CreateLienCallback): void;
+  createLien(
+    options: CreateLienOptions,
+    callback?: CreateLienCallback
+  ): void | Promise<CreateLienResponse> {
+    this.request(
+      {
+        method: 'POST',
+        uri: '/liens',
+        json: Object.assign({}, options, {
+          parent: `${options.parent.type}s/${options.parent.id}`,
+        }),
+      },
+      (err, resp) => {
+        if (err) {
+          callback!(err, null, resp);
+          return;
+        }
+        const lien = this.lien(resp.name);
+        lien.metadata = resp;
+        callback!(null, lien, resp);
+      }
+    );
+  }
+
+  /**
+   * Create a project.
+   *
+   * **This method only works if you are authenticated as yourself, e.g. using
+   * the gcloud SDK.**
+   *
+   * @see [Projects Overview]{@link https://cloud.google.com/compute/docs/networking#networks}
+   * @see [projects: create API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/create}
+   *
+   * @param {string} id ID of the project. It is checked before the request is
+   *     made: it must be 6 to 30 lowercase letters, digits and hyphens,
+   *     start with a letter, not end with a hyphen and not contain a
+   *     restricted string such as `google`.
+   * @param {object} [options] See a
+   *     [Project
+   * resource](https://cloud.google.com/resource-manager/reference/rest/v1/projects#Project).
+   *     The display name, `options.name`, is checked as well: it must be 4 to
+   *     30 letters, digits, spaces, hyphens, quotes and exclamation points.
+   *     So are the labels, `options.labels`.
+   * @param {boolean} [options.dryRun] Check the ID, the name and the labels,
+   *     but only describe the request instead of sending it. Defaults to the
+   *     `dryRun` option of the client.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request,
+   *     or describing why the ID, the name or the labels are invalid.
+   * @param {Project} callback.project The created Project
+   *     object.
+   * @param {?ProjectOperation} callback.operation The operation creating the
+   *     project, or `null` in dry-run mode.
+   * @param {object} callback.apiResponse The full API response. In dry-run
+   *     mode, there is no operation and this is the {@link DryRunRequest}
+   *     which would have been sent.
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const id = 'new-project-id';
+   *
+   * resource.createProject(id, (err, project, operation, apiResponse) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   // `project` is a new Project instance.
+   *   // `operation` will emit `error` or `complete` when the status updates.
+   *
+   *   operation
+   *     .on('error', err => {})
+   *     .on('complete', () => {
+   *       // Project was created successfully!
+   *     });
+   *
+   *   // Alternatively, wait for the created project.
+   *   operation.waitForCompletion({timeoutMs: 60000}, (err, project) => {
+   *     // `project.metadata` has been populated.
+   *   });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.createProject(id)
+   *   .then(data => {
+   *     const project = data[0];
+   *     const operation = data[1];
+   *     const apiResponse = data[2];
+   *
+   *     return operation.promise();
+   *   })
+   *   .then(data => {
+   *     const project = data[0];
+   *     const operationMetadata = data[1];
+   *
+   *     // Project created successfully!
+   *   });
+   *
+   * //-
+   * // See the request which would be sent, without creating the project.
+   * //-
+   * resource.createProject(id, {dryRun: true}).then(data => {
+   *   const dryRunRequest = data[2];
+   *   // dryRunRequest.json = {projectId: 'new-project-id'}
+   * });
+   */
+  createProject(
+    id: string,
+    options?: CreateProjectOptions
+  ): Promise<CreateProjectResponse>;
+  createProject(
+    id: string,
+    options: CreateProjectOptions,
+    callback: CreateProjectCallback
+  ): void;
+  createProject(id: string, callback: CreateProjectCallback): void;
+  createProject(
+    id: string,
+    optionsOrCallback?: CreateProjectOptions | CreateProjectCallback,
+    callback?: CreateProjectCallback
+  ): void | Promise<CreateProjectResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+    try {
+      validateProjectId(id);
+      validateProjectMetadata(options);
+    } catch (e) {
+      callback!(e, null);
+      return;
+    }
+    const reqOpts = {
+      method: 'POST',
+      uri: '/projects',
+      json: Object.assign({}, options, {
+        projectId: id,
+      }),
+    };
+    delete reqOpts.json.dryRun;
+    if (this.isDryRun_(options)) {
+      callback!(null, this.project(id), null, this.describeRequest_(reqOpts));
+      return;
+    }
+    this.request(reqOpts, (err, resp) => {
+      if (err) {
+        callback!(err, null, resp);
+        return;
+      }
+      const project = this.project(resp.projectId);
+      const operation = this.operation(resp.name);
+      operation.metadata = resp;
+      callback!(null, project, operation, resp);
+    });
+  }
+
+  /**
+   * Create several projects, with a bounded number of requests in flight.
+   *
+   * A failure does not stop the batch: every project is attempted and the
+   * report lists the successes and failures. Requests rejected because of
+   * rate limiting are retried with an exponential backoff.
+   *
+   * @see [projects: create API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/create}
+   *
+   * @param {ProjectSpec[]} specs The projects to create. Each spec takes the
+   *     options of {@link Resource#createProject} along with its
+   *     `projectId`, which must be unique within `specs`.
+   * @param {BatchOptions} [options] Configuration object.
+   * @param {number} [options.concurrency=5] Maximum number of requests in
+   *     flight.
+   * @param {number} [options.maxRetries=3] Maximum number of retries of a
+   *     rate limited request.
+   * @param {number} [options.retryDelayMs=1000] Delay before the first retry
+   *     of a rate limited request, doubled for each further retry.
+   * @param {function} [callback] Callback function.
+   * @param {?error} callback.err An error if the options are invalid, or if
+   *     several specs have the same `projectId`.
+   * @param {BatchReport} callback.report The report. The result of each
+   *     success is the {@link ProjectOperation} creating the project.
+   * @returns {Promise<BatchResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const specs = [
+   *   {projectId: 'env-1234-api', name: 'API'},
+   *   {projectId: 'env-1234-web', name: 'Web'},
+   * ];
+   *
+   * resource.createProjects(specs, {concurrency: 2}, (err, report) => {
+   *   report.succeeded.forEach(({id, result}) => {
+   *     // `result` is the operation creating the project.
+   *   });
+   *   report.failed.forEach(({id, error}) => {});
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.createProjects(specs).then(data => {
+   *   const report = data[0];
+   * });
+   */
+  createProjects(
+    specs: ProjectSpec[],
+    options?: BatchOptions
+  ): Promise<BatchResponse<ProjectOperation>>;
+  createProjects(
+    specs: ProjectSpec[],
+    callback: BatchCallback<ProjectOperation>
+  ): void;
+  createProjects(
+    specs: ProjectSpec[],
+    options: BatchOptions,
+    callback: BatchCallback<ProjectOperation>
+  ): void;
+  createProjects(
+    specs: ProjectSpec[],
+    optionsOrCallback?: BatchOptions | BatchCallback<ProjectOperation>,
+    callback?: BatchCallback<ProjectOperation>
+  ): void | Promise<BatchResponse<ProjectOperation>> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+    const specsById = new Map<string, ProjectSpec>();
+    for (const spec of specs) {
+      if (specsById.has(spec.projectId)) {
+        callback!(new Error(`Duplicate project ID "${spec.projectId}".`));
+        return;
+      }
+      specsById.set(spec.projectId, spec);
+    }
+    runBatch<ProjectOperation>(
+      Array.from(specsById.keys()),
+      (id, done) => {
+        this.createProject(id, specsById.get(id)!, (err, project, operation) =>
+          done(err, operation || undefined)
+        );
+      },
+      options,
+      callback!
+    );
+  }
+
+  /**
+   * Create a tag key under an organization or a project.
+   *
+   * The ID of the tag key is assigned by the API, so the new {@link TagKey}
+   * is only available once the returned operation completes.
+   *
+   * @see [Creating and managing tags]{@link https://cloud.google.com/resource-manager/docs/tags/tags-creating-and-managing}
+   * @see [tagKeys: create API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagKeys/create}
+   *
+   * @param {string} shortName The tag key's name, unique within its parent,
+   *     e.g. `environment`.
+   * @param {object} options Configuration object.
+   * @param {ResourceId} options.parent The organization or project to create
+   *     the tag key in.
+   * @param {string} [options.description] A description of the tag key.
+   * @param {TagKeyOperationCallback} [callback] Callback function.
+   * @returns {Promise<TagKeyOperationResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const parent = {type: 'organization', id: '1234567890'};
+   *
+   * resource.createTagKey('environment', {parent}, (err, operation) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   operation
+   *     .on('error', err => {})
+   *     .on('complete', metadata => {
+   *       // `metadata.response` describes the new tag key.
+   *     });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.createTagKey('environment', {parent}).then(data => {
+   *   const operation = data[0];
+   *   const apiResponse = data[1];
+   * });
+   */
+  createTagKey(
+    shortName: string,
+    options: CreateTagKeyOptions
+  ): Promise<TagKeyOperationResponse>;
+  createTagKey(
+    shortName: string,
+    options: CreateTagKeyOptions,
+    callback: TagKeyOperationCallback
+  ): void;
+  createTagKey(
+    shortName: string,
+    options: CreateTagKeyOptions,
+    callback?: TagKeyOperationCallback
+  ): void | Promise<TagKeyOperationResponse> {
+    this.request(
+      {
+        method: 'POST',
+        uri: `${this.getBaseUrl_('v3')}/tagKeys`,
+        json: {
+          description: options.description,
+          parent: `${options.parent.type}s/${options.parent.id}`,
+          shortName,
+        },
+      },
+      (err, resp) => {
+        this.handleOperationV3_(err, resp, callback!);
+      }
+    );
+  }
+
+  /**
+   * Create a tag value under a tag key.
+   *
+   * The ID of the tag value is assigned by the API, so the new
+   * {@link TagValue} is only available once the returned operation completes.
+   *
+   * @see [Creating and managing tags]{@link https://cloud.google.com/resource-manager/docs/tags/tags-creating-and-managing}
+   * @see [tagValues: create API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagValues/create}
+   *
+   * @param {string} shortName The tag value's name, unique within its tag
+   *     key, e.g. `production`.
+   * @param {object} options Configuration object.
+   * @param {string} options.tagKey The ID of the tag key to create the tag
+   *     value in.
+   * @param {string} [options.description] A description of the tag value.
+   * @param {TagValueOperationCallback} [callback] Callback function.
+   * @returns {Promise<TagValueOperationResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const options = {tagKey: '1234567890'};
+   *
+   * resource.createTagValue('production', options, (err, operation) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   operation
+   *     .on('error', err => {})
+   *     .on('complete', metadata => {
+   *       // `metadata.response` describes the new tag value.
+   *     });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.createTagValue('production', options).then(data => {
+   *   const operation = data[0];
+   *   const apiResponse = data[1];
+   * });
+   */
+  createTagValue(
+    shortName: string,
+    options: CreateTagValueOptions
+  ): Promise<TagValueOperationResponse>;
+  createTagValue(
+    shortName: string,
+    options: CreateTagValueOptions,
+    callback: TagValueOperationCallback
+  ): void;
+  createTagValue(
+    shortName: string,
+    options: CreateTagValueOptions,
+    callback?: TagValueOperationCallback
+  ): void | Promise<TagValueOperationResponse> {
+    this.request(
+      {
+        method: 'POST',
+        uri: `${this.getBaseUrl_('v3')}/tagValues`,
+        json: {
+          description: options.description,
+          parent: `tagKeys/${options.tagKey.replace(/^tagKeys\//, '')}`,
+          shortName,
+        },
+      },
+      (err, resp) => {
+        this.handleOperationV3_(err, resp, callback!);
+      }
+    );
+  }
+
+  /**
+   * Delete several projects, with a bounded number of requests in flight.
+   *
+   * A failure does not stop the batch: every project is attempted and the
+   * report lists the successes and failures. Requests rejected because of
+   * rate limiting are retried with an exponential backoff.
+   *
+   * @see [projects: delete API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/delete}
+   *
+   * @param {string[]} ids The IDs of the projects.
+   * @param {BatchOptions} [options] See {@link Resource#createProjects}.
+   * @param {function} [callback] Callback function.
+   * @param {?error} callback.err An error if the options are invalid.
+   * @param {BatchReport} callback.report The report. The result of each
+   *     success is the API response.
+   * @returns {Promise<BatchResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const ids = ['env-1234-api', 'env-1234-web'];
+   *
+   * resource.deleteProjects(ids, {concurrency: 10}, (err, report) => {
+   *   report.failed.forEach(({id, error}) => {
+   *     // The project with ID `id` could not be deleted.
+   *   });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.deleteProjects(ids).then(data => {
+   *   const report = data[0];
+   * });
+   */
+  deleteProjects(
+    ids: string[],
+    options?: BatchOptions
+  ): Promise<BatchResponse<Metadata>>;
+  deleteProjects(ids: string[], callback: BatchCallback<Metadata>): void;
+  deleteProjects(
+    ids: string[],
+    options: BatchOptions,
+    callback: BatchCallback<Metadata>
+  ): void;
+  deleteProjects(
+    ids: string[],
+    optionsOrCallback?: BatchOptions | BatchCallback<Metadata>,
+    callback?: BatchCallback<Metadata>
+  ): void | Promise<BatchResponse<Metadata>> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+    runBatch<Metadata>(
+      ids,
+      (id, done) => {
+        this.project(id).delete((err, apiResponse) => done(err, apiResponse));
+      },
+      options,
+      callback!
+    );
+  }
+
+  /**
+   * Generate a valid project ID made of a prefix and a random suffix, e.g.
+   * `billing-x7k2q9`.
+   *
+   * Optionally, the API is asked whether a project with the generated ID
+   * exists, and another ID is generated if it does. Only a `404` is taken as
+   * proof that the ID is available. A `403` leaves it unknown, as the API
+   * returns one both for a project the caller cannot see and, to most
+   * callers, for an unused ID, so another ID is generated. Callers which get
+   * a `403` for every ID should skip the check and handle the `409` of
+   * {@link Resource#createProject} instead. Any other error is returned. An
+   * ID which was checked may still be taken by the time the project is
+   * created; {@link Resource#createProject} then fails with a `409` too.
+   *
+   * @param {string} prefix The start of the ID. It must be at most 23
+   *     lowercase letters, digits and hyphens, starting with a letter.
+   * @param {object} [options] Configuration object.
+   * @param {boolean} [options.checkAvailability=false] Check that no project
+   *     with the generated ID exists.
+   * @param {number} [options.maxAttempts=5] Maximum number of IDs to check
+   *     before giving up.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error if the prefix is invalid, if every
+   *     generated ID is taken or if the availability check failed.
+   * @param {string} callback.projectId The generated project ID.
+   * @returns {Promise<GenerateProjectIdResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const options = {checkAvailability: true};
+   *
+   * resource.generateProjectId('billing', options, (err, projectId) => {
+   *   resource.createProject(projectId, (err, project, operation) => {});
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.generateProjectId('billing').then(data => {
+   *   const projectId = data[0];
+   * });
+   */
+  generateProjectId(
+    prefix: string,
+    options?: GenerateProjectIdOptions
+  ): Promise<GenerateProjectIdResponse>;
+  generateProjectId(prefix: string, callback: GenerateProjectIdCallback): void;
+  generateProjectId(
+    prefix: string,
+    options: GenerateProjectIdOptions,
+    callback: GenerateProjectIdCallback
+  ): void;
+  generateProjectId(
+    prefix: string,
+    optionsOrCallback?: GenerateProjectIdOptions | GenerateProjectIdCallback,
+    callback?: GenerateProjectIdCallback
+  ): void | Promise<GenerateProjectIdResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    const maxPrefixLength = 30 - PROJECT_ID_SUFFIX_LENGTH - 1;
+    if (
+      typeof prefix !== 'string' ||
+      !/^[a-z][a-z0-9-]*$/.test(prefix) ||
+      prefix.length > maxPrefixLength
+    ) {
+      callback!(
+        new Error(
+          `Invalid project ID prefix "${prefix}": it must be at most ` +
+            `${maxPrefixLength} lowercase letters, digits and hyphens, ` +
+            'starting with a letter.'
+        ),
+        null
+      );
+      return;
+    }
+
+    const generate = () => {
+      let suffix = '';
+      while (suffix.length < PROJECT_ID_SUFFIX_LENGTH) {
+        randomBytes(PROJECT_ID_SUFFIX_LENGTH).forEach(byte => {
+          if (
+            byte < PROJECT_ID_SUFFIX_BYTE_LIMIT &&
+            suffix.length < PROJECT_ID_SUFFIX_LENGTH
+          ) {
+            suffix +=
+              PROJECT_ID_SUFFIX_ALPHABET[
+                byte % PROJECT_ID_SUFFIX_ALPHABET.length
+              ];
+          }
+        });
+      }
+      return `${prefix.replace(/-+$/, '')}-${suffix}`;
+    };
+
+    let projectId: string;
+    try {
+      projectId = generate();
+      validateProjectId(projectId);
+    } catch (e) {
+      callback!(e, null);
+      return;
+    }
+
+    if (!options.checkAvailability) {
+      callback!(null, projectId);
+      return;
+    }
+
+    const maxAttempts =
+      options.maxAttempts || DEFAULT_GENERATE_PROJECT_ID_ATTEMPTS;
+    let attempts = 0;
+    const attempt = () => {
+      attempts++;
+      this.project(projectId).getMetadata((err: Error | null) => {
+        if (err && (err as ApiError).code === 404) {
+          callback!(null, projectId);
+          return;
+        }
+        if (err && (err as ApiError).code !== 403) {
+          callback!(err, null);
+          return;
+        }
+        if (attempts >= maxAttempts) {
+          callback!(
+            new Error(
+              `Could not generate an available project ID after ${attempts} ` +
+                'attempts.'
+            ),
+            null
+          );
+          return;
+        }
+        projectId = generate();
+        attempt();
+      });
+    };
+    attempt();
+  }
+
+  /**
+   * Get a list of the folders directly under a folder or an organization.
+   *
+   * @see [folders: list API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/folders/list}
+   *
+   * @param {object} options Folder search options.
+   * @param {ResourceId} options.parent The folder or organization whose
+   *     folders are listed.
+   * @param {boolean} [options.autoPaginate] Have pagination handled
+   *     automatically. Default: true.
+   * @param {number} [options.maxApiCalls] Maximum number of API calls to make.
+   * @param {number} [options.maxResults] Maximum number of results to return.
+   * @param {number} [options.pageSize] Maximum number of folders to return.
+   * @param {string} [options.pageToken] A previously-returned page token
+   *     representing part of the larger set of results to view.
+   * @param {boolean} [options.showDeleted] Include folders which are pending
+   *     deletion. Default: false.
+   * @param {function} callback The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {Folder[]} callback.folders Folder objects under the parent.
+   * @param {object} callback.apiResponse The full API response.
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const parent = {type: 'organization', id: '1234567890'};
+   *
+   * resource.getFolders({parent}, (err, folders) => {
+   *   // `folders` is an array of `Folder` objects.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.getFolders({parent}).then(data => {
+   *   const folders = data[0];
+   * });
+   */
+  getFolders(options: GetFoldersOptions): Promise<GetFoldersResponse>;
+  getFolders(options: GetFoldersOptions, callback: GetFoldersCallback): void;
+  getFolders(
+    options: GetFoldersOptions,
+    callback?: GetFoldersCallback
+  ): void | Promise<GetFoldersResponse> {
+    this.request(
+      {
+        uri: `${this.getBaseUrl_('v3')}/folders`,
+        qs: {
+          pageSize: options.pageSize,
+          pageToken: options.pageToken,
+          parent: `${options.parent.type}s/${options.parent.id}`,
+          showDeleted: options.showDeleted,
+        },
+      },
+      (err, resp) => {
+        if (err) {
+          callback!(err, null, null, resp);
+          return;
+        }
+
+        let nextQuery: GetFoldersOptions;
+
+        if (resp.nextPageToken) {
+          nextQuery = Object.assign({}, options, {
+            pageToken: resp.nextPageToken,
+          });
+        }
+
+        const folders = (resp.folders || []).map((folder: Metadata) => {
+          const folderInstance = this.folder(folder.name);
+          folderInstance.metadata = folder;
+          return folderInstance;
+        });
+
+        callback!(null, folders, nextQuery!, resp);
+      }
+    );
+  }
+
+  /**
+   * Get a list of the liens applied to a project.
+   *
+   * @see [liens: list API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/liens/list}
+   *
+   * @param {object} options Lien search options.
+   * @param {ResourceId} options.parent The project whose liens are listed.
+   * @param {boolean} [options.autoPaginate] Have pagination handled
+   *     automatically. Default: true.
+   * @param {number} [options.maxApiCalls] Maximum number of API calls to make.
+   * @param {number} [options.maxResults] Maximum number of results to return.
+   * @param {number} [options.pageSize] Maximum number of liens to return.
+   * @param {string} [options.pageToken] A previously-returned page token
+   *     representing part of the larger set of results to view.
+   * @param {function} callback The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {Lien[]} callback.liens Lien objects of the project.
+   * @param {object} callback.apiResponse The full API response.
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const parent = {type: 'project', id: 'grape-spaceship-123'};
+   *
+   * resource.getLiens({parent}, (err, liens) => {
+   *   // `liens` is an array of `Lien` objects.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.getLiens({parent}).then(data => {
+   *   const liens = data[0];
+   * });
+   */
+  getLiens(options: GetLiensOptions): Promise<GetLiensResponse>;
+  getLiens(options: GetLiensOptions, callback: GetLiensCallback): void;
+  getLiens(
+    options: GetLiensOptions,
+    callback?: GetLiensCallback
+  ): void | Promise<GetLiensResponse> {
+    this.request(
+      {
+        uri: '/liens',
+        qs: {
+          pageSize: options.pageSize,
+          pageToken: options.pageToken,
+          parent: `${options.parent.type}s/${options.parent.id}`,
+        },
+      },
+      (err, resp) => {
+        if (err) {
+          callback!(err, null, null, resp);
+          return;
+        }
+
+        let nextQuery: GetLiensOptions;
+
+        if (resp.nextPageToken) {
+          nextQuery = Object.assign({}, options, {
+            pageToken: resp.nextPageToken,
+          });
+        }
+
+        const liens = (resp.liens || []).map((lien: Metadata) => {
+          const lienInstance = this.lien(lien.name);
+          lienInstance.metadata = lien;
+          return lienInstance;
+        });
+
+        callback!(null, liens, nextQuery!, resp);
+      }
+    );
+  }
+
+  /**
+   * Get an existing operation and its current state, e.g. to resume waiting
+   * for a project created by an earlier process. Persist the operation's
+   * `name` after {@link Resource#createProject} to do so.
+   *
+   * @see [operations: get API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/operations/get}
+   *
+   * @param {string} name The name of the operation.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {ProjectOperation} callback.operation The operation, with its
+   *     metadata populated. `operation.metadata.done` tells whether it has
+   *     finished, and `operation.metadata.error` or
+   *     `operation.metadata.response` holds its outcome.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<GetOperationResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * resource.getOperation('operations/cp.1234', (err, operation) => {
+   *   if (!operation.metadata.done) {
+   *     operation.waitForCompletion((err, project) => {});
+   *   }
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.getOperation('operations/cp.1234')
+   *   .then(data => {
+   *     const operation = data[0];
+   *     return operation.waitForCompletion();
+   *   })
+   *   .then(data => {
+   *     const project = data[0];
+   *   });
+   */
+  getOperation(name: string): Promise<GetOperationResponse>;
+  getOperation(name: string, callback: GetOperationCallback): void;
+  getOperation(
+    name: string,
+    callback?: GetOperationCallback
+  ): void | Promise<GetOperationResponse> {
+    const operation = this.operation(name);
+    operation.getMetadata((err: Error | null, metadata: Metadata) => {
+      if (err) {
+        callback!(err, null, metadata);
+        return;
+      }
+      callback!(null, operation, metadata);
+    });
+  }
+
+  /**
+   * Get a list of the organizations the caller has access to.
+   *
+   * @see [organizations: search API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/organizations/search}
+   *
+   * @param {object} [options] Organization search options.
+   * @param {boolean} [options.autoPaginate] Have pagination handled
+   *     automatically. Default: true.
+   * @param {string} [options.filter] An expression for filtering the results,
+   *     e.g. `domain:example.com`.
+   * @param {number} [options.maxApiCalls] Maximum number of API calls to make.
+   * @param {number} [options.maxResults] Maximum number of results to return.
+   * @param {number} [options.pageSize] Maximum number of organizations to
+   *     return.
+   * @param {string} [options.pageToken] A previously-returned page token
+   *     representing part of the larger set of results to view.
+   * @param {function} callback The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {Organization[]} callback.organizations Organization objects the
+   *     caller has access to.
+   * @param {object} callback.apiResponse The full API response.
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * resource.getOrganizations((err, organizations) => {
+   *   // `organizations` is an array of `Organization` objects.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.getOrganizations().then(data => {
+   *   const organizations = data[0];
+   * });
+   */
+  getOrganizations(
+    options?: GetOrganizationsOptions
+  ): Promise<GetOrganizationsResponse>;
+  getOrganizations(
+    options: GetOrganizationsOptions,
+    callback: GetOrganizationsCallback
+  ): void;
+  getOrganizations(callback: GetOrganizationsCallback): void;
+  getOrganizations(
+    optionsOrCallback?: GetOrganizationsOptions | GetOrganizationsCallback,
+    callback?: GetOrganizationsCallback
+  ): void | Promise<GetOrganizationsResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+    this.request(
+      {
+        method: 'POST',
+        uri: '/organizations:search',
+        json: {
+          filter: options.filter,
+          pageSize: options.pageSize,
+          pageToken: options.pageToken,
+        },
+      },
+      (err, resp) => {
+        if (err) {
+          callback!(err, null, null, resp);
+          return;
+        }
+
+        let nextQuery: GetOrganizationsOptions;
+
+        if (resp.nextPageToken) {
+          nextQuery = Object.assign({}, options, {
+            pageToken: resp.nextPageToken,
+          });
+        }
+
+        const organizations = (resp.organizations || []).map(
+          (organization: Metadata) => {
+            const organizationInstance = this.organization(organization.name);
+            organizationInstance.metadata = organization;
+            return organizationInstance;
+          }
+        );
+
+        callback!(null, organizations, nextQuery!, resp);
+      }
+    );
+  }
+
+  /**
+   * Get a list of projects.
+   *
+   * @see [Projects Overview]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects}
+   * @see [projects: list API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/list}
+   *
+   * @param {object} [options] Operation search options.
+   * @param {boolean} [options.autoPaginate] Have pagination handled
+   *     automatically. Default: true.
+   * @param {string|ProjectFilter} [options.filter] An expression for filtering
+   *     the results. Build it with {@link ProjectFilter} to have it validated
+   *     and escaped.
+   * @param {number} [options.maxApiCalls] Maximum number of API calls to make.
+   * @param {number} [options.maxResults] Maximum number of results to return.
+   * @param {number} [options.pageSize] Maximum number of projects to return.
+   * @param {string} [options.pageToken] A previously-returned page token
    *     representing part of the larger set of results to view.
    * @param {function} callback The callback function.
    * @param {?error} callback.err An error returned while making this request.
@@ -335,32 +1642,291 @@ class Resource extends Service {
    *   }
    * }
    *
-   * resource.getProjects({
-   *   autoPaginate: false
-   * }, callback);
+   * resource.getProjects({
+   *   autoPaginate: false
+   * }, callback);
+   *
+   * //-
+   * // Only get the active projects of an organization.
+   * //-
+   * const {ProjectFilter} = require('@google-cloud/resource');
+   *
+   * const filter = ProjectFilter.parent({type: 'organization', id: '1234'})
+   *   .and(ProjectFilter.lifecycleState('ACTIVE'));
+   *
+   * resource.getProjects({filter}, (err, projects) => {});
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.getProjects().then(data => {
+   *   const projects = data[0];
+   * });
+   */
+  getProjects(options?: GetProjectOptions): Promise<GetProjectsResponse>;
+  getProjects(options: GetProjectOptions, callback: GetProjectsCallback): void;
+  getProjects(callback: GetProjectsCallback): void;
+  getProjects(
+    optionsOrCallback?: GetProjectOptions | GetProjectsCallback,
+    callback?: GetProjectsCallback
+  ): void | Promise<GetProjectsResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+    const qs =
+      options.filter instanceof ProjectFilter
+        ? Object.assign({}, options, {filter: options.filter.toString()})
+        : options;
+    this.request(
+      {
+        uri: '/projects',
+        qs,
+      },
+      (err, resp) => {
+        if (err) {
+          callback!(err, null, null, resp);
+          return;
+        }
+
+        let nextQuery: GetProjectOptions;
+
+        if (resp.nextPageToken) {
+          nextQuery = Object.assign({}, options, {
+            pageToken: resp.nextPageToken,
+          });
+        }
+
+        const projects = (resp.projects || []).map(
+          (project: ProjectMetadata) => {
+            const projectInstance = this.project(project.projectId);
+            projectInstance.metadata = project;
+            return projectInstance;
+          }
+        );
+
+        callback!(null, projects, nextQuery!, resp);
+      }
+    );
+  }
+
+  /**
+   * Iterate over projects with `for await`, one at a time. Pages are only
+   * requested as the iteration reaches them, so memory use does not grow with
+   * the number of projects.
+   *
+   * @see [projects: list API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/list}
+   *
+   * @param {object} [options] See {@link Resource#listProjectPagesAsync}.
+   * @returns {AsyncIterable<Project>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * for await (const project of resource.listProjectsAsync()) {
+   *   console.log(project.id);
+   * }
+   */
+  async *listProjectsAsync(
+    options?: GetProjectOptions
+  ): AsyncIterable<Project> {
+    for await (const projects of this.listProjectPagesAsync(options)) {
+      yield* projects;
+    }
+  }
+
+  /**
+   * Iterate over pages of projects with `for await`. Each page is requested
+   * when the iteration reaches it. Empty pages are skipped.
+   *
+   * @see [projects: list API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/list}
+   *
+   * @param {object} [options] Operation search options.
+   * @param {string|ProjectFilter} [options.filter] See
+   *     {@link Resource#getProjects}.
+   * @param {number} [options.maxResults] Maximum number of projects to return
+   *     over all pages.
+   * @param {number} [options.pageSize] Maximum number of projects per page.
+   * @param {string} [options.pageToken] A previously-returned page token to
+   *     start from.
+   * @returns {AsyncIterable<Project[]>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * for await (const projects of resource.listProjectPagesAsync({
+   *   pageSize: 100,
+   * })) {
+   *   // `projects` holds up to 100 `Project` objects.
+   * }
+   */
+  async *listProjectPagesAsync(
+    options: GetProjectOptions = {}
+  ): AsyncIterable<Project[]> {
+    let remaining =
+      typeof options.maxResults === 'number' ? options.maxResults : Infinity;
+    let query: GetProjectOptions | null = Object.assign({}, options, {
+      autoPaginate: false,
+    });
+    delete query.maxApiCalls;
+    delete query.maxResults;
+
+    while (query && remaining > 0) {
+      if (remaining !== Infinity) {
+        query.pageSize = Math.min(options.pageSize || remaining, remaining);
+      }
+      const [projects, nextQuery] = await new Promise<
+        [Project[], GetProjectOptions | null]
+      >((resolve, reject) => {
+        this.getProjects(query!, (err, projects, nextQuery) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          resolve([projects!, nextQuery || null]);
+        });
+      });
+
+      const page = projects.slice(0, remaining);
+      remaining -= page.length;
+      if (page.length > 0) {
+        yield page;
+      }
+      query = nextQuery;
+    }
+  }
+
+  /**
+   * Get a list of the tag keys of an organization or a project.
+   *
+   * @see [tagKeys: list API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagKeys/list}
+   *
+   * @param {object} options Tag key search options.
+   * @param {ResourceId} options.parent The organization or project whose tag
+   *     keys are listed.
+   * @param {boolean} [options.autoPaginate] Have pagination handled
+   *     automatically. Default: true.
+   * @param {number} [options.maxApiCalls] Maximum number of API calls to make.
+   * @param {number} [options.maxResults] Maximum number of results to return.
+   * @param {number} [options.pageSize] Maximum number of tag keys to return.
+   * @param {string} [options.pageToken] A previously-returned page token
+   *     representing part of the larger set of results to view.
+   * @param {function} callback The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {TagKey[]} callback.tagKeys TagKey objects of the parent.
+   * @param {object} callback.apiResponse The full API response.
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const parent = {type: 'organization', id: '1234567890'};
+   *
+   * resource.getTagKeys({parent}, (err, tagKeys) => {
+   *   // `tagKeys` is an array of `TagKey` objects.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.getTagKeys({parent}).then(data => {
+   *   const tagKeys = data[0];
+   * });
+   */
+  getTagKeys(options: GetTagKeysOptions): Promise<GetTagKeysResponse>;
+  getTagKeys(options: GetTagKeysOptions, callback: GetTagKeysCallback): void;
+  getTagKeys(
+    options: GetTagKeysOptions,
+    callback?: GetTagKeysCallback
+  ): void | Promise<GetTagKeysResponse> {
+    this.request(
+      {
+        uri: `${this.getBaseUrl_('v3')}/tagKeys`,
+        qs: {
+          pageSize: options.pageSize,
+          pageToken: options.pageToken,
+          parent: `${options.parent.type}s/${options.parent.id}`,
+        },
+      },
+      (err, resp) => {
+        if (err) {
+          callback!(err, null, null, resp);
+          return;
+        }
+
+        let nextQuery: GetTagKeysOptions;
+
+        if (resp.nextPageToken) {
+          nextQuery = Object.assign({}, options, {
+            pageToken: resp.nextPageToken,
+          });
+        }
+
+        const tagKeys = (resp.tagKeys || []).map((tagKey: Metadata) => {
+          const tagKeyInstance = this.tagKey(tagKey.name);
+          tagKeyInstance.metadata = tagKey;
+          return tagKeyInstance;
+        });
+
+        callback!(null, tagKeys, nextQuery!, resp);
+      }
+    );
+  }
+
+  /**
+   * Get a list of the tag values of a tag key.
+   *
+   * @see [tagValues: list API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagValues/list}
+   *
+   * @param {object} options Tag value search options.
+   * @param {string} options.tagKey The ID of the tag key whose values are
+   *     listed.
+   * @param {boolean} [options.autoPaginate] Have pagination handled
+   *     automatically. Default: true.
+   * @param {number} [options.maxApiCalls] Maximum number of API calls to make.
+   * @param {number} [options.maxResults] Maximum number of results to return.
+   * @param {number} [options.pageSize] Maximum number of tag values to return.
+   * @param {string} [options.pageToken] A previously-returned page token
+   *     representing part of the larger set of results to view.
+   * @param {function} callback The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {TagValue[]} callback.tagValues TagValue objects of the tag key.
+   * @param {object} callback.apiResponse The full API response.
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * resource.getTagValues({tagKey: '1234567890'}, (err, tagValues) => {
+   *   // `tagValues` is an array of `TagValue` objects.
+   * });
    *
    * //-
    * // If the callback is omitted, we'll return a Promise.
    * //-
-   * resource.getProjects().then(data => {
-   *   const projects = data[0];
+   * resource.getTagValues({tagKey: '1234567890'}).then(data => {
+   *   const tagValues = data[0];
    * });
    */
-  getProjects(options?: GetProjectOptions): Promise<GetProjectsResponse>;
-  getProjects(options: GetProjectOptions, callback: GetProjectsCallback): void;
-  getProjects(callback: GetProjectsCallback): void;
-  getProjects(
-    optionsOrCallback?: GetProjectOptions | GetProjectsCallback,
-    callback?: GetProjectsCallback
-  ): void | Promise<GetProjectsResponse> {
-    const options =
-      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
-    callback =
-      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+  getTagValues(options: GetTagValuesOptions): Promise<GetTagValuesResponse>;
+  getTagValues(
+    options: GetTagValuesOptions,
+    callback: GetTagValuesCallback
+  ): void;
+  getTagValues(
+    options: GetTagValuesOptions,
+    callback?: GetTagValuesCallback
+  ): void | Promise<GetTagValuesResponse> {
     this.request(
       {
-        uri: '/projects',
-        qs: options,
+        uri: `${this.getBaseUrl_('v3')}/tagValues`,
+        qs: {
+          pageSize: options.pageSize,
+          pageToken: options.pageToken,
+          parent: `tagKeys/${options.tagKey.replace(/^tagKeys\//, '')}`,
+        },
       },
       (err, resp) => {
         if (err) {
@@ -368,7 +1934,7 @@ class Resource extends Service {
           return;
         }
 
-        let nextQuery: GetProjectOptions;
+        let nextQuery: GetTagValuesOptions;
 
         if (resp.nextPageToken) {
           nextQuery = Object.assign({}, options, {
@@ -376,27 +1942,292 @@ class Resource extends Service {
           });
         }
 
-        const projects = (resp.projects || []).map((project: Project) => {
-          const projectInstance = this.project(project.projectId);
-          projectInstance.metadata = project;
-          return projectInstance;
+        const tagValues = (resp.tagValues || []).map((tagValue: Metadata) => {
+          const tagValueInstance = this.tagValue(tagValue.name);
+          tagValueInstance.metadata = tagValue;
+          return tagValueInstance;
         });
 
-        callback!(null, projects, nextQuery!, resp);
+        callback!(null, tagValues, nextQuery!, resp);
       }
     );
   }
 
-  /*! Developer Documentation
+  /**
+   * Restore several projects marked for deletion, with a bounded number of
+   * requests in flight.
+   *
+   * A failure does not stop the batch: every project is attempted and the
+   * report lists the successes and failures. Requests rejected because of
+   * rate limiting are retried with an exponential backoff.
+   *
+   * @see [projects: undelete API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/undelete}
+   *
+   * @param {string[]} ids The IDs of the projects.
+   * @param {BatchOptions} [options] See {@link Resource#createProjects}.
+   * @param {function} [callback] Callback function.
+   * @param {?error} callback.err An error if the options are invalid.
+   * @param {BatchReport} callback.report The report. The result of each
+   *     success is the API response.
+   * @returns {Promise<BatchResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const ids = ['env-1234-api', 'env-1234-web'];
+   *
+   * resource.restoreProjects(ids, (err, report) => {
+   *   report.succeeded.forEach(({id}) => {
+   *     // The project with ID `id` was restored.
+   *   });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.restoreProjects(ids).then(data => {
+   *   const report = data[0];
+   * });
+   */
+  restoreProjects(
+    ids: string[],
+    options?: BatchOptions
+  ): Promise<BatchResponse<Metadata>>;
+  restoreProjects(ids: string[], callback: BatchCallback<Metadata>): void;
+  restoreProjects(
+    ids: string[],
+    options: BatchOptions,
+    callback: BatchCallback<Metadata>
+  ): void;
+  restoreProjects(
+    ids: string[],
+    optionsOrCallback?: BatchOptions | BatchCallback<Metadata>,
+    callback?: BatchCallback<Metadata>
+  ): void | Promise<BatchResponse<Metadata>> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+    runBatch<Metadata>(
+      ids,
+      (id, done) => {
+        this.project(id).restore((err, apiResponse) => done(err, apiResponse));
+      },
+      options,
+      callback!
+    );
+  }
+
+  /**
+   * Apply the same change to several projects, with a bounded number of
+   * requests in flight.
+   *
+   * Only the fields of `patch` are sent, so concurrent changes to other
+   * fields are kept. A project is reported once the operation updating it is
+   * done.
+   *
+   * A failure does not stop the batch: every project is attempted and the
+   * report lists the successes and failures. Requests rejected because of
+   * rate limiting are retried with an exponential backoff.
+   *
+   * @see [projects: patch API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/projects/patch}
+   *
+   * @param {string[]} ids The IDs of the projects.
+   * @param {ProjectMetadata} patch The fields to change: `name` and `labels`.
+   *     Note that `labels` replaces all the labels of the project.
+   * @param {BatchOptions} [options] See {@link Resource#createProjects}.
+   * @param {function} [callback] Callback function.
+   * @param {?error} callback.err An error if the options are invalid, if
+   *     `patch` holds other fields or none, or if its name or labels are
+   *     invalid.
+   * @param {BatchReport} callback.report The report. The result of each
+   *     success is the updated metadata of the project.
+   * @returns {Promise<BatchResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const ids = ['env-1234-api', 'env-1234-web'];
+   * const patch = {labels: {env: 'staging'}};
+   *
+   * resource.updateProjects(ids, patch, (err, report) => {
+   *   report.succeeded.forEach(({id, result}) => {
+   *     // `result` is the updated metadata of the project.
+   *   });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.updateProjects(ids, patch).then(data => {
+   *   const report = data[0];
+   * });
+   */
+  updateProjects(
+    ids: string[],
+    patch: ProjectMetadata,
+    options?: BatchOptions
+  ): Promise<BatchResponse<ProjectMetadata>>;
+  updateProjects(
+    ids: string[],
+    patch: ProjectMetadata,
+    callback: BatchCallback<ProjectMetadata>
+  ): void;
+  updateProjects(
+    ids: string[],
+    patch: ProjectMetadata,
+    options: BatchOptions,
+    callback: BatchCallback<ProjectMetadata>
+  ): void;
+  updateProjects(
+    ids: string[],
+    patch: ProjectMetadata,
+    optionsOrCallback?: BatchOptions | BatchCallback<ProjectMetadata>,
+    callback?: BatchCallback<ProjectMetadata>
+  ): void | Promise<BatchResponse<ProjectMetadata>> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    const unsupported = Object.keys(patch).filter(
+      field => field !== 'name' && field !== 'labels'
+    );
+    if (unsupported.length) {
+      const message = `Cannot update the \`${unsupported[0]}\` field.`;
+      callback!(new Error(message));
+      return;
+    }
+    const fields: Metadata = {};
+    if (patch.name !== undefined) {
+      fields.displayName = patch.name;
+    }
+    if (patch.labels !== undefined) {
+      fields.labels = patch.labels;
+    }
+    const updateMask = Object.keys(fields).join(',');
+    if (!updateMask) {
+      callback!(new Error('`patch` must change `name` or `labels`.'));
+      return;
+    }
+    try {
+      validateProjectMetadata(patch);
+    } catch (e) {
+      callback!(e);
+      return;
+    }
+
+    runBatch<ProjectMetadata>(
+      ids,
+      (id, done) => {
+        const project = this.project(id);
+        project.patchV3_(fields, updateMask, err => {
+          if (err) {
+            done(err);
+            return;
+          }
+          project.getMetadata((err: Error | null, metadata?: ProjectMetadata) =>
+            done(err, metadata)
+          );
+        });
+      },
+      options,
+      callback!
+    );
+  }
+
+  /**
+   * Create a Folder object. See {@link Resource#createFolder} to create a
+   * folder.
+   *
+   * @throws {Error} If an ID is not provided.
+   *
+   * @param {string} id The numeric ID of the folder (eg: `1234567890`).
+   * @return {Folder}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const folder = resource.folder('1234567890');
+   */
+  folder(id: string) {
+    if (!id) {
+      throw new Error('A folder ID is required.');
+    }
+    return new Folder(this, id);
+  }
+
+  /**
+   * Get the base URL of another version of the API on the same endpoint.
+   *
+   * @private
+   *
+   * @param {string} version The API version, e.g. `v3`.
+   * @returns {string}
+   */
+  getBaseUrl_(version: string) {
+    return this.baseUrl.replace(/\/v1$/, `/${version}`);
+  }
+
+  /**
+   * Describe a request which is not sent, in dry-run mode.
+   *
+   * @private
+   *
+   * @param {object} reqOpts The request options.
+   * @returns {DryRunRequest}
+   */
+  describeRequest_(reqOpts: DecorateRequestOptions): DryRunRequest {
+    return Object.assign(
+      {dryRun: true as const},
+      describeRequest(reqOpts, this.baseUrl)
+    );
+  }
+
+  /**
+   * Whether a mutating call is only described rather than sent: the `dryRun`
+   * option of the call if it is set, else the one of the client.
+   *
+   * @private
+   *
+   * @param {object} [options] The options of the call.
+   * @returns {boolean}
+   */
+  isDryRun_(options: DryRunOptions = {}) {
+    return options.dryRun === undefined ? this.dryRun : options.dryRun;
+  }
+
+  /**
+   * Create a Lien object. See {@link Resource#createLien} to create a lien.
+   *
+   * @throws {Error} If a name is not provided.
+   *
+   * @param {string} name The name of the lien (eg: `liens/1234abcd`).
+   * @return {Lien}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
    *
-   * @returns {module:common/operation}
+   * const lien = resource.lien('liens/1234abcd');
    */
+  lien(name: string) {
+    if (!name) {
+      throw new Error('A lien name is required.');
+    }
+    return new Lien(this, name);
+  }
+
   /**
    * Get a reference to an existing operation.
    *
    * @throws {Error} If a name is not provided.
    *
    * @param {string} name The name of the operation.
+   * @returns {ProjectOperation}
    *
    * @example
    * const {Resource} = require('@google-cloud/resource');
@@ -408,7 +2239,73 @@ class Resource extends Service {
     if (!name) {
       throw new Error('A name must be specified for an operation.');
     }
-    return new Operation<Project>({parent: this, id: name});
+    return new ProjectOperation(this, name);
+  }
+
+  /**
+   * Get a reference to an existing operation of the v3 API, which is used for
+   * folders and moving projects.
+   *
+   * @private
+   *
+   * @param {string} name The name of the operation.
+   * @returns {Operation}
+   */
+  operationV3_<T = Folder>(name: string) {
+    return new Operation<T>({
+      parent: this,
+      baseUrl: this.getBaseUrl_('v3'),
+      id: name,
+    });
+  }
+
+  /**
+   * Execute the callback of a v3 mutation with the operation it returned.
+   *
+   * @private
+   *
+   * @param {?Error} err The request error, if any.
+   * @param {object} resp The API response, a long-running operation.
+   * @param {function} callback The callback function.
+   */
+  handleOperationV3_<T>(
+    err: Error | null,
+    resp: Metadata,
+    callback: (
+      err: Error | null,
+      operation?: Operation<T> | null,
+      apiResponse?: Metadata
+    ) => void
+  ) {
+    if (err) {
+      callback(err, null, resp);
+      return;
+    }
+    const operation = this.operationV3_<T>(resp.name);
+    operation.metadata = resp;
+    callback(null, operation, resp);
+  }
+
+  /**
+   * Create an Organization object. See {@link Resource#getOrganizations} to
+   * find the organizations you have access to.
+   *
+   * @throws {Error} If an ID is not provided.
+   *
+   * @param {string} id The numeric ID of the organization (eg: `1234567890`).
+   * @return {Organization}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const organization = resource.organization('1234567890');
+   */
+  organization(id: string) {
+    if (!id) {
+      throw new Error('An organization ID is required.');
+    }
+    return new Organization(this, id);
   }
 
   /**
@@ -433,13 +2330,86 @@ class Resource extends Service {
     }
     return new Project(this, id);
   }
+
+  /**
+   * Make an API request. When recording or replaying, the request goes
+   * through the {@link Recorder}.
+   *
+   * @private
+   *
+   * @param {object} reqOpts Request options.
+   * @param {function} callback The callback function.
+   */
+  request(reqOpts: DecorateRequestOptions, callback: BodyResponseCallback) {
+    if (!this.recorder) {
+      super.request(reqOpts, callback);
+      return;
+    }
+    this.recorder.request(
+      reqOpts,
+      this.baseUrl,
+      (reqOpts, callback) => super.request(reqOpts, callback),
+      callback
+    );
+  }
+
+  /**
+   * Create a TagKey object. See {@link Resource#createTagKey} to create a
+   * tag key.
+   *
+   * @throws {Error} If an ID is not provided.
+   *
+   * @param {string} id The numeric ID of the tag key (eg: `1234567890`).
+   * @return {TagKey}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const tagKey = resource.tagKey('1234567890');
+   */
+  tagKey(id: string) {
+    if (!id) {
+      throw new Error('A tag key ID is required.');
+    }
+    return new TagKey(this, id);
+  }
+
+  /**
+   * Create a TagValue object. See {@link Resource#createTagValue} to create a
+   * tag value.
+   *
+   * @throws {Error} If an ID is not provided.
+   *
+   * @param {string} id The numeric ID of the tag value (eg: `1234567890`).
+   * @return {TagValue}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * const tagValue = resource.tagValue('1234567890');
+   */
+  tagValue(id: string) {
+    if (!id) {
+      throw new Error('A tag value ID is required.');
+    }
+    return new TagValue(this, id);
+  }
 }
 
 /*! Developer Documentation
  *
  * These methods can be auto-paginated.
  */
-paginator.extend(Resource, ['getProjects']);
+paginator.extend(Resource, [
+  'getFolders',
+  'getLiens',
+  'getOrganizations',
+  'getProjects',
+  'getTagKeys',
+  'getTagValues',
+]);
 
 /*! Developer Documentation
  *
@@ -447,9 +2417,82 @@ paginator.extend(Resource, ['getProjects']);
  * that a callback is omitted.
  */
 promisifyAll(Resource, {
-  exclude: ['operation', 'project'],
+  exclude: [
+    'folder',
+    'lien',
+    'listProjectPagesAsync',
+    'listProjectsAsync',
+    'operation',
+    'organization',
+    'project',
+    'tagKey',
+    'tagValue',
+  ],
 });
 
+/**
+ * {@link diffIamPolicies} function.
+ *
+ * @name Resource.diffIamPolicies
+ * @see diffIamPolicies
+ * @type {function}
+ */
+export {diffIamPolicies};
+
+/**
+ * {@link formatIamPolicyDiff} function.
+ *
+ * @name Resource.formatIamPolicyDiff
+ * @see formatIamPolicyDiff
+ * @type {function}
+ */
+export {formatIamPolicyDiff};
+
+/**
+ * {@link Folder} class.
+ *
+ * @name Resource.Folder
+ * @see Folder
+ * @type {constructor}
+ */
+export {Folder};
+
+/**
+ * {@link IamCondition} class.
+ *
+ * @name Resource.IamCondition
+ * @see IamCondition
+ * @type {constructor}
+ */
+export {IamCondition};
+
+/**
+ * {@link Lien} class.
+ *
+ * @name Resource.Lien
+ * @see Lien
+ * @type {constructor}
+ */
+export {Lien};
+
+/**
+ * {@link OperationError} class.
+ *
+ * @name Resource.OperationError
+ * @see OperationError
+ * @type {constructor}
+ */
+export {OperationError};
+
+/**
+ * {@link Organization} class.
+ *
+ * @name Resource.Organization
+ * @see Organization
+ * @type {constructor}
+ */
+export {Organization};
+
 /**
  * {@link Project} class.
  *
@@ -459,6 +2502,51 @@ promisifyAll(Resource, {
  */
 export {Project};
 
+/**
+ * {@link ProjectFilter} class.
+ *
+ * @name Resource.ProjectFilter
+ * @see ProjectFilter
+ * @type {constructor}
+ */
+export {ProjectFilter};
+
+/**
+ * {@link ProjectOperation} class.
+ *
+ * @name Resource.ProjectOperation
+ * @see ProjectOperation
+ * @type {constructor}
+ */
+export {ProjectOperation};
+
+/**
+ * {@link ResourceManagerEmulator} class.
+ *
+ * @name Resource.ResourceManagerEmulator
+ * @see ResourceManagerEmulator
+ * @type {constructor}
+ */
+export {ResourceManagerEmulator};
+
+/**
+ * {@link TagKey} class.
+ *
+ * @name Resource.TagKey
+ * @see TagKey
+ * @type {constructor}
+ */
+export {TagKey};
+
+/**
+ * {@link TagValue} class.
+ *
+ * @name Resource.TagValue
+ * @see TagValue
+ * @type {constructor}
+ */
+export {TagValue};
+
 /**
  * The default export of the `@google-cloud/resource` package is the
  * {@link Resource} class.
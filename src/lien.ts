@@ -0,0 +1,177 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ServiceObject} from '@google-cloud/common';
+import {promisifyAll} from '@google-cloud/promisify';
+
+import {Resource} from '.';
+
+/**
+ * A Lien object allows you to interact with a lien, which prevents a project
+ * from being deleted.
+ *
+ * @see [Protecting projects with liens]{@link https://cloud.google.com/resource-manager/docs/project-liens}
+ * @see [Lien Resource]{@link https://cloud.google.com/resource-manager/reference/rest/v1/liens#Lien}
+ *
+ * @class
+ * @param {Resource} resource {@link Resource} object this lien belongs to.
+ * @param {string} name The lien's name, e.g. `liens/1234abcd`.
+ *
+ * @example
+ * const {Resource} = require('@google-cloud/resource');
+ * const resource = new Resource();
+ * const lien = resource.lien('liens/1234abcd');
+ */
+class Lien extends ServiceObject {
+  constructor(resource: Resource, name: string) {
+    const methods = {
+      /**
+       * Delete the lien, allowing the restrictions it imposes to be lifted.
+       *
+       * @see [liens: delete API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/liens/delete}
+       *
+       * @method Lien#delete
+       * @param {function} [callback] The callback function.
+       * @param {?error} callback.err An error returned while making this
+       *     request.
+       * @param {object} callback.apiResponse The full API response.
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const lien = resource.lien('liens/1234abcd');
+       *
+       * lien.delete((err, apiResponse) => {
+       *   if (!err) {
+       *     // The lien was deleted!
+       *   }
+       * });
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * lien.delete().then((data) => {
+       *   const apiResponse = data[0];
+       * });
+       */
+      delete: true,
+
+      /**
+       * Check if the lien exists.
+       *
+       * @method Lien#exists
+       * @param {function} callback The callback function.
+       * @param {?error} callback.err An error returned while making this
+       *     request.
+       * @param {boolean} callback.exists Whether the lien exists or not.
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const lien = resource.lien('liens/1234abcd');
+       *
+       * lien.exists((err, exists) => {});
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * lien.exists().then((data) => {
+       *   const exists = data[0];
+       * });
+       */
+      exists: true,
+
+      /**
+       * Get a lien if it exists.
+       *
+       * @method Lien#get
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const lien = resource.lien('liens/1234abcd');
+       *
+       * lien.get((err, lien, apiResponse) => {
+       *   // `lien.metadata` has been populated.
+       * });
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * lien.get().then((data) => {
+       *   const lien = data[0];
+       *   const apiResponse = data[1];
+       * });
+       */
+      get: true,
+
+      /**
+       * Get the metadata for the lien.
+       *
+       * @see [liens: get API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/liens/get}
+       *
+       * @method Lien#getMetadata
+       * @param {function} [callback] The callback function.
+       * @param {?error} callback.err An error returned while making this
+       *     request.
+       * @param {?object} callback.metadata - Metadata of the lien from the
+       *     API.
+       * @param {object} callback.apiResponse - Raw API response.
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const lien = resource.lien('liens/1234abcd');
+       *
+       * lien.getMetadata((err, metadata, apiResponse) => {});
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * lien.getMetadata().then((data) => {
+       *   const metadata = data[0];
+       *   const apiResponse = data[1];
+       * });
+       */
+      getMetadata: true,
+    };
+
+    super({
+      parent: resource,
+      baseUrl: '/liens',
+      /**
+       * @name Lien#id
+       * @type {string}
+       */
+      id: name.replace(/^liens\//, ''),
+      methods,
+    });
+  }
+}
+
+/*! Developer Documentation
+ *
+ * All async methods (except for streams) will return a Promise in the event
+ * that a callback is omitted.
+ */
+promisifyAll(Lien);
+
+/**
+ * Reference to the {@link Lien} class.
+ * @name module:@google-cloud/resource.Lien
+ * @see Lien
+ */
+export {Lien};
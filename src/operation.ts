@@ -0,0 +1,214 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Operation, Metadata} from '@google-cloud/common';
+import {promisifyAll} from '@google-cloud/promisify';
+
+import {Resource} from '.';
+import {Project} from './project';
+
+export interface OperationStatus {
+  code: number;
+  message: string;
+  details?: Array<{[key: string]: unknown}>;
+}
+
+export interface WaitForCompletionOptions {
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  backoff?: number;
+}
+export type WaitForCompletionResponse = [Project, Metadata];
+export interface WaitForCompletionCallback {
+  (err: Error | null, project?: Project | null, apiResponse?: Metadata): void;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 500;
+
+/**
+ * The error returned when an operation finishes unsuccessfully. The
+ * operation's `error` status is available as `code`, `message` and `details`.
+ *
+ * @class
+ * @param {string} operationName The name of the failed operation.
+ * @param {object} status The operation's `error` status.
+ */
+export class OperationError extends Error {
+  code: number;
+  details: Array<{[key: string]: unknown}>;
+  operationName: string;
+  constructor(operationName: string, status: OperationStatus) {
+    super(status.message);
+    this.name = 'OperationError';
+    this.code = status.code;
+    this.details = status.details || [];
+    this.operationName = operationName;
+  }
+}
+
+/**
+ * A ProjectOperation is the long-running operation returned by
+ * {@link Resource#createProject}. On top of the `complete` and `error` events
+ * of a common Operation, it can be waited for with
+ * {@link ProjectOperation#waitForCompletion}.
+ *
+ * @class
+ * @param {Resource} resource {@link Resource} object this operation belongs
+ *     to.
+ * @param {string} name The operation's name, e.g. `operations/cp.1234`.
+ *
+ * @example
+ * const {Resource} = require('@google-cloud/resource');
+ * const resource = new Resource();
+ * const operation = resource.operation('operations/cp.1234');
+ */
+class ProjectOperation extends Operation<Project> {
+  resource: Resource;
+  constructor(resource: Resource, name: string) {
+    super({parent: resource, id: name});
+    this.resource = resource;
+  }
+
+  /**
+   * Wait for the operation to complete. Same as
+   * {@link ProjectOperation#waitForCompletion} with the default options.
+   *
+   * @returns {Promise<WaitForCompletionResponse>}
+   */
+  promise(): Promise<WaitForCompletionResponse> {
+    return this.waitForCompletion();
+  }
+
+  waitForCompletion(
+    options?: WaitForCompletionOptions
+  ): Promise<WaitForCompletionResponse>;
+  waitForCompletion(callback: WaitForCompletionCallback): void;
+  waitForCompletion(
+    options: WaitForCompletionOptions,
+    callback: WaitForCompletionCallback
+  ): void;
+  /**
+   * Poll the operation until it is done.
+   *
+   * If the operation fails, the callback receives an {@link OperationError}
+   * holding the operation's `error` status.
+   *
+   * @param {object} [options] Polling options.
+   * @param {number} [options.timeoutMs] Give up with an error once this many
+   *     milliseconds have passed, after a last poll at the deadline. Default:
+   *     wait indefinitely.
+   * @param {number} [options.pollIntervalMs] Time between the first two
+   *     polls, in milliseconds. Default: 500.
+   * @param {number} [options.backoff] Factor the interval is multiplied by
+   *     after every poll. Default: 1.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {Project} callback.project The created project, with its metadata
+   *     populated.
+   * @param {object} callback.apiResponse The operation's final metadata.
+   * @returns {Promise<WaitForCompletionResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   *
+   * resource.createProject('new-project-id', (err, project, operation) => {
+   *   operation.waitForCompletion({timeoutMs: 60000}, (err, project) => {
+   *     // `project.metadata` has been populated.
+   *   });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * resource.createProject('new-project-id')
+   *   .then(data => {
+   *     const operation = data[1];
+   *     return operation.waitForCompletion({pollIntervalMs: 1000, backoff: 2});
+   *   })
+   *   .then(data => {
+   *     const project = data[0];
+   *   });
+   */
+  waitForCompletion(
+    optionsOrCallback?: WaitForCompletionOptions | WaitForCompletionCallback,
+    callback?: WaitForCompletionCallback
+  ): void | Promise<WaitForCompletionResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    const deadline =
+      typeof options.timeoutMs === 'number'
+        ? Date.now() + options.timeoutMs
+        : Infinity;
+    const backoff = options.backoff || 1;
+    let pollIntervalMs = options.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS;
+
+    const poll = () => {
+      this.getMetadata((err: Error | null, metadata: Metadata) => {
+        if (err) {
+          callback!(err, null, metadata);
+          return;
+        }
+
+        if (metadata.error) {
+          const error = new OperationError(this.id!, metadata.error);
+          callback!(error, null, metadata);
+          return;
+        }
+
+        if (metadata.done) {
+          const response = Object.assign({}, metadata.response);
+          delete response['@type'];
+          const project = this.resource.project(response.projectId);
+          project.metadata = response;
+          callback!(null, project, metadata);
+          return;
+        }
+
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0) {
+          const message = `Timed out waiting for operation ${this.id}.`;
+          callback!(new Error(message), null, metadata);
+          return;
+        }
+
+        // The last sleep is cut short so that the operation is polled once
+        // more right at the deadline.
+        setTimeout(poll, Math.min(pollIntervalMs, remainingMs));
+        pollIntervalMs *= backoff;
+      });
+    };
+
+    poll();
+  }
+}
+
+/*! Developer Documentation
+ *
+ * All async methods (except for streams) will return a Promise in the event
+ * that a callback is omitted.
+ */
+promisifyAll(ProjectOperation);
+
+/**
+ * Reference to the {@link ProjectOperation} class.
+ * @name module:@google-cloud/resource.ProjectOperation
+ * @see ProjectOperation
+ */
+export {ProjectOperation};
@@ -0,0 +1,149 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {promisifyAll} from '@google-cloud/promisify';
+
+import {Resource} from '.';
+import {IamServiceObject} from './iam';
+
+/**
+ * An Organization object allows you to interact with a Google Cloud Platform
+ * organization.
+ *
+ * @see [Organizations Overview]{@link https://cloud.google.com/resource-manager/docs/creating-managing-organization}
+ * @see [Organization Resource]{@link https://cloud.google.com/resource-manager/reference/rest/v1/organizations#Organization}
+ *
+ * @class
+ * @extends IamServiceObject
+ * @param {Resource} resource {@link Resource} object this organization belongs
+ *     to.
+ * @param {string} id The organization's numeric ID.
+ *
+ * @example
+ * const {Resource} = require('@google-cloud/resource');
+ * const resource = new Resource();
+ * const organization = resource.organization('1234567890');
+ */
+class Organization extends IamServiceObject<Organization> {
+  constructor(resource: Resource, id: string) {
+    const methods = {
+      /**
+       * Check if the organization exists.
+       *
+       * @method Organization#exists
+       * @param {function} callback The callback function.
+       * @param {?error} callback.err An error returned while making this
+       *     request.
+       * @param {boolean} callback.exists Whether the organization exists or
+       *     not.
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const organization = resource.organization('1234567890');
+       *
+       * organization.exists((err, exists) => {});
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * organization.exists().then((data) => {
+       *   const exists = data[0];
+       * });
+       */
+      exists: true,
+
+      /**
+       * Get an organization if it exists.
+       *
+       * @method Organization#get
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const organization = resource.organization('1234567890');
+       *
+       * organization.get((err, organization, apiResponse) => {
+       *   // `organization.metadata` has been populated.
+       * });
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * organization.get().then((data) => {
+       *   const organization = data[0];
+       *   const apiResponse = data[1];
+       * });
+       */
+      get: true,
+
+      /**
+       * Get the metadata for the organization.
+       *
+       * @see [organizations: get API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/organizations/get}
+       *
+       * @method Organization#getMetadata
+       * @param {function} [callback] The callback function.
+       * @param {?error} callback.err An error returned while making this
+       *     request.
+       * @param {?object} callback.metadata - Metadata of the organization
+       *     from the API.
+       * @param {object} callback.apiResponse - Raw API response.
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const organization = resource.organization('1234567890');
+       *
+       * organization.getMetadata((err, metadata, apiResponse) => {});
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * organization.getMetadata().then((data) => {
+       *   const metadata = data[0];
+       *   const apiResponse = data[1];
+       * });
+       */
+      getMetadata: true,
+    };
+
+    super({
+      parent: resource,
+      baseUrl: '/organizations',
+      /**
+       * @name Organization#id
+       * @type {string}
+       */
+      id: id.replace(/^organizations\//, ''),
+      methods,
+    });
+  }
+}
+
+/*! Developer Documentation
+ *
+ * All async methods (except for streams) will return a Promise in the event
+ * that a callback is omitted.
+ */
+promisifyAll(Organization);
+
+/**
+ * Reference to the {@link Organization} class.
+ * @name module:@google-cloud/resource.Organization
+ * @see Organization
+ */
+export {Organization};
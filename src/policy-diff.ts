@@ -0,0 +1,392 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AuditConfig, Binding, Expression, Policy} from './project';
+
+export interface BindingChange {
+  role: string;
+  condition?: Expression;
+  addedMembers: string[];
+  removedMembers: string[];
+}
+export interface ConditionChange {
+  role: string;
+  title: string;
+  before: Expression;
+  after: Expression;
+}
+export type AuditLogChangeType = 'ENABLED' | 'DISABLED' | 'UPDATED';
+export interface AuditLogChange {
+  service: string;
+  logType: string;
+  change: AuditLogChangeType;
+  addedExemptedMembers: string[];
+  removedExemptedMembers: string[];
+}
+export interface IamPolicyDiff {
+  hasChanges: boolean;
+  bindings: BindingChange[];
+  conditions: ConditionChange[];
+  auditLogs: AuditLogChange[];
+}
+
+interface BindingEntry {
+  role: string;
+  condition?: Expression;
+  members: Set<string>;
+}
+
+/*! Developer Documentation
+ *
+ * A binding is identified by its role and the title and expression of its
+ * condition, as conditions sharing a title may grant different access.
+ * Bindings with the same role and condition are merged.
+ */
+function indexBindings(bindings: Binding[] = []) {
+  const index = new Map<string, BindingEntry>();
+  bindings.forEach(binding => {
+    const key = JSON.stringify([
+      binding.role,
+      binding.condition ? binding.condition.title : null,
+      binding.condition ? binding.condition.expression : null,
+    ]);
+    const entry = index.get(key) || {
+      role: binding.role,
+      condition: binding.condition,
+      members: new Set<string>(),
+    };
+    (binding.members || []).forEach(member => entry.members.add(member));
+    index.set(key, entry);
+  });
+  return index;
+}
+
+/*! Developer Documentation
+ *
+ * Pair the bindings of both policies. A conditional binding whose role and
+ * condition title are unique in both policies is paired even if its
+ * expression changed, so the change is reported as a change of the
+ * condition rather than as a new binding.
+ */
+function pairBindings(
+  before: Map<string, BindingEntry>,
+  after: Map<string, BindingEntry>
+) {
+  const pairs = new Map<string, Array<BindingEntry | undefined>>();
+  before.forEach((entry, key) => pairs.set(key, [entry, after.get(key)]));
+  after.forEach((entry, key) => {
+    if (!before.has(key)) {
+      pairs.set(key, [undefined, entry]);
+    }
+  });
+
+  const byTitle = (index: Map<string, BindingEntry>) => {
+    const keys = new Map<string, string[]>();
+    index.forEach((entry, key) => {
+      if (entry.condition) {
+        const title = JSON.stringify([entry.role, entry.condition.title]);
+        keys.set(title, (keys.get(title) || []).concat(key));
+      }
+    });
+    return keys;
+  };
+  const afterByTitle = byTitle(after);
+  byTitle(before).forEach((beforeKeys, title) => {
+    const afterKeys = afterByTitle.get(title) || [];
+    if (
+      beforeKeys.length === 1 &&
+      afterKeys.length === 1 &&
+      beforeKeys[0] !== afterKeys[0]
+    ) {
+      pairs.set(beforeKeys[0], [
+        before.get(beforeKeys[0]),
+        after.get(afterKeys[0]),
+      ]);
+      pairs.delete(afterKeys[0]);
+    }
+  });
+  return Array.from(pairs.values());
+}
+
+/*! Developer Documentation
+ *
+ * Index the exempted members of every service and log type.
+ */
+function indexAuditLogs(auditConfigs: AuditConfig[] = []) {
+  const index = new Map<string, Set<string>>();
+  auditConfigs.forEach(auditConfig => {
+    (auditConfig.auditLogConfigs || []).forEach(config => {
+      const key = JSON.stringify([auditConfig.service, config.logType]);
+      const members = index.get(key) || new Set<string>();
+      (config.exemptedMembers || []).forEach(member => members.add(member));
+      index.set(key, members);
+    });
+  });
+  return index;
+}
+
+function difference(a: Set<string>, b: Set<string>) {
+  return Array.from(a)
+    .filter(value => !b.has(value))
+    .sort();
+}
+
+function isSameCondition(a: Expression, b: Expression) {
+  return (
+    a.expression === b.expression &&
+    a.description === b.description &&
+    a.location === b.location
+  );
+}
+
+function compare(a: string[], b: string[]) {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * @typedef {object} BindingChange
+ * @property {string} role The role, e.g. `roles/viewer`.
+ * @property {Expression} [condition] The condition of the binding, if any.
+ * @property {string[]} addedMembers The members granted the role.
+ * @property {string[]} removedMembers The members the role is revoked from.
+ */
+/**
+ * @typedef {object} ConditionChange
+ * @property {string} role The role of the binding.
+ * @property {string} title The title of the condition, which is unchanged.
+ * @property {Expression} before The condition before the change.
+ * @property {Expression} after The condition after the change.
+ */
+/**
+ * @typedef {object} AuditLogChange
+ * @property {string} service The service, e.g. `storage.googleapis.com`.
+ * @property {string} logType The type of logs, e.g. `DATA_READ`.
+ * @property {string} change `ENABLED` or `DISABLED` when the logs are turned
+ *     on or off, `UPDATED` when only their exempted members change.
+ * @property {string[]} addedExemptedMembers The members newly exempted.
+ * @property {string[]} removedExemptedMembers The members no longer exempted.
+ */
+/**
+ * @typedef {object} IamPolicyDiff
+ * @property {boolean} hasChanges Whether the policies grant different access
+ *     or log differently.
+ * @property {BindingChange[]} bindings The members added to and removed from
+ *     each binding, sorted by role.
+ * @property {ConditionChange[]} conditions The conditions whose expression,
+ *     description or location changed, sorted by role.
+ * @property {AuditLogChange[]} auditLogs The audit log changes, sorted by
+ *     service.
+ */
+/**
+ * Compare two IAM policies. Bindings are matched by role and condition, and
+ * audit log configurations by service and log type; the `etag` and `version`
+ * of the policies are ignored. A condition whose title is held by a single
+ * binding of the role in both policies is reported as changed when its
+ * expression, description or location differ.
+ *
+ * Use {@link formatIamPolicyDiff} to render the differences as text.
+ *
+ * @param {Policy} before The policy before the change, e.g. the live policy.
+ * @param {Policy} after The policy after the change.
+ * @returns {IamPolicyDiff}
+ *
+ * @example
+ * const {diffIamPolicies} = require('@google-cloud/resource');
+ *
+ * const diff = diffIamPolicies(livePolicy, wantedPolicy);
+ * // diff.bindings = [{
+ * //   role: 'roles/viewer',
+ * //   addedMembers: ['user:jane@example.com'],
+ * //   removedMembers: [],
+ * // }]
+ */
+export function diffIamPolicies(
+  before: Partial<Policy>,
+  after: Partial<Policy>
+): IamPolicyDiff {
+  const bindings: BindingChange[] = [];
+  const conditions: ConditionChange[] = [];
+  const empty = new Set<string>();
+
+  pairBindings(
+    indexBindings(before.bindings),
+    indexBindings(after.bindings)
+  ).forEach(([beforeEntry, afterEntry]) => {
+    const entry = (afterEntry || beforeEntry)!;
+    const beforeMembers = beforeEntry ? beforeEntry.members : empty;
+    const afterMembers = afterEntry ? afterEntry.members : empty;
+    const change: BindingChange = {
+      role: entry.role,
+      addedMembers: difference(afterMembers, beforeMembers),
+      removedMembers: difference(beforeMembers, afterMembers),
+    };
+    if (entry.condition) {
+      change.condition = entry.condition;
+    }
+    if (change.addedMembers.length || change.removedMembers.length) {
+      bindings.push(change);
+    }
+    if (
+      beforeEntry &&
+      afterEntry &&
+      beforeEntry.condition &&
+      afterEntry.condition &&
+      !isSameCondition(beforeEntry.condition, afterEntry.condition)
+    ) {
+      conditions.push({
+        role: entry.role,
+        title: afterEntry.condition.title,
+        before: beforeEntry.condition,
+        after: afterEntry.condition,
+      });
+    }
+  });
+
+  const auditLogs: AuditLogChange[] = [];
+  const beforeAuditLogs = indexAuditLogs(before.auditConfigs);
+  const afterAuditLogs = indexAuditLogs(after.auditConfigs);
+  new Set([...beforeAuditLogs.keys(), ...afterAuditLogs.keys()]).forEach(
+    key => {
+      const [service, logType] = JSON.parse(key);
+      const beforeMembers = beforeAuditLogs.get(key);
+      const afterMembers = afterAuditLogs.get(key);
+      const change: AuditLogChange = {
+        service,
+        logType,
+        change: !beforeMembers
+          ? 'ENABLED'
+          : !afterMembers
+          ? 'DISABLED'
+          : 'UPDATED',
+        addedExemptedMembers: difference(
+          afterMembers || empty,
+          beforeMembers || empty
+        ),
+        removedExemptedMembers: difference(
+          beforeMembers || empty,
+          afterMembers || empty
+        ),
+      };
+      if (
+        change.change !== 'UPDATED' ||
+        change.addedExemptedMembers.length ||
+        change.removedExemptedMembers.length
+      ) {
+        auditLogs.push(change);
+      }
+    }
+  );
+
+  const conditionKey = (condition?: Expression) =>
+    condition ? [condition.title, condition.expression] : [];
+  bindings.sort((a, b) =>
+    compare(
+      [a.role, ...conditionKey(a.condition)],
+      [b.role, ...conditionKey(b.condition)]
+    )
+  );
+  conditions.sort((a, b) => compare([a.role, a.title], [b.role, b.title]));
+  auditLogs.sort((a, b) =>
+    compare([a.service, a.logType], [b.service, b.logType])
+  );
+
+  return {
+    hasChanges: !!(bindings.length || conditions.length || auditLogs.length),
+    bindings,
+    conditions,
+    auditLogs,
+  };
+}
+
+/**
+ * Render the differences between two IAM policies as a text report, one
+ * change per line: `+` marks what is granted or turned on, `-` what is
+ * revoked or turned off.
+ *
+ * @param {IamPolicyDiff} diff The differences, from {@link diffIamPolicies}.
+ * @returns {string}
+ *
+ * @example
+ * const {diffIamPolicies, formatIamPolicyDiff} = require('@google-cloud/resource');
+ *
+ * console.log(formatIamPolicyDiff(diffIamPolicies(livePolicy, wantedPolicy)));
+ * // Bindings:
+ * //   roles/viewer
+ * //     + user:jane@example.com
+ * //   roles/storage.objectViewer if "Expires at 2030-01-01T00:00:00.000Z"
+ * //     - user:joe@example.com
+ * // Audit logs:
+ * //   storage.googleapis.com DATA_READ enabled
+ */
+export function formatIamPolicyDiff(diff: IamPolicyDiff) {
+  if (!diff.hasChanges) {
+    return 'No changes.';
+  }
+  const lines: string[] = [];
+  if (diff.bindings.length) {
+    lines.push('Bindings:');
+    diff.bindings.forEach(change => {
+      lines.push(
+        change.condition
+          ? `  ${change.role} if "${change.condition.title}"`
+          : `  ${change.role}`
+      );
+      change.addedMembers.forEach(member => lines.push(`    + ${member}`));
+      change.removedMembers.forEach(member => lines.push(`    - ${member}`));
+    });
+  }
+  if (diff.conditions.length) {
+    lines.push('Conditions:');
+    diff.conditions.forEach(change => {
+      lines.push(`  ${change.role} if "${change.title}"`);
+      (['expression', 'description', 'location'] as const).forEach(field => {
+        if (change.before[field] === change.after[field]) {
+          return;
+        }
+        if (change.before[field] !== undefined) {
+          lines.push(`    - ${field}: ${change.before[field]}`);
+        }
+        if (change.after[field] !== undefined) {
+          lines.push(`    + ${field}: ${change.after[field]}`);
+        }
+      });
+    });
+  }
+  if (diff.auditLogs.length) {
+    lines.push('Audit logs:');
+    diff.auditLogs.forEach(change => {
+      lines.push(
+        change.change === 'UPDATED'
+          ? `  ${change.service} ${change.logType} exemptions`
+          : `  ${change.service} ${
+              change.logType
+            } ${change.change.toLowerCase()}`
+      );
+      change.addedExemptedMembers.forEach(member =>
+        lines.push(`    + exempted ${member}`)
+      );
+      change.removedExemptedMembers.forEach(member =>
+        lines.push(`    - exempted ${member}`)
+      );
+    });
+  }
+  return lines.join('\n');
+}
@@ -14,16 +14,52 @@
  * limitations under the License.
  */
 
-import {Operation, ServiceObject, util, Metadata} from '@google-cloud/common';
+import {
+  ApiError,
+  DecorateRequestOptions,
+  Operation,
+  util,
+  Metadata,
+} from '@google-cloud/common';
+import {paginator} from '@google-cloud/paginator';
 import {promisifyAll} from '@google-cloud/promisify';
 
-import {CreateProjectCallback, CreateProjectResponse, Resource} from '.';
+import {
+  CreateProjectCallback,
+  CreateProjectResponse,
+  GetLiensCallback,
+  GetLiensOptions,
+  GetLiensResponse,
+  LifecycleState,
+  ProjectMetadata,
+  Resource,
+} from '.';
+import {DryRunOptions, DryRunRequest} from './dry-run';
+import {IamServiceObject} from './iam';
+import {OperationError, OperationStatus} from './operation';
+import {diffIamPolicies, IamPolicyDiff} from './policy-diff';
+import {TagValue} from './tag-value';
+import {
+  CONDITIONAL_POLICY_VERSION,
+  Labels,
+  validateLabels,
+  validateProjectMetadata,
+} from './validation';
 
 export type RestoreCallback = (
   err: Error | null,
   apiResonse?: Metadata
 ) => void;
 export type RestoreResponse = [Metadata];
+export type RestoreOptions = DryRunOptions;
+export interface DeleteProjectOptions extends DryRunOptions {
+  ignoreNotFound?: boolean;
+}
+export type DeleteProjectResponse = [Metadata];
+export type DeleteProjectCallback = (
+  err: Error | null,
+  apiResponse?: Metadata
+) => void;
 
 export type ProjectCreateResponse = [Project, Operation<Project>, Metadata];
 export interface ProjectCreateCallback {
@@ -35,20 +71,33 @@ export interface ProjectCreateCallback {
   ): void;
 }
 
+export type GetProjectMetadataResponse = [ProjectMetadata, Metadata];
+export type GetProjectMetadataCallback = (
+  err: Error | null,
+  metadata?: ProjectMetadata,
+  apiResponse?: Metadata
+) => void;
+export type SetProjectMetadataOptions = DryRunOptions;
+export type SetProjectMetadataResponse = [Metadata];
+export type SetProjectMetadataCallback = (
+  err: Error | null,
+  apiResponse?: Metadata
+) => void;
+
 export interface Expression {
   expression: string;
   title: string;
-  description: string;
-  location: string;
+  description?: string;
+  location?: string;
 }
 export interface Binding {
   role: string;
   members: string[];
-  condition: Expression;
+  condition?: Expression;
 }
 export interface AuditLogConfig {
   logType: string;
-  exemptedMembers: string[];
+  exemptedMembers?: string[];
 }
 export interface AuditConfig {
   service: string;
@@ -67,7 +116,273 @@ export interface GetIamPolicyCallback {
   (err: Error | null, policy?: Policy): void;
 }
 export interface GetIamPolicyOptions {
-  requestedPolicyVersion: number;
+  requestedPolicyVersion?: number;
+}
+
+export type SetIamPolicyResponse = [Policy, DryRunRequest?];
+export interface SetIamPolicyCallback {
+  (err: Error | null, policy?: Policy, dryRunRequest?: DryRunRequest): void;
+}
+export interface SetIamPolicyOptions {
+  updateMask?: string;
+}
+export interface SetProjectIamPolicyOptions
+  extends SetIamPolicyOptions,
+    DryRunOptions {}
+
+export type TestIamPermissionsResponse = [string[], Metadata];
+export interface TestIamPermissionsCallback {
+  (
+    err: Error | null,
+    permissions?: string[] | null,
+    apiResponse?: Metadata
+  ): void;
+}
+export type HasPermissionResponse = [boolean, Metadata];
+export interface HasPermissionCallback {
+  (
+    err: Error | null,
+    hasPermission?: boolean | null,
+    apiResponse?: Metadata
+  ): void;
+}
+
+export interface ListPolicy {
+  allowedValues?: string[];
+  deniedValues?: string[];
+  allValues?: 'ALL_VALUES_UNSPECIFIED' | 'ALLOW' | 'DENY';
+  suggestedValue?: string;
+  inheritFromParent?: boolean;
+}
+export interface BooleanPolicy {
+  enforced?: boolean;
+}
+export type RestoreDefault = {};
+
+export interface OrgPolicy {
+  version?: number;
+  constraint: string;
+  etag?: string;
+  updateTime?: string;
+  listPolicy?: ListPolicy;
+  booleanPolicy?: BooleanPolicy;
+  restoreDefault?: RestoreDefault;
+}
+
+export interface Constraint {
+  version?: number;
+  name: string;
+  displayName?: string;
+  description?: string;
+  constraintDefault?: 'CONSTRAINT_DEFAULT_UNSPECIFIED' | 'ALLOW' | 'DENY';
+  listConstraint?: {suggestedValue?: string; supportsUnder?: boolean};
+  booleanConstraint?: {};
+}
+
+export type OrgPolicyResponse = [OrgPolicy];
+export interface OrgPolicyCallback {
+  (err: Error | null, policy?: OrgPolicy): void;
+}
+export type ClearOrgPolicyResponse = [Metadata];
+export interface ClearOrgPolicyCallback {
+  (err: Error | null, apiResponse?: Metadata): void;
+}
+
+export interface GetOrgPoliciesOptions {
+  autoPaginate?: boolean;
+  maxApiCalls?: number;
+  maxResults?: number;
+  pageSize?: number;
+  pageToken?: string;
+}
+export type GetOrgPoliciesResponse = [OrgPolicy[], Metadata];
+export interface GetOrgPoliciesCallback {
+  (
+    err: Error | null,
+    policies?: OrgPolicy[] | null,
+    nextQuery?: {} | null,
+    apiResponse?: Metadata
+  ): void;
+}
+export type GetAvailableOrgPolicyConstraintsResponse = [Constraint[], Metadata];
+export interface GetAvailableOrgPolicyConstraintsCallback {
+  (
+    err: Error | null,
+    constraints?: Constraint[] | null,
+    nextQuery?: {} | null,
+    apiResponse?: Metadata
+  ): void;
+}
+
+export interface TagBinding {
+  name: string;
+  parent: string;
+  tagValue: string;
+  tagValueNamespacedName?: string;
+}
+
+export interface EffectiveTag {
+  tagValue: string;
+  namespacedTagValue: string;
+  tagKey: string;
+  namespacedTagKey: string;
+  tagKeyParentName?: string;
+  inherited: boolean;
+}
+
+export interface GetTagBindingsOptions {
+  autoPaginate?: boolean;
+  maxApiCalls?: number;
+  maxResults?: number;
+  pageSize?: number;
+  pageToken?: string;
+}
+export type GetTagBindingsResponse = [TagBinding[], Metadata];
+export interface GetTagBindingsCallback {
+  (
+    err: Error | null,
+    tagBindings?: TagBinding[] | null,
+    nextQuery?: {} | null,
+    apiResponse?: Metadata
+  ): void;
+}
+export type GetEffectiveTagsResponse = [EffectiveTag[], Metadata];
+export interface GetEffectiveTagsCallback {
+  (
+    err: Error | null,
+    effectiveTags?: EffectiveTag[] | null,
+    nextQuery?: {} | null,
+    apiResponse?: Metadata
+  ): void;
+}
+export type TagBindingOperationResponse = [Operation<TagBinding>, Metadata];
+export interface TagBindingOperationCallback {
+  (
+    err: Error | null,
+    operation?: Operation<TagBinding> | null,
+    apiResponse?: Metadata
+  ): void;
+}
+
+export type GetLabelsResponse = [Labels, Metadata];
+export interface GetLabelsCallback {
+  (err: Error | null, labels?: Labels | null, apiResponse?: Metadata): void;
+}
+export type UpdateLabelsResponse = [Labels, Metadata];
+export interface UpdateLabelsCallback {
+  (err: Error | null, labels?: Labels | null, apiResponse?: Metadata): void;
+}
+
+export type ResourceType = 'project' | 'folder' | 'organization';
+export interface ResourceId {
+  type: ResourceType;
+  id: string;
+}
+
+export type GetAncestryResponse = [ResourceId[], Metadata];
+export interface GetAncestryCallback {
+  (
+    err: Error | null,
+    ancestry?: ResourceId[] | null,
+    apiResponse?: Metadata
+  ): void;
+}
+
+export type MoveProjectResponse = [Operation<Metadata>, Metadata];
+export interface MoveProjectCallback {
+  (
+    err: Error | null,
+    operation?: Operation<Metadata> | null,
+    apiResponse?: Metadata
+  ): void;
+}
+
+export type IamPolicyMutator = (policy: Policy) => Policy | void;
+export interface UpdateIamPolicyOptions extends SetProjectIamPolicyOptions {
+  maxAttempts?: number;
+  retryDelayMs?: number;
+}
+
+export type AuditLogType = 'ADMIN_READ' | 'DATA_READ' | 'DATA_WRITE';
+export type GetAuditConfigsResponse = [AuditConfig[]];
+export interface GetAuditConfigsCallback {
+  (err: Error | null, auditConfigs?: AuditConfig[]): void;
+}
+export type PreviewIamPolicyChangeResponse = [IamPolicyDiff];
+export interface PreviewIamPolicyChangeCallback {
+  (err: Error | null, diff?: IamPolicyDiff): void;
+}
+export interface EnableAuditLogsOptions {
+  exemptedMembers?: string[];
+}
+
+const AUDIT_LOG_TYPES = ['ADMIN_READ', 'DATA_READ', 'DATA_WRITE'];
+
+/*! Developer Documentation
+ *
+ * The number of read-modify-write cycles `updateIamPolicy` attempts before
+ * giving up on concurrent modifications.
+ */
+const DEFAULT_IAM_POLICY_UPDATE_ATTEMPTS = 5;
+
+/*! Developer Documentation
+ *
+ * The number of read-modify-write cycles the label methods attempt before
+ * giving up on concurrent modifications.
+ */
+const LABEL_UPDATE_ATTEMPTS = 5;
+
+/*! Developer Documentation
+ *
+ * The delay before a read-modify-write cycle is retried after a concurrent
+ * modification, in milliseconds. It doubles with each retry, so concurrent
+ * writers do not keep colliding.
+ */
+const CONCURRENT_MODIFICATION_RETRY_DELAY_MS = 1000;
+
+/*! Developer Documentation
+ *
+ * A policy write that lost a race against another writer is rejected because
+ * of its stale etag with `409 Conflict` (`ABORTED`).
+ */
+function isConcurrentModificationError(err: ApiError) {
+  return (
+    err.code === 409 || (err.errors || []).some(e => e.reason === 'aborted')
+  );
+}
+
+/*! Developer Documentation
+ *
+ * Constraints may be given with or without their `constraints/` prefix.
+ */
+function toConstraintName(constraint: string) {
+  return constraint.startsWith('constraints/')
+    ? constraint
+    : `constraints/${constraint}`;
+}
+
+/*! Developer Documentation
+ *
+ * Tag values may be given as a `TagValue`, or as their ID with or without the
+ * `tagValues/` prefix.
+ */
+function toTagValueName(tagValue: TagValue | string) {
+  const id =
+    typeof tagValue === 'string'
+      ? tagValue.replace(/^tagValues\//, '')
+      : tagValue.id;
+  return `tagValues/${id}`;
+}
+
+function isSameCondition(a?: Expression, b?: Expression) {
+  if (!a || !b) {
+    return !a && !b;
+  }
+  return (
+    a.expression === b.expression &&
+    a.title === b.title &&
+    a.description === b.description
+  );
 }
 
 /**
@@ -77,6 +392,7 @@ export interface GetIamPolicyOptions {
  * @see [Project Resource]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects#Project}
  *
  * @class
+ * @extends IamServiceObject
  * @param {Resource} resource {@link Resource} object this project belongs to.
  * @param {string} id The project's ID.
  *
@@ -85,8 +401,22 @@ export interface GetIamPolicyOptions {
  * const resource = new Resource();
  * const project = resource.project('grape-spaceship-123');
  */
-class Project extends ServiceObject {
+/*! Developer Documentation
+ *
+ * `getMetadata` is configured as a method of the ServiceObject. Its signature
+ * is redeclared here so the metadata is typed as `ProjectMetadata` rather
+ * than `Metadata`.
+ */
+interface Project {
+  metadata: ProjectMetadata;
+  getMetadata(options?: {}): Promise<GetProjectMetadataResponse>;
+  getMetadata(options: {}, callback: GetProjectMetadataCallback): void;
+  getMetadata(callback: GetProjectMetadataCallback): void;
+}
+
+class Project extends IamServiceObject<Project> {
   projectId?: string;
+  resource: Resource;
   constructor(resource: Resource, id: string) {
     const methods = {
       /**
@@ -143,10 +473,15 @@ class Project extends ServiceObject {
        * @see [projects: delete API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/delete}
        *
        * @method Project#delete
+       * @param {object} [options] Configuration object.
+       * @param {boolean} [options.dryRun] Only describe the request instead
+       *     of sending it. The project is still read, to check that it is
+       *     `ACTIVE`. Defaults to the `dryRun` option of the client.
        * @param {function} [callback] The callback function.
        * @param {?error} callback.err An error returned while making this
-       *     request.
-       * @param {object} callback.apiResponse The full API response.
+       *     request, or in dry-run mode, if the project is not `ACTIVE`.
+       * @param {object} callback.apiResponse The full API response, or the
+       *     {@link DryRunRequest} which would have been sent.
        *
        * @example
        * const {Resource} = require('@google-cloud/resource');
@@ -268,10 +603,14 @@ class Project extends ServiceObject {
        * @param {object} metadata See a
        *     [Project
        * resource](https://cloud.google.com/resource-manager/reference/rest/v1/projects#Project).
+       * @param {object} [options] Configuration object.
+       * @param {boolean} [options.dryRun] Only describe the request instead
+       *     of sending it. Defaults to the `dryRun` option of the client.
        * @param {function} [callback] The callback function.
-       * @param {?error} callback.err An error returned while making this
-       *     request.
-       * @param {object} callback.apiResponse The full API response.
+       * @param {?error} callback.err An error if the name or labels are
+       *     invalid, or an error returned while making this request.
+       * @param {object} callback.apiResponse The full API response, or the
+       *     {@link DryRunRequest} which would have been sent.
        *
        * @example
        * const {Resource} = require('@google-cloud/resource');
@@ -313,6 +652,8 @@ class Project extends ServiceObject {
       createMethod: resource.createProject.bind(resource),
       methods,
     });
+
+    this.resource = resource;
   }
 
   create(): Promise<CreateProjectResponse>;
@@ -323,116 +664,2186 @@ class Project extends ServiceObject {
     super.create(callback);
   }
 
-  getIamPolicy(options?: GetIamPolicyOptions): Promise<GetIamPolicyResponse>;
-  getIamPolicy(callback: GetIamPolicyCallback): void;
-  getIamPolicy(
-    options: GetIamPolicyOptions,
-    callback: GetIamPolicyCallback
+  delete(options?: DeleteProjectOptions): Promise<DeleteProjectResponse>;
+  delete(options: DeleteProjectOptions, callback: DeleteProjectCallback): void;
+  delete(callback: DeleteProjectCallback): void;
+  delete(
+    optionsOrCallback?: DeleteProjectOptions | DeleteProjectCallback,
+    callback?: DeleteProjectCallback
+  ): void | Promise<DeleteProjectResponse> {
+    const options = Object.assign(
+      {},
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {}
+    );
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    if (this.resource.isDryRun_(options)) {
+      this.describeLifecycleRequest_(
+        {method: 'DELETE', uri: ''},
+        LifecycleState.ACTIVE,
+        'deleted',
+        callback!
+      );
+      return;
+    }
+    delete options.dryRun;
+    super.delete(options, callback!);
+  }
+
+  setMetadata(
+    metadata: ProjectMetadata,
+    options?: SetProjectMetadataOptions
+  ): Promise<SetProjectMetadataResponse>;
+  setMetadata(
+    metadata: ProjectMetadata,
+    callback: SetProjectMetadataCallback
   ): void;
+  setMetadata(
+    metadata: ProjectMetadata,
+    options: SetProjectMetadataOptions,
+    callback: SetProjectMetadataCallback
+  ): void;
+  setMetadata(
+    metadata: ProjectMetadata,
+    optionsOrCallback?: SetProjectMetadataOptions | SetProjectMetadataCallback,
+    callback?: SetProjectMetadataCallback
+  ): void | Promise<SetProjectMetadataResponse> {
+    const options = Object.assign(
+      {},
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {}
+    );
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    try {
+      validateProjectMetadata(metadata);
+    } catch (e) {
+      callback!(e);
+      return;
+    }
+
+    if (this.resource.isDryRun_(options)) {
+      callback!(
+        null,
+        this.describeRequest_({method: 'PUT', uri: '', json: metadata})
+      );
+      return;
+    }
+    delete options.dryRun;
+    super.setMetadata(metadata, options, callback!);
+  }
+
+  getAncestry(): Promise<GetAncestryResponse>;
+  getAncestry(callback: GetAncestryCallback): void;
+  /**
+   * @typedef {object} ResourceId
+   * @property {string} type The type of the resource: `project`, `folder` or
+   *     `organization`.
+   * @property {string} id The ID of the resource. Folders and organizations
+   *     are identified by their numeric ID.
+   */
   /**
-   * @typedef {array} GetIamPolicyResponse
-   * @property {Policy} 0 This project's IAM [policy]{@link https://cloud.google.com/resource-manager/reference/rest/Shared.Types/Policy}.
+   * @typedef {array} GetAncestryResponse
+   * @property {ResourceId[]} 0 The project followed by its ancestors.
+   * @property {object} 1 The full API response.
    */
   /**
-   * @callback GetIamPolicyCallback
+   * @callback GetAncestryCallback
    * @param {?Error} err Request error, if any.
-   * @param {Policy} policy This project's IAM [policy]{@link https://cloud.google.com/resource-manager/reference/rest/Shared.Types/Policy}.
+   * @param {ResourceId[]} ancestry The project followed by its ancestors.
+   * @param {object} apiResponse The full API response.
    */
   /**
-   * Get the IAM policy for this project.
+   * Get the resource hierarchy this project belongs to.
    *
-   * @see [projects: getIamPolicy API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/getIamPolicy}
+   * The list starts with the project itself, followed by its parent folders
+   * from the nearest one up, and ends with the organization, if any.
    *
-   * @param {GetIamPolicyOptions} [options] Options object to get IAM policy.
-   * @param {GetIamPolicyCallback} [callback] Callback function.
-   * @returns {Promise<GetIamPolicyResponse>}
+   * @see [projects: getAncestry API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/getAncestry}
+   *
+   * @param {GetAncestryCallback} [callback] Callback function.
+   * @returns {Promise<GetAncestryResponse>}
    *
    * @example
    * const {Resource} = require('@google-cloud/resource');
    * const resource = new Resource();
    * const project = resource.project('grape-spaceship-123');
    *
-   * project.getIamPolicy((err, policy) => {
-   *   if (!err) {
-   *     console.log(policy).
-   *   }
+   * project.getAncestry((err, ancestry) => {
+   *   // ancestry = [
+   *   //   {type: 'project', id: 'grape-spaceship-123'},
+   *   //   {type: 'folder', id: '1234'},
+   *   //   {type: 'organization', id: '5678'},
+   *   // ]
    * });
    *
    * //-
    * // If the callback is omitted, we'll return a Promise.
    * //-
-   * project.getIamPolicy().then((data) => {
-   *   const policy = data[0];
+   * project.getAncestry().then((data) => {
+   *   const ancestry = data[0];
+   *   const organization = ancestry[ancestry.length - 1];
    * });
    */
-  getIamPolicy(
-    optionsOrCallback?: GetIamPolicyCallback | GetIamPolicyOptions,
-    callback?: GetIamPolicyCallback
-  ): void | Promise<GetIamPolicyResponse> {
-    const options =
-      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
-    callback =
-      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
-
+  getAncestry(
+    callback?: GetAncestryCallback
+  ): void | Promise<GetAncestryResponse> {
     this.request(
       {
         method: 'POST',
-        uri: ':getIamPolicy',
-        body: {
-          options,
-        },
+        uri: ':getAncestry',
+        json: {},
       },
       (err, resp) => {
-        callback!(err, resp);
+        if (err) {
+          callback!(err, null, resp);
+          return;
+        }
+        const ancestry = (resp.ancestor || []).map(
+          (ancestor: {resourceId: ResourceId}) => ({
+            type: ancestor.resourceId.type,
+            id: ancestor.resourceId.id,
+          })
+        );
+        callback!(null, ancestry, resp);
       }
     );
   }
 
-  restore(): Promise<RestoreResponse>;
-  restore(callback: RestoreCallback): void;
+  getLiens(
+    options?: Omit<GetLiensOptions, 'parent'>
+  ): Promise<GetLiensResponse>;
+  getLiens(callback: GetLiensCallback): void;
+  getLiens(
+    options: Omit<GetLiensOptions, 'parent'>,
+    callback: GetLiensCallback
+  ): void;
   /**
-   * Restore a project.
-   *
-   * **This method only works if you are authenticated as yourself, e.g. using
-   * the gcloud SDK.**
+   * Get the liens applied to this project. See {@link Resource#getLiens} for a
+   * complete list of options.
    *
-   * @see [projects: undelete API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/undelete}
+   * @see [liens: list API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/liens/list}
    *
+   * @param {object} [options] Lien search options.
    * @param {function} [callback] The callback function.
    * @param {?error} callback.err An error returned while making this request.
-   * @param {object} callback.apiResponse Raw API response.
+   * @param {Lien[]} callback.liens Lien objects of the project.
+   * @returns {Promise<GetLiensResponse>}
    *
    * @example
    * const {Resource} = require('@google-cloud/resource');
    * const resource = new Resource();
    * const project = resource.project('grape-spaceship-123');
    *
-   * project.restore((err, apiResponse) => {
-   *   if (!err) {
-   *     // Project restored.
+   * project.getLiens((err, liens) => {
+   *   // `liens` is an array of `Lien` objects.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.getLiens().then((data) => {
+   *   const liens = data[0];
+   * });
+   */
+  getLiens(
+    optionsOrCallback?: Omit<GetLiensOptions, 'parent'> | GetLiensCallback,
+    callback?: GetLiensCallback
+  ): void | Promise<GetLiensResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    this.resource.getLiens(
+      Object.assign({}, options, {
+        parent: {type: 'project' as const, id: this.id!},
+      }),
+      callback!
+    );
+  }
+
+  setIamPolicy(
+    policy: Policy,
+    options?: SetProjectIamPolicyOptions
+  ): Promise<SetIamPolicyResponse>;
+  setIamPolicy(policy: Policy, callback: SetIamPolicyCallback): void;
+  setIamPolicy(
+    policy: Policy,
+    options: SetProjectIamPolicyOptions,
+    callback: SetIamPolicyCallback
+  ): void;
+  /**
+   * @typedef {array} SetIamPolicyResponse
+   * @property {Policy} 0 The updated IAM [policy]{@link https://cloud.google.com/resource-manager/reference/rest/Shared.Types/Policy}.
+   *     In dry-run mode, the policy which would have been written.
+   * @property {DryRunRequest} [1] In dry-run mode, the request which would
+   *     have been sent.
+   */
+  /**
+   * @callback SetIamPolicyCallback
+   * @param {?Error} err Request error, if any.
+   * @param {Policy} policy The updated IAM [policy]{@link https://cloud.google.com/resource-manager/reference/rest/Shared.Types/Policy}.
+   *     In dry-run mode, the policy which would have been written.
+   * @param {DryRunRequest} [dryRunRequest] In dry-run mode, the request which
+   *     would have been sent.
+   */
+  /**
+   * Set the IAM policy for this project, replacing any existing policy.
+   *
+   * The policy's `etag` is sent as-is. When it was read with
+   * {@link Project#getIamPolicy}, the request fails if the policy has been
+   * modified in the meantime. The policy is validated as described in
+   * {@link IamServiceObject#setIamPolicy}.
+   *
+   * @see [projects: setIamPolicy API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/setIamPolicy}
+   *
+   * @param {Policy} policy The policy to apply.
+   * @param {SetIamPolicyOptions} [options] Options object to set IAM policy.
+   * @param {string} [options.updateMask] A comma-separated list of policy
+   *     fields to modify, e.g. `bindings,etag`. Only `bindings` and `etag`
+   *     are updated when omitted.
+   * @param {boolean} [options.dryRun] Only describe the request instead of
+   *     sending it. Defaults to the `dryRun` option of the client.
+   * @param {SetIamPolicyCallback} [callback] Callback function.
+   * @returns {Promise<SetIamPolicyResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.getIamPolicy().then(([policy]) => {
+   *   policy.bindings.push({
+   *     role: 'roles/viewer',
+   *     members: ['user:jane@example.com'],
+   *   });
+   *   return project.setIamPolicy(policy);
+   * }).then((data) => {
+   *   const policy = data[0];
+   * });
+   */
+  setIamPolicy(
+    policy: Policy,
+    optionsOrCallback?: SetProjectIamPolicyOptions | SetIamPolicyCallback,
+    callback?: SetIamPolicyCallback
+  ): void | Promise<SetIamPolicyResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    super.setIamPolicy(policy, options, callback!);
+  }
+
+  hasPermission(permission: string): Promise<HasPermissionResponse>;
+  hasPermission(permission: string, callback: HasPermissionCallback): void;
+  /**
+   * @typedef {array} HasPermissionResponse
+   * @property {boolean} 0 Whether the caller holds the permission.
+   * @property {object} 1 The full API response.
+   */
+  /**
+   * @callback HasPermissionCallback
+   * @param {?Error} err Request error, if any.
+   * @param {boolean} hasPermission Whether the caller holds the permission.
+   * @param {object} apiResponse The full API response.
+   */
+  /**
+   * Check whether the caller holds a single permission on this project. See
+   * {@link Project#testIamPermissions} to check several at once.
+   *
+   * @param {string} permission The permission to check, e.g.
+   *     `resourcemanager.projects.delete`.
+   * @param {HasPermissionCallback} [callback] Callback function.
+   * @returns {Promise<HasPermissionResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.hasPermission('resourcemanager.projects.delete', (err, ok) => {
+   *   if (ok) {
+   *     // The project can be deleted with the current credentials.
    *   }
    * });
    *
    * //-
    * // If the callback is omitted, we'll return a Promise.
    * //-
-   * project.restore().then((data) => {
-   *   const apiResponse = data[0];
+   * project.hasPermission('resourcemanager.projects.delete').then((data) => {
+   *   const hasPermission = data[0];
    * });
    */
-  restore(callback?: RestoreCallback): void | Promise<RestoreResponse> {
-    callback = callback || util.noop;
-    this.request(
-      {
-        method: 'POST',
-        uri: ':undelete',
-      },
-      (err, resp) => {
-        callback!(err, resp);
+  hasPermission(
+    permission: string,
+    callback?: HasPermissionCallback
+  ): void | Promise<HasPermissionResponse> {
+    this.testIamPermissions([permission], (err, permissions, apiResponse) => {
+      if (err) {
+        callback!(err, null, apiResponse);
+        return;
       }
-    );
+      callback!(null, permissions!.includes(permission), apiResponse);
+    });
   }
-}
+
+  updateIamPolicy(
+    mutator: IamPolicyMutator,
+    options?: UpdateIamPolicyOptions
+  ): Promise<SetIamPolicyResponse>;
+  updateIamPolicy(
+    mutator: IamPolicyMutator,
+    callback: SetIamPolicyCallback
+  ): void;
+  updateIamPolicy(
+    mutator: IamPolicyMutator,
+    options: UpdateIamPolicyOptions,
+    callback: SetIamPolicyCallback
+  ): void;
+  /**
+   * @callback IamPolicyMutator
+   * @param {Policy} policy The current IAM policy of the project. It may be
+   *     modified in place.
+   * @returns {Policy|undefined} The policy to write. When nothing is returned,
+   *     the (modified) `policy` argument is written.
+   */
+  /**
+   * Read the IAM policy of this project, apply a change to it and write it
+   * back.
+   *
+   * The policy is written with the etag it was read with. If another writer
+   * modified the policy in between, the whole cycle is repeated with the fresh
+   * policy after a delay, so `mutator` may be called more than once.
+   *
+   * @param {IamPolicyMutator} mutator Function applying the change.
+   * @param {object} [options] Configuration object.
+   * @param {number} [options.maxAttempts=5] Maximum number of read-modify-write
+   *     cycles before the concurrent modification error is returned.
+   * @param {number} [options.retryDelayMs=1000] Delay before the first retry,
+   *     doubled for each further retry.
+   * @param {string} [options.updateMask] See {@link Project#setIamPolicy}.
+   * @param {boolean} [options.dryRun] Read the policy and apply `mutator`,
+   *     but only describe the write instead of sending it. Defaults to the
+   *     `dryRun` option of the client.
+   * @param {SetIamPolicyCallback} [callback] Callback function.
+   * @returns {Promise<SetIamPolicyResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * const removeUser = policy => {
+   *   policy.bindings.forEach(binding => {
+   *     binding.members = binding.members.filter(
+   *       member => member !== 'user:jane@example.com'
+   *     );
+   *   });
+   * };
+   *
+   * project.updateIamPolicy(removeUser, (err, policy) => {
+   *   // `policy` is the updated IAM policy.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.updateIamPolicy(removeUser).then((data) => {
+   *   const policy = data[0];
+   * });
+   */
+  updateIamPolicy(
+    mutator: IamPolicyMutator,
+    optionsOrCallback?: UpdateIamPolicyOptions | SetIamPolicyCallback,
+    callback?: SetIamPolicyCallback
+  ): void | Promise<SetIamPolicyResponse> {
+    const options = Object.assign(
+      {},
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {}
+    );
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    const maxAttempts =
+      options.maxAttempts || DEFAULT_IAM_POLICY_UPDATE_ATTEMPTS;
+    const retryDelayMs =
+      options.retryDelayMs === undefined
+        ? CONCURRENT_MODIFICATION_RETRY_DELAY_MS
+        : options.retryDelayMs;
+    delete options.maxAttempts;
+    delete options.retryDelayMs;
+
+    let attempts = 0;
+    const attempt = () => {
+      attempts++;
+      const readOptions = {requestedPolicyVersion: CONDITIONAL_POLICY_VERSION};
+      this.getIamPolicy(readOptions, (err, policy) => {
+        if (err) {
+          callback!(err);
+          return;
+        }
+
+        let newPolicy: Policy;
+        try {
+          newPolicy = mutator(policy!) || policy!;
+        } catch (e) {
+          callback!(e);
+          return;
+        }
+
+        this.setIamPolicy(newPolicy, options, (err, ...results) => {
+          if (
+            err &&
+            isConcurrentModificationError(err) &&
+            attempts < maxAttempts
+          ) {
+            setTimeout(attempt, retryDelayMs * Math.pow(2, attempts - 1));
+            return;
+          }
+          callback!(err, ...results);
+        });
+      });
+    };
+    attempt();
+  }
+
+  addIamBinding(
+    role: string,
+    members: string[],
+    condition?: Expression
+  ): Promise<SetIamPolicyResponse>;
+  addIamBinding(
+    role: string,
+    members: string[],
+    callback: SetIamPolicyCallback
+  ): void;
+  addIamBinding(
+    role: string,
+    members: string[],
+    condition: Expression,
+    callback: SetIamPolicyCallback
+  ): void;
+  /**
+   * Grant a role to members of this project.
+   *
+   * The members are added to the binding with the same role and condition,
+   * which is created if needed. Concurrent modifications of the policy are
+   * retried as described in {@link Project#updateIamPolicy}. When the client
+   * is in dry-run mode, the write is only described.
+   *
+   * @param {string} role The role to grant, e.g. `roles/viewer`.
+   * @param {string[]} members The members to grant the role to, e.g.
+   *     `user:jane@example.com`.
+   * @param {Expression} [condition] A condition restricting the binding.
+   * @param {SetIamPolicyCallback} [callback] Callback function.
+   * @returns {Promise<SetIamPolicyResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * const members = ['user:jane@example.com'];
+   *
+   * project.addIamBinding('roles/viewer', members, (err, policy) => {
+   *   // `policy` is the updated IAM policy.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.addIamBinding('roles/viewer', members).then((data) => {
+   *   const policy = data[0];
+   * });
+   */
+  addIamBinding(
+    role: string,
+    members: string[],
+    conditionOrCallback?: Expression | SetIamPolicyCallback,
+    callback?: SetIamPolicyCallback
+  ): void | Promise<SetIamPolicyResponse> {
+    const condition =
+      typeof conditionOrCallback === 'object' ? conditionOrCallback : undefined;
+    callback =
+      typeof conditionOrCallback === 'function'
+        ? conditionOrCallback
+        : callback;
+
+    this.updateIamPolicy(policy => {
+      policy.bindings = policy.bindings || [];
+
+      let binding = policy.bindings.find(
+        b => b.role === role && isSameCondition(b.condition, condition)
+      );
+      if (!binding) {
+        binding = {role, members: []};
+        if (condition) {
+          binding.condition = condition;
+        }
+        policy.bindings.push(binding);
+      }
+
+      members.forEach(member => {
+        if (!binding!.members.includes(member)) {
+          binding!.members.push(member);
+        }
+      });
+
+      if (condition) {
+        policy.version = CONDITIONAL_POLICY_VERSION;
+      }
+    }, callback!);
+  }
+
+  removeIamBinding(
+    role: string,
+    members: string[],
+    condition?: Expression
+  ): Promise<SetIamPolicyResponse>;
+  removeIamBinding(
+    role: string,
+    members: string[],
+    callback: SetIamPolicyCallback
+  ): void;
+  removeIamBinding(
+    role: string,
+    members: string[],
+    condition: Expression,
+    callback: SetIamPolicyCallback
+  ): void;
+  /**
+   * Revoke a role from members of this project.
+   *
+   * The members are removed from the binding with the same role and
+   * condition, and bindings left without members are dropped. Concurrent
+   * modifications of the policy are retried as described in
+   * {@link Project#updateIamPolicy}. When the client is in dry-run mode, the
+   * write is only described.
+   *
+   * @param {string} role The role to revoke, e.g. `roles/viewer`.
+   * @param {string[]} members The members to revoke the role from, e.g.
+   *     `user:jane@example.com`.
+   * @param {Expression} [condition] The condition of the binding.
+   * @param {SetIamPolicyCallback} [callback] Callback function.
+   * @returns {Promise<SetIamPolicyResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * const members = ['user:jane@example.com'];
+   *
+   * project.removeIamBinding('roles/viewer', members, (err, policy) => {
+   *   // `policy` is the updated IAM policy.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.removeIamBinding('roles/viewer', members).then((data) => {
+   *   const policy = data[0];
+   * });
+   */
+  removeIamBinding(
+    role: string,
+    members: string[],
+    conditionOrCallback?: Expression | SetIamPolicyCallback,
+    callback?: SetIamPolicyCallback
+  ): void | Promise<SetIamPolicyResponse> {
+    const condition =
+      typeof conditionOrCallback === 'object' ? conditionOrCallback : undefined;
+    callback =
+      typeof conditionOrCallback === 'function'
+        ? conditionOrCallback
+        : callback;
+
+    this.updateIamPolicy(policy => {
+      policy.bindings = (policy.bindings || [])
+        .map(binding => {
+          if (
+            binding.role !== role ||
+            !isSameCondition(binding.condition, condition)
+          ) {
+            return binding;
+          }
+          return Object.assign({}, binding, {
+            members: binding.members.filter(m => !members.includes(m)),
+          });
+        })
+        .filter(binding => binding.members.length > 0);
+    }, callback!);
+  }
+
+  previewIamPolicyChange(
+    policy: Partial<Policy>
+  ): Promise<PreviewIamPolicyChangeResponse>;
+  previewIamPolicyChange(
+    policy: Partial<Policy>,
+    callback: PreviewIamPolicyChangeCallback
+  ): void;
+  /**
+   * @typedef {array} PreviewIamPolicyChangeResponse
+   * @property {IamPolicyDiff} 0 The differences between the live policy and
+   *     the given one.
+   */
+  /**
+   * @callback PreviewIamPolicyChangeCallback
+   * @param {?Error} err Request error, if any.
+   * @param {IamPolicyDiff} diff The differences between the live policy and
+   *     the given one.
+   */
+  /**
+   * Compare the live IAM policy of this project, read at version 3 so
+   * conditions are included, with a policy about to be set. Nothing is
+   * written.
+   *
+   * @see diffIamPolicies
+   *
+   * @param {Policy} policy The policy to compare with.
+   * @param {PreviewIamPolicyChangeCallback} [callback] Callback function.
+   * @returns {Promise<PreviewIamPolicyChangeResponse>}
+   *
+   * @example
+   * const {formatIamPolicyDiff, Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.previewIamPolicyChange(wantedPolicy, (err, diff) => {
+   *   if (diff.hasChanges) {
+   *     console.log(formatIamPolicyDiff(diff));
+   *   }
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.previewIamPolicyChange(wantedPolicy).then((data) => {
+   *   const diff = data[0];
+   * });
+   */
+  previewIamPolicyChange(
+    policy: Partial<Policy>,
+    callback?: PreviewIamPolicyChangeCallback
+  ): void | Promise<PreviewIamPolicyChangeResponse> {
+    const options = {requestedPolicyVersion: CONDITIONAL_POLICY_VERSION};
+    this.getIamPolicy(options, (err, livePolicy) => {
+      if (err) {
+        callback!(err);
+        return;
+      }
+      callback!(null, diffIamPolicies(livePolicy!, policy));
+    });
+  }
+
+  getAuditConfigs(): Promise<GetAuditConfigsResponse>;
+  getAuditConfigs(callback: GetAuditConfigsCallback): void;
+  /**
+   * @typedef {array} GetAuditConfigsResponse
+   * @property {AuditConfig[]} 0 The audit configurations of the project.
+   */
+  /**
+   * @callback GetAuditConfigsCallback
+   * @param {?Error} err Request error, if any.
+   * @param {AuditConfig[]} auditConfigs The audit configurations of the
+   *     project.
+   */
+  /**
+   * Get the audit configurations of this project, the part of its IAM policy
+   * which lists the types of
+   * [Data Access audit logs](https://cloud.google.com/logging/docs/audit#data-access)
+   * written for each service.
+   *
+   * @param {GetAuditConfigsCallback} [callback] Callback function.
+   * @returns {Promise<GetAuditConfigsResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.getAuditConfigs((err, auditConfigs) => {
+   *   // auditConfigs = [{
+   *   //   service: 'allServices',
+   *   //   auditLogConfigs: [{logType: 'DATA_READ'}],
+   *   // }]
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.getAuditConfigs().then((data) => {
+   *   const auditConfigs = data[0];
+   * });
+   */
+  getAuditConfigs(
+    callback?: GetAuditConfigsCallback
+  ): void | Promise<GetAuditConfigsResponse> {
+    this.getIamPolicy((err, policy) => {
+      if (err) {
+        callback!(err);
+        return;
+      }
+      callback!(null, policy!.auditConfigs || []);
+    });
+  }
+
+  enableAuditLogs(
+    service: string,
+    logTypes: AuditLogType[],
+    options?: EnableAuditLogsOptions
+  ): Promise<SetIamPolicyResponse>;
+  enableAuditLogs(
+    service: string,
+    logTypes: AuditLogType[],
+    callback: SetIamPolicyCallback
+  ): void;
+  enableAuditLogs(
+    service: string,
+    logTypes: AuditLogType[],
+    options: EnableAuditLogsOptions,
+    callback: SetIamPolicyCallback
+  ): void;
+  /**
+   * Turn on audit logs of the given types for a service.
+   *
+   * Only the `auditConfigs` of the IAM policy are written, with the etag they
+   * were read with; concurrent modifications are retried as described in
+   * {@link Project#updateIamPolicy}. When the client is in dry-run mode, the
+   * write is only described.
+   *
+   * @param {string} service The service, e.g. `storage.googleapis.com`, or
+   *     `allServices`.
+   * @param {string[]} logTypes The types of logs to turn on: `ADMIN_READ`,
+   *     `DATA_READ` or `DATA_WRITE`.
+   * @param {object} [options] Configuration object.
+   * @param {string[]} [options.exemptedMembers] Members whose access is not
+   *     logged, e.g. `serviceAccount:etl@grape-spaceship-123.iam.gserviceaccount.com`.
+   *     They replace the members exempted from these types of logs. When
+   *     omitted, the existing exemptions are kept.
+   * @param {SetIamPolicyCallback} [callback] Callback function.
+   * @returns {Promise<SetIamPolicyResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * const logTypes = ['DATA_READ', 'DATA_WRITE'];
+   *
+   * project.enableAuditLogs('storage.googleapis.com', logTypes, (err, policy) => {
+   *   // `policy` is the updated IAM policy.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.enableAuditLogs('storage.googleapis.com', logTypes, {
+   *   exemptedMembers: ['user:jane@example.com'],
+   * }).then((data) => {
+   *   const policy = data[0];
+   * });
+   */
+  enableAuditLogs(
+    service: string,
+    logTypes: AuditLogType[],
+    optionsOrCallback?: EnableAuditLogsOptions | SetIamPolicyCallback,
+    callback?: SetIamPolicyCallback
+  ): void | Promise<SetIamPolicyResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    this.updateAuditConfig_(
+      service,
+      logTypes,
+      auditLogConfigs => {
+        logTypes.forEach(logType => {
+          let auditLogConfig = auditLogConfigs.find(c => c.logType === logType);
+          if (!auditLogConfig) {
+            auditLogConfig = {logType};
+            auditLogConfigs.push(auditLogConfig);
+          }
+          if (options.exemptedMembers) {
+            auditLogConfig.exemptedMembers = options.exemptedMembers.slice();
+          }
+        });
+        return auditLogConfigs;
+      },
+      callback!
+    );
+  }
+
+  disableAuditLogs(
+    service: string,
+    logTypes: AuditLogType[]
+  ): Promise<SetIamPolicyResponse>;
+  disableAuditLogs(
+    service: string,
+    logTypes: AuditLogType[],
+    callback: SetIamPolicyCallback
+  ): void;
+  /**
+   * Turn off audit logs of the given types for a service, along with their
+   * exemptions. A service left without any type of logs is dropped from the
+   * audit configurations.
+   *
+   * Only the `auditConfigs` of the IAM policy are written, with the etag they
+   * were read with; concurrent modifications are retried as described in
+   * {@link Project#updateIamPolicy}. When the client is in dry-run mode, the
+   * write is only described.
+   *
+   * @param {string} service The service, e.g. `storage.googleapis.com`, or
+   *     `allServices`.
+   * @param {string[]} logTypes The types of logs to turn off: `ADMIN_READ`,
+   *     `DATA_READ` or `DATA_WRITE`.
+   * @param {SetIamPolicyCallback} [callback] Callback function.
+   * @returns {Promise<SetIamPolicyResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * const logTypes = ['DATA_READ'];
+   *
+   * project.disableAuditLogs('storage.googleapis.com', logTypes, (err, policy) => {
+   *   // `policy` is the updated IAM policy.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.disableAuditLogs('storage.googleapis.com', logTypes).then((data) => {
+   *   const policy = data[0];
+   * });
+   */
+  disableAuditLogs(
+    service: string,
+    logTypes: AuditLogType[],
+    callback?: SetIamPolicyCallback
+  ): void | Promise<SetIamPolicyResponse> {
+    this.updateAuditConfig_(
+      service,
+      logTypes,
+      auditLogConfigs =>
+        auditLogConfigs.filter(
+          c => !logTypes.includes(c.logType as AuditLogType)
+        ),
+      callback!
+    );
+  }
+
+  clearOrgPolicy(
+    constraint: string,
+    etag?: string
+  ): Promise<ClearOrgPolicyResponse>;
+  clearOrgPolicy(constraint: string, callback: ClearOrgPolicyCallback): void;
+  clearOrgPolicy(
+    constraint: string,
+    etag: string,
+    callback: ClearOrgPolicyCallback
+  ): void;
+  /**
+   * Remove the organization policy for a constraint from this project, so
+   * that the policy is inherited from its parent again.
+   *
+   * @see [projects: clearOrgPolicy API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/clearOrgPolicy}
+   *
+   * @param {string} constraint The name of the constraint, e.g.
+   *     `constraints/compute.vmExternalIpAccess`.
+   * @param {string} [etag] The etag of the policy read with
+   *     {@link Project#getOrgPolicy}. The request fails if the policy was
+   *     modified in the meantime.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<ClearOrgPolicyResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * const constraint = 'constraints/compute.vmExternalIpAccess';
+   *
+   * project.clearOrgPolicy(constraint, (err, apiResponse) => {
+   *   if (!err) {
+   *     // The policy was cleared.
+   *   }
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.clearOrgPolicy(constraint).then((data) => {
+   *   const apiResponse = data[0];
+   * });
+   */
+  clearOrgPolicy(
+    constraint: string,
+    etagOrCallback?: string | ClearOrgPolicyCallback,
+    callback?: ClearOrgPolicyCallback
+  ): void | Promise<ClearOrgPolicyResponse> {
+    const etag =
+      typeof etagOrCallback === 'string' ? etagOrCallback : undefined;
+    callback = typeof etagOrCallback === 'function' ? etagOrCallback : callback;
+
+    this.request(
+      {
+        method: 'POST',
+        uri: ':clearOrgPolicy',
+        json: {
+          constraint: toConstraintName(constraint),
+          etag,
+        },
+      },
+      (err, resp) => {
+        callback!(err, resp);
+      }
+    );
+  }
+
+  getAvailableOrgPolicyConstraints(
+    options?: GetOrgPoliciesOptions
+  ): Promise<GetAvailableOrgPolicyConstraintsResponse>;
+  getAvailableOrgPolicyConstraints(
+    callback: GetAvailableOrgPolicyConstraintsCallback
+  ): void;
+  getAvailableOrgPolicyConstraints(
+    options: GetOrgPoliciesOptions,
+    callback: GetAvailableOrgPolicyConstraintsCallback
+  ): void;
+  /**
+   * Get the constraints which can be applied to this project with
+   * {@link Project#setOrgPolicy}.
+   *
+   * @see [projects: listAvailableOrgPolicyConstraints API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/listAvailableOrgPolicyConstraints}
+   *
+   * @param {object} [options] Constraint search options.
+   * @param {boolean} [options.autoPaginate] Have pagination handled
+   *     automatically. Default: true.
+   * @param {number} [options.maxApiCalls] Maximum number of API calls to make.
+   * @param {number} [options.maxResults] Maximum number of results to return.
+   * @param {number} [options.pageSize] Maximum number of constraints to
+   *     return.
+   * @param {string} [options.pageToken] A previously-returned page token
+   *     representing part of the larger set of results to view.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {object[]} callback.constraints The available constraints.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<GetAvailableOrgPolicyConstraintsResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.getAvailableOrgPolicyConstraints((err, constraints) => {
+   *   // `constraints` is an array of constraint definitions.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.getAvailableOrgPolicyConstraints().then((data) => {
+   *   const constraints = data[0];
+   * });
+   */
+  getAvailableOrgPolicyConstraints(
+    optionsOrCallback?:
+      | GetOrgPoliciesOptions
+      | GetAvailableOrgPolicyConstraintsCallback,
+    callback?: GetAvailableOrgPolicyConstraintsCallback
+  ): void | Promise<GetAvailableOrgPolicyConstraintsResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    this.request(
+      {
+        method: 'POST',
+        uri: ':listAvailableOrgPolicyConstraints',
+        json: {
+          pageSize: options.pageSize,
+          pageToken: options.pageToken,
+        },
+      },
+      (err, resp) => {
+        if (err) {
+          callback!(err, null, null, resp);
+          return;
+        }
+
+        let nextQuery: GetOrgPoliciesOptions;
+
+        if (resp.nextPageToken) {
+          nextQuery = Object.assign({}, options, {
+            pageToken: resp.nextPageToken,
+          });
+        }
+
+        callback!(null, resp.constraints || [], nextQuery!, resp);
+      }
+    );
+  }
+
+  getEffectiveOrgPolicy(constraint: string): Promise<OrgPolicyResponse>;
+  getEffectiveOrgPolicy(constraint: string, callback: OrgPolicyCallback): void;
+  /**
+   * Get the organization policy for a constraint which is in effect for this
+   * project, taking the policies of its folders and organization into
+   * account.
+   *
+   * @see [projects: getEffectiveOrgPolicy API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/getEffectiveOrgPolicy}
+   *
+   * @param {string} constraint The name of the constraint, e.g.
+   *     `constraints/compute.vmExternalIpAccess`.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {object} callback.policy The effective organization policy.
+   * @returns {Promise<OrgPolicyResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * const constraint = 'constraints/compute.vmExternalIpAccess';
+   *
+   * project.getEffectiveOrgPolicy(constraint, (err, policy) => {
+   *   // `policy.listPolicy` lists the allowed or denied values.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.getEffectiveOrgPolicy(constraint).then((data) => {
+   *   const policy = data[0];
+   * });
+   */
+  getEffectiveOrgPolicy(
+    constraint: string,
+    callback?: OrgPolicyCallback
+  ): void | Promise<OrgPolicyResponse> {
+    this.request(
+      {
+        method: 'POST',
+        uri: ':getEffectiveOrgPolicy',
+        json: {
+          constraint: toConstraintName(constraint),
+        },
+      },
+      (err, resp) => {
+        callback!(err, resp);
+      }
+    );
+  }
+
+  getOrgPolicies(
+    options?: GetOrgPoliciesOptions
+  ): Promise<GetOrgPoliciesResponse>;
+  getOrgPolicies(callback: GetOrgPoliciesCallback): void;
+  getOrgPolicies(
+    options: GetOrgPoliciesOptions,
+    callback: GetOrgPoliciesCallback
+  ): void;
+  /**
+   * Get the organization policies set directly on this project.
+   *
+   * @see [projects: listOrgPolicies API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/listOrgPolicies}
+   *
+   * @param {object} [options] Policy search options. See
+   *     {@link Project#getAvailableOrgPolicyConstraints} for a complete list
+   *     of options.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {object[]} callback.policies The organization policies.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<GetOrgPoliciesResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.getOrgPolicies((err, policies) => {
+   *   // `policies` is an array of organization policies.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.getOrgPolicies().then((data) => {
+   *   const policies = data[0];
+   * });
+   */
+  getOrgPolicies(
+    optionsOrCallback?: GetOrgPoliciesOptions | GetOrgPoliciesCallback,
+    callback?: GetOrgPoliciesCallback
+  ): void | Promise<GetOrgPoliciesResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    this.request(
+      {
+        method: 'POST',
+        uri: ':listOrgPolicies',
+        json: {
+          pageSize: options.pageSize,
+          pageToken: options.pageToken,
+        },
+      },
+      (err, resp) => {
+        if (err) {
+          callback!(err, null, null, resp);
+          return;
+        }
+
+        let nextQuery: GetOrgPoliciesOptions;
+
+        if (resp.nextPageToken) {
+          nextQuery = Object.assign({}, options, {
+            pageToken: resp.nextPageToken,
+          });
+        }
+
+        callback!(null, resp.policies || [], nextQuery!, resp);
+      }
+    );
+  }
+
+  getOrgPolicy(constraint: string): Promise<OrgPolicyResponse>;
+  getOrgPolicy(constraint: string, callback: OrgPolicyCallback): void;
+  /**
+   * Get the organization policy for a constraint set directly on this
+   * project. See {@link Project#getEffectiveOrgPolicy} for the policy in
+   * effect.
+   *
+   * @see [projects: getOrgPolicy API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/getOrgPolicy}
+   *
+   * @param {string} constraint The name of the constraint, e.g.
+   *     `constraints/compute.vmExternalIpAccess`.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {object} callback.policy The organization policy. Only its
+   *     `constraint` and `etag` are set if the project has no policy of its
+   *     own.
+   * @returns {Promise<OrgPolicyResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * const constraint = 'constraints/compute.vmExternalIpAccess';
+   *
+   * project.getOrgPolicy(constraint, (err, policy) => {});
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.getOrgPolicy(constraint).then((data) => {
+   *   const policy = data[0];
+   * });
+   */
+  getOrgPolicy(
+    constraint: string,
+    callback?: OrgPolicyCallback
+  ): void | Promise<OrgPolicyResponse> {
+    this.request(
+      {
+        method: 'POST',
+        uri: ':getOrgPolicy',
+        json: {
+          constraint: toConstraintName(constraint),
+        },
+      },
+      (err, resp) => {
+        callback!(err, resp);
+      }
+    );
+  }
+
+  setOrgPolicy(policy: OrgPolicy): Promise<OrgPolicyResponse>;
+  setOrgPolicy(policy: OrgPolicy, callback: OrgPolicyCallback): void;
+  /**
+   * Set the organization policy for a constraint on this project.
+   *
+   * The policy's `etag` is sent as-is. When it was read with
+   * {@link Project#getOrgPolicy}, the request fails if the policy has been
+   * modified in the meantime.
+   *
+   * @see [projects: setOrgPolicy API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/setOrgPolicy}
+   *
+   * @param {object} policy The organization policy. Exactly one of
+   *     `listPolicy`, `booleanPolicy` and `restoreDefault` must be set.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {object} callback.policy The updated organization policy.
+   * @returns {Promise<OrgPolicyResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * const policy = {
+   *   constraint: 'constraints/compute.vmExternalIpAccess',
+   *   listPolicy: {
+   *     allValues: 'DENY',
+   *   },
+   * };
+   *
+   * project.setOrgPolicy(policy, (err, policy) => {});
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.setOrgPolicy(policy).then((data) => {
+   *   const policy = data[0];
+   * });
+   */
+  setOrgPolicy(
+    policy: OrgPolicy,
+    callback?: OrgPolicyCallback
+  ): void | Promise<OrgPolicyResponse> {
+    this.request(
+      {
+        method: 'POST',
+        uri: ':setOrgPolicy',
+        json: {
+          policy: Object.assign({}, policy, {
+            constraint: toConstraintName(policy.constraint),
+          }),
+        },
+      },
+      (err, resp) => {
+        callback!(err, resp);
+      }
+    );
+  }
+
+  move(destination: ResourceId): Promise<MoveProjectResponse>;
+  move(destination: ResourceId, callback: MoveProjectCallback): void;
+  /**
+   * Move the project under another folder or organization.
+   *
+   * Only active projects can be moved. The project's metadata is fetched
+   * first, and the callback receives an error without moving the project if
+   * its `lifecycleState` is not `ACTIVE`.
+   *
+   * @see [projects: move API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/projects/move}
+   *
+   * @param {ResourceId} destination The folder or organization to move the
+   *     project to.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {Operation} callback.operation An operation object that can be used
+   *     to check the status of the move. It completes with the raw
+   *     [v3 Project resource]{@link https://cloud.google.com/resource-manager/reference/rest/v3/projects#Project},
+   *     whose `parent` is the destination, not with a {@link Project}.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<MoveProjectResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * const destination = {type: 'folder', id: '2345678901'};
+   *
+   * project.move(destination, (err, operation, apiResponse) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   operation
+   *     .on('error', err => {})
+   *     .on('complete', metadata => {
+   *       // The project was moved!
+   *       // metadata.parent = 'folders/2345678901'
+   *     });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.move(destination).then((data) => {
+   *   const operation = data[0];
+   *   return operation.promise();
+   * }).then((data) => {
+   *   const metadata = data[0];
+   * });
+   */
+  move(
+    destination: ResourceId,
+    callback?: MoveProjectCallback
+  ): void | Promise<MoveProjectResponse> {
+    this.getMetadata((err: Error | null, metadata: Metadata) => {
+      if (err) {
+        callback!(err, null, metadata);
+        return;
+      }
+
+      if (metadata.lifecycleState !== LifecycleState.ACTIVE) {
+        const message =
+          `Project ${this.id} cannot be moved while its lifecycle state is ` +
+          `${metadata.lifecycleState}.`;
+        callback!(new Error(message), null, metadata);
+        return;
+      }
+
+      this.request(
+        {
+          method: 'POST',
+          uri: `${this.resource.getBaseUrl_('v3')}/projects/${this.id}:move`,
+          json: {
+            destinationParent: `${destination.type}s/${destination.id}`,
+          },
+        },
+        (err, resp) => {
+          this.resource.handleOperationV3_(err, resp, callback!);
+        }
+      );
+    });
+  }
+
+  bindTag(tagValue: TagValue | string): Promise<TagBindingOperationResponse>;
+  bindTag(
+    tagValue: TagValue | string,
+    callback: TagBindingOperationCallback
+  ): void;
+  /**
+   * Attach a tag value to this project.
+   *
+   * @see [Attaching tags to resources]{@link https://cloud.google.com/resource-manager/docs/tags/tags-creating-and-managing#attaching}
+   * @see [tagBindings: create API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagBindings/create}
+   *
+   * @param {TagValue|string} tagValue The tag value, or its ID.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {Operation} callback.operation An operation object that can be used
+   *     to check the status of the binding.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<TagBindingOperationResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   * const tagValue = resource.tagValue('1234567890');
+   *
+   * project.bindTag(tagValue, (err, operation, apiResponse) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   operation
+   *     .on('error', err => {})
+   *     .on('complete', () => {
+   *       // The tag is attached to the project.
+   *     });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.bindTag(tagValue).then((data) => {
+   *   const operation = data[0];
+   *   return operation.promise();
+   * });
+   */
+  bindTag(
+    tagValue: TagValue | string,
+    callback?: TagBindingOperationCallback
+  ): void | Promise<TagBindingOperationResponse> {
+    this.getFullResourceName_((err, fullResourceName, apiResponse) => {
+      if (err) {
+        callback!(err, null, apiResponse);
+        return;
+      }
+
+      this.request(
+        {
+          method: 'POST',
+          uri: `${this.resource.getBaseUrl_('v3')}/tagBindings`,
+          json: {
+            parent: fullResourceName,
+            tagValue: toTagValueName(tagValue),
+          },
+        },
+        (err, resp) => {
+          this.resource.handleOperationV3_(err, resp, callback!);
+        }
+      );
+    });
+  }
+
+  getEffectiveTags(
+    options?: GetTagBindingsOptions
+  ): Promise<GetEffectiveTagsResponse>;
+  getEffectiveTags(callback: GetEffectiveTagsCallback): void;
+  getEffectiveTags(
+    options: GetTagBindingsOptions,
+    callback: GetEffectiveTagsCallback
+  ): void;
+  /**
+   * Get the tags in effect for this project. Unlike
+   * {@link Project#getTagBindings}, this includes the tags inherited from the
+   * project's folders and organization; those have `inherited` set.
+   *
+   * @see [tagBindings: listEffectiveTags API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/effectiveTags/list}
+   *
+   * @param {object} [options] Tag search options. See
+   *     {@link Project#getTagBindings} for a complete list of options.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {object[]} callback.effectiveTags The tags in effect.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<GetEffectiveTagsResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.getEffectiveTags((err, effectiveTags) => {
+   *   // `effectiveTags[].namespacedTagValue` names each tag, e.g.
+   *   // `1234567890/environment/production`.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.getEffectiveTags().then((data) => {
+   *   const effectiveTags = data[0];
+   * });
+   */
+  getEffectiveTags(
+    optionsOrCallback?: GetTagBindingsOptions | GetEffectiveTagsCallback,
+    callback?: GetEffectiveTagsCallback
+  ): void | Promise<GetEffectiveTagsResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    this.getFullResourceName_((err, fullResourceName, apiResponse) => {
+      if (err) {
+        callback!(err, null, null, apiResponse);
+        return;
+      }
+
+      this.request(
+        {
+          uri: `${this.resource.getBaseUrl_('v3')}/effectiveTags`,
+          qs: {
+            pageSize: options.pageSize,
+            pageToken: options.pageToken,
+            parent: fullResourceName,
+          },
+        },
+        (err, resp) => {
+          if (err) {
+            callback!(err, null, null, resp);
+            return;
+          }
+
+          let nextQuery: GetTagBindingsOptions;
+
+          if (resp.nextPageToken) {
+            nextQuery = Object.assign({}, options, {
+              pageToken: resp.nextPageToken,
+            });
+          }
+
+          callback!(null, resp.effectiveTags || [], nextQuery!, resp);
+        }
+      );
+    });
+  }
+
+  getTagBindings(
+    options?: GetTagBindingsOptions
+  ): Promise<GetTagBindingsResponse>;
+  getTagBindings(callback: GetTagBindingsCallback): void;
+  getTagBindings(
+    options: GetTagBindingsOptions,
+    callback: GetTagBindingsCallback
+  ): void;
+  /**
+   * Get the tag values attached directly to this project.
+   *
+   * @see [tagBindings: list API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagBindings/list}
+   *
+   * @param {object} [options] Tag binding search options.
+   * @param {boolean} [options.autoPaginate] Have pagination handled
+   *     automatically. Default: true.
+   * @param {number} [options.maxApiCalls] Maximum number of API calls to make.
+   * @param {number} [options.maxResults] Maximum number of results to return.
+   * @param {number} [options.pageSize] Maximum number of tag bindings to
+   *     return.
+   * @param {string} [options.pageToken] A previously-returned page token
+   *     representing part of the larger set of results to view.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {object[]} callback.tagBindings The tag bindings of the project.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<GetTagBindingsResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.getTagBindings((err, tagBindings) => {
+   *   // `tagBindings[].tagValue` is the name of each attached tag value.
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.getTagBindings().then((data) => {
+   *   const tagBindings = data[0];
+   * });
+   */
+  getTagBindings(
+    optionsOrCallback?: GetTagBindingsOptions | GetTagBindingsCallback,
+    callback?: GetTagBindingsCallback
+  ): void | Promise<GetTagBindingsResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    this.getFullResourceName_((err, fullResourceName, apiResponse) => {
+      if (err) {
+        callback!(err, null, null, apiResponse);
+        return;
+      }
+
+      this.request(
+        {
+          uri: `${this.resource.getBaseUrl_('v3')}/tagBindings`,
+          qs: {
+            pageSize: options.pageSize,
+            pageToken: options.pageToken,
+            parent: fullResourceName,
+          },
+        },
+        (err, resp) => {
+          if (err) {
+            callback!(err, null, null, resp);
+            return;
+          }
+
+          let nextQuery: GetTagBindingsOptions;
+
+          if (resp.nextPageToken) {
+            nextQuery = Object.assign({}, options, {
+              pageToken: resp.nextPageToken,
+            });
+          }
+
+          callback!(null, resp.tagBindings || [], nextQuery!, resp);
+        }
+      );
+    });
+  }
+
+  unbindTag(tagValue: TagValue | string): Promise<TagBindingOperationResponse>;
+  unbindTag(
+    tagValue: TagValue | string,
+    callback: TagBindingOperationCallback
+  ): void;
+  /**
+   * Detach a tag value from this project.
+   *
+   * @see [tagBindings: delete API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagBindings/delete}
+   *
+   * @param {TagValue|string} tagValue The tag value, or its ID.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {Operation} callback.operation An operation object that can be used
+   *     to check the status of the removal.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<TagBindingOperationResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.unbindTag('1234567890', (err, operation, apiResponse) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   operation
+   *     .on('error', err => {})
+   *     .on('complete', () => {
+   *       // The tag is detached from the project.
+   *     });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.unbindTag('1234567890').then((data) => {
+   *   const operation = data[0];
+   *   return operation.promise();
+   * });
+   */
+  unbindTag(
+    tagValue: TagValue | string,
+    callback?: TagBindingOperationCallback
+  ): void | Promise<TagBindingOperationResponse> {
+    this.getFullResourceName_((err, fullResourceName, apiResponse) => {
+      if (err) {
+        callback!(err, null, apiResponse);
+        return;
+      }
+
+      const name = [
+        'tagBindings',
+        encodeURIComponent(fullResourceName!),
+        toTagValueName(tagValue),
+      ].join('/');
+
+      this.request(
+        {
+          method: 'DELETE',
+          uri: `${this.resource.getBaseUrl_('v3')}/${name}`,
+        },
+        (err, resp) => {
+          this.resource.handleOperationV3_(err, resp, callback!);
+        }
+      );
+    });
+  }
+
+  getLabels(): Promise<GetLabelsResponse>;
+  getLabels(callback: GetLabelsCallback): void;
+  /**
+   * Get the labels of this project.
+   *
+   * @see [projects: get API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/get}
+   *
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {object} callback.labels The labels, keyed by label key.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<GetLabelsResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.getLabels((err, labels, apiResponse) => {
+   *   // labels = {env: 'prod', team: 'billing'}
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.getLabels().then((data) => {
+   *   const labels = data[0];
+   * });
+   */
+  getLabels(callback?: GetLabelsCallback): void | Promise<GetLabelsResponse> {
+    this.getMetadata(
+      (
+        err: Error | null,
+        metadata?: ProjectMetadata,
+        apiResponse?: Metadata
+      ) => {
+        if (err) {
+          callback!(err, null, apiResponse);
+          return;
+        }
+        callback!(null, metadata!.labels || {}, apiResponse);
+      }
+    );
+  }
+
+  setLabels(labels: Labels): Promise<UpdateLabelsResponse>;
+  setLabels(labels: Labels, callback: UpdateLabelsCallback): void;
+  /**
+   * Replace all the labels of this project.
+   *
+   * Like the other label methods, this reads the project, then writes only
+   * its labels back with the `etag` that was read. If the project changed in
+   * the meantime, the update is retried against the new version of the
+   * project. The callback is executed once the update is applied. Labels are
+   * checked against the
+   * [requirements for labels](https://cloud.google.com/resource-manager/docs/creating-managing-labels#requirements)
+   * before they are sent.
+   *
+   * @see [projects: patch API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/projects/patch}
+   *
+   * @param {object} labels The new labels, keyed by label key.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request,
+   *     or if the labels are invalid.
+   * @param {object} callback.labels The labels of the project after the
+   *     update.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<UpdateLabelsResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.setLabels({env: 'prod'}, (err, labels, apiResponse) => {
+   *   // labels = {env: 'prod'}
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.setLabels({env: 'prod'}).then((data) => {
+   *   const labels = data[0];
+   * });
+   */
+  setLabels(
+    labels: Labels,
+    callback?: UpdateLabelsCallback
+  ): void | Promise<UpdateLabelsResponse> {
+    this.updateLabels_(() => Object.assign({}, labels), callback!);
+  }
+
+  addLabels(labels: Labels): Promise<UpdateLabelsResponse>;
+  addLabels(labels: Labels, callback: UpdateLabelsCallback): void;
+  /**
+   * Add labels to this project, or change the value of existing ones. Other
+   * labels are kept. See {@link Project#setLabels} for how concurrent
+   * changes are handled.
+   *
+   * @see [projects: patch API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/projects/patch}
+   *
+   * @param {object} labels The labels to add, keyed by label key.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request,
+   *     or if the labels are invalid.
+   * @param {object} callback.labels The labels of the project after the
+   *     update.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<UpdateLabelsResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.addLabels({team: 'billing'}, (err, labels, apiResponse) => {
+   *   // labels = {env: 'prod', team: 'billing'}
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.addLabels({team: 'billing'}).then((data) => {
+   *   const labels = data[0];
+   * });
+   */
+  addLabels(
+    labels: Labels,
+    callback?: UpdateLabelsCallback
+  ): void | Promise<UpdateLabelsResponse> {
+    this.updateLabels_(
+      current => Object.assign({}, current, labels),
+      callback!
+    );
+  }
+
+  removeLabels(keys: string | string[]): Promise<UpdateLabelsResponse>;
+  removeLabels(keys: string | string[], callback: UpdateLabelsCallback): void;
+  /**
+   * Remove labels from this project. Keys which are not set are ignored. See
+   * {@link Project#setLabels} for how concurrent changes are handled.
+   *
+   * @see [projects: patch API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/projects/patch}
+   *
+   * @param {string|string[]} keys The keys of the labels to remove.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {object} callback.labels The labels of the project after the
+   *     update.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise<UpdateLabelsResponse>}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.removeLabels('team', (err, labels, apiResponse) => {
+   *   // labels = {env: 'prod'}
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.removeLabels(['env', 'team']).then((data) => {
+   *   const labels = data[0];
+   * });
+   */
+  removeLabels(
+    keys: string | string[],
+    callback?: UpdateLabelsCallback
+  ): void | Promise<UpdateLabelsResponse> {
+    this.updateLabels_(current => {
+      const labels = Object.assign({}, current);
+      ([] as string[]).concat(keys).forEach(key => delete labels[key]);
+      return labels;
+    }, callback!);
+  }
+
+  restore(options?: RestoreOptions): Promise<RestoreResponse>;
+  restore(options: RestoreOptions, callback: RestoreCallback): void;
+  restore(callback: RestoreCallback): void;
+  /**
+   * Restore a project.
+   *
+   * **This method only works if you are authenticated as yourself, e.g. using
+   * the gcloud SDK.**
+   *
+   * @see [projects: undelete API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects/undelete}
+   *
+   * @param {object} [options] Configuration object.
+   * @param {boolean} [options.dryRun] Only describe the request instead of
+   *     sending it. The project is still read, to check that it is
+   *     `DELETE_REQUESTED`. Defaults to the `dryRun` option of the client.
+   * @param {function} [callback] The callback function.
+   * @param {?error} callback.err An error returned while making this request,
+   *     or in dry-run mode, if the project is not `DELETE_REQUESTED`.
+   * @param {object} callback.apiResponse Raw API response, or the
+   *     {@link DryRunRequest} which would have been sent.
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const project = resource.project('grape-spaceship-123');
+   *
+   * project.restore((err, apiResponse) => {
+   *   if (!err) {
+   *     // Project restored.
+   *   }
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * project.restore().then((data) => {
+   *   const apiResponse = data[0];
+   * });
+   */
+  restore(
+    optionsOrCallback?: RestoreOptions | RestoreCallback,
+    callback?: RestoreCallback
+  ): void | Promise<RestoreResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    callback =
+      (typeof optionsOrCallback === 'function'
+        ? optionsOrCallback
+        : callback) || util.noop;
+
+    const reqOpts = {
+      method: 'POST',
+      uri: ':undelete',
+    };
+    if (this.resource.isDryRun_(options)) {
+      this.describeLifecycleRequest_(
+        reqOpts,
+        LifecycleState.DELETE_REQUESTED,
+        'restored',
+        callback!
+      );
+      return;
+    }
+    this.request(reqOpts, (err, resp) => {
+      callback!(err, resp);
+    });
+  }
+
+  /**
+   * Check the arguments of the audit log methods, then change the audit log
+   * configurations of a service with `update`. The service is dropped from
+   * the policy if no configuration is left.
+   *
+   * @private
+   */
+  updateAuditConfig_(
+    service: string,
+    logTypes: AuditLogType[],
+    update: (auditLogConfigs: AuditLogConfig[]) => AuditLogConfig[],
+    callback: SetIamPolicyCallback
+  ) {
+    if (!service) {
+      callback(new Error('A service is required.'));
+      return;
+    }
+    const invalid = logTypes.find(t => !AUDIT_LOG_TYPES.includes(t));
+    if (invalid !== undefined) {
+      callback(new Error(`Invalid audit log type "${invalid}".`));
+      return;
+    }
+
+    this.updateIamPolicy(
+      policy => {
+        policy.auditConfigs = policy.auditConfigs || [];
+
+        let auditConfig = policy.auditConfigs.find(c => c.service === service);
+        if (!auditConfig) {
+          auditConfig = {service, auditLogConfigs: []};
+          policy.auditConfigs.push(auditConfig);
+        }
+        auditConfig.auditLogConfigs = update(auditConfig.auditLogConfigs || []);
+
+        policy.auditConfigs = policy.auditConfigs.filter(
+          c => c !== auditConfig || c.auditLogConfigs.length > 0
+        );
+      },
+      {updateMask: 'auditConfigs'},
+      callback
+    );
+  }
+
+  /**
+   * Send the `:setIamPolicy` request, or only describe it in dry-run mode.
+   *
+   * @private
+   */
+  writeIamPolicy_(
+    reqOpts: DecorateRequestOptions,
+    callback: SetIamPolicyCallback
+  ) {
+    const dryRun = this.resource.isDryRun_(reqOpts.json);
+    delete reqOpts.json.dryRun;
+    if (dryRun) {
+      callback(null, reqOpts.json.policy, this.describeRequest_(reqOpts));
+      return;
+    }
+    super.writeIamPolicy_(reqOpts, callback);
+  }
+
+  /**
+   * Describe a request changing the lifecycle state of the project, as the
+   * dry run of `delete` or `restore`. The project is read first, and the
+   * callback receives an error if the request does not apply to its state.
+   *
+   * @private
+   *
+   * @param {object} reqOpts The request options.
+   * @param {string} lifecycleState The state the request applies to.
+   * @param {string} action What the request does, e.g. `deleted`.
+   * @param {function} callback The callback function.
+   */
+  describeLifecycleRequest_(
+    reqOpts: DecorateRequestOptions,
+    lifecycleState: LifecycleState,
+    action: string,
+    callback: (err: Error | null, apiResponse?: Metadata) => void
+  ) {
+    this.getMetadata((err: Error | null, metadata: Metadata) => {
+      if (err) {
+        callback(err, metadata);
+        return;
+      }
+
+      if (metadata.lifecycleState !== lifecycleState) {
+        const message =
+          `Project ${this.id} cannot be ${action} while its lifecycle state ` +
+          `is ${metadata.lifecycleState}.`;
+        callback(new Error(message), metadata);
+        return;
+      }
+
+      callback(null, this.describeRequest_(reqOpts));
+    });
+  }
+
+  /**
+   * Describe a request to this project which is not sent, in dry-run mode.
+   *
+   * @private
+   *
+   * @param {object} reqOpts The request options, relative to the project.
+   * @returns {DryRunRequest}
+   */
+  describeRequest_(reqOpts: DecorateRequestOptions) {
+    return this.resource.describeRequest_(
+      Object.assign({}, reqOpts, {
+        uri: `${this.baseUrl}/${this.id}/${reqOpts.uri}`,
+      })
+    );
+  }
+
+  /**
+   * Get the full resource name of the project, e.g.
+   * `//cloudresourcemanager.googleapis.com/projects/1234567890`, which tag
+   * bindings refer to projects by. It contains the project number, which is
+   * fetched unless the project's metadata is already populated.
+   *
+   * @private
+   */
+  getFullResourceName_(
+    callback: (
+      err: Error | null,
+      fullResourceName?: string,
+      apiResponse?: Metadata
+    ) => void
+  ) {
+    const format = (projectNumber: string) =>
+      `//cloudresourcemanager.googleapis.com/projects/${projectNumber}`;
+
+    if (this.metadata && this.metadata.projectNumber) {
+      callback(null, format(this.metadata.projectNumber));
+      return;
+    }
+
+    this.getMetadata((err: Error | null, metadata: Metadata) => {
+      if (err) {
+        callback(err, undefined, metadata);
+        return;
+      }
+      callback(null, format(metadata.projectNumber), metadata);
+    });
+  }
+
+  /**
+   * Change fields of the project with the v3 API. The callback is executed
+   * once the operation returned by the update is done.
+   *
+   * @private
+   *
+   * @param {object} fields The fields of the v3 project to send.
+   * @param {string} updateMask The comma-separated list of fields to change.
+   * @param {function} callback The callback function.
+   */
+  patchV3_(
+    fields: Metadata,
+    updateMask: string,
+    callback: (err: Error | null, apiResponse?: Metadata) => void
+  ) {
+    this.request(
+      {
+        method: 'PATCH',
+        uri: `${this.resource.getBaseUrl_('v3')}/projects/${this.id}`,
+        qs: {updateMask},
+        json: fields,
+      },
+      (err, resp) => {
+        if (err) {
+          callback(err, resp);
+          return;
+        }
+
+        const complete = (metadata: Metadata) => {
+          if (metadata.error) {
+            callback(new OperationError(resp.name, metadata.error), metadata);
+            return;
+          }
+          callback(null, metadata);
+        };
+
+        if (resp.done) {
+          complete(resp);
+          return;
+        }
+        this.resource
+          .operationV3_<Project>(resp.name)
+          .on('error', (err: Error | OperationStatus) => {
+            callback(
+              err instanceof Error ? err : new OperationError(resp.name, err),
+              resp
+            );
+          })
+          .on('complete', complete);
+      }
+    );
+  }
+
+  /**
+   * Read the project, compute its new labels from the current ones and write
+   * them back with the etag that was read. If another writer modified the
+   * project in between, the whole cycle is repeated with the fresh project,
+   * after a delay.
+   *
+   * @private
+   */
+  updateLabels_(
+    update: (labels: Labels) => Labels,
+    callback: UpdateLabelsCallback
+  ) {
+    const uri = `${this.resource.getBaseUrl_('v3')}/projects/${this.id}`;
+
+    let attempts = 0;
+    const attempt = () => {
+      attempts++;
+      this.request({uri}, (err, project) => {
+        if (err) {
+          callback(err, null, project);
+          return;
+        }
+
+        const labels = update(project.labels || {});
+        try {
+          validateLabels(labels);
+        } catch (e) {
+          callback(e, null, project);
+          return;
+        }
+
+        this.patchV3_({labels, etag: project.etag}, 'labels', (err, resp) => {
+          if (
+            err &&
+            isConcurrentModificationError(err) &&
+            attempts < LABEL_UPDATE_ATTEMPTS
+          ) {
+            const delay =
+              CONCURRENT_MODIFICATION_RETRY_DELAY_MS *
+              Math.pow(2, attempts - 1);
+            setTimeout(attempt, delay);
+            return;
+          }
+          if (err) {
+            callback(err, null, resp);
+            return;
+          }
+          if (this.metadata) {
+            this.metadata.labels = labels;
+          }
+          callback(null, labels, resp);
+        });
+      });
+    };
+    attempt();
+  }
+}
+
+/*! Developer Documentation
+ *
+ * These methods can be auto-paginated.
+ */
+paginator.extend(Project, [
+  'getAvailableOrgPolicyConstraints',
+  'getEffectiveTags',
+  'getOrgPolicies',
+  'getTagBindings',
+]);
 
 /*! Developer Documentation
  *
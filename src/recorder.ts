@@ -0,0 +1,188 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ApiError,
+  BodyResponseCallback,
+  DecorateRequestOptions,
+  Metadata,
+} from '@google-cloud/common';
+import * as fs from 'fs';
+
+import {describeRequest, RequestDescription} from './dry-run';
+
+export type RecordingMode = 'record' | 'replay';
+export interface RecordingOptions {
+  mode: RecordingMode;
+  path: string;
+}
+export type RecordedRequest = RequestDescription;
+export interface RecordedError {
+  code?: number;
+  message: string;
+  errors?: Metadata[];
+}
+export interface Interaction {
+  request: RecordedRequest;
+  error?: RecordedError;
+  body?: Metadata;
+}
+export interface Recording {
+  interactions: Interaction[];
+}
+
+const REDACTED = '[REDACTED]';
+const SECRET_KEY_REGEX =
+  /^(authorization|(access|id|refresh)_?token|client_?secret|private_?key(_?id)?|password)$/i;
+
+/*! Developer Documentation
+ *
+ * Copy a value, replacing the values of the fields which may hold
+ * credentials, so recordings can be committed.
+ */
+function scrub(value: Metadata): Metadata {
+  if (Array.isArray(value)) {
+    return value.map(scrub);
+  }
+  if (value && typeof value === 'object') {
+    const scrubbed: Metadata = {};
+    Object.keys(value).forEach(key => {
+      scrubbed[key] = SECRET_KEY_REGEX.test(key) ? REDACTED : scrub(value[key]);
+    });
+    return scrubbed;
+  }
+  return value;
+}
+
+/*! Developer Documentation
+ *
+ * Requests are matched on their method, URI, query string and body.
+ * Undefined fields are dropped, as they are not sent.
+ */
+function toKey(request: RecordedRequest) {
+  const qs = request.qs || {};
+  const sortedQs: Metadata = {};
+  Object.keys(qs)
+    .sort()
+    .forEach(key => (sortedQs[key] = qs[key]));
+  return JSON.stringify([request.method, request.uri, sortedQs, request.json]);
+}
+
+/**
+ * A Recorder sits in front of the requests of a {@link Resource}. In `record`
+ * mode, requests are sent and every request and response is written to a
+ * fixture file, with credentials scrubbed. In `replay` mode, nothing is sent:
+ * responses are served from the fixture file, in the order they were
+ * recorded, and a request which was not recorded fails.
+ *
+ * @private
+ *
+ * @class
+ * @param {RecordingOptions} options Configuration object.
+ * @param {string} options.mode Either `record` or `replay`.
+ * @param {string} options.path The path of the fixture file.
+ */
+export class Recorder {
+  mode: RecordingMode;
+  path: string;
+  private interactions: Interaction[] = [];
+  private replays = new Map<string, Interaction[]>();
+  constructor(options: RecordingOptions) {
+    if (options.mode !== 'record' && options.mode !== 'replay') {
+      throw new Error(`Invalid recording mode "${options.mode}".`);
+    }
+    this.mode = options.mode;
+    this.path = options.path;
+
+    if (this.mode === 'replay') {
+      let recording: Recording;
+      try {
+        recording = JSON.parse(fs.readFileSync(this.path, 'utf8'));
+      } catch (e) {
+        throw new Error(`Could not read the recording ${this.path}: ${e}`);
+      }
+      recording.interactions.forEach(interaction => {
+        const key = toKey(interaction.request);
+        const queue = this.replays.get(key) || [];
+        queue.push(interaction);
+        this.replays.set(key, queue);
+      });
+    }
+  }
+
+  /**
+   * Record or replay a request.
+   *
+   * @param {object} reqOpts The request options.
+   * @param {string} baseUrl The base URL the `uri` of the request is relative
+   *     to.
+   * @param {function} send Sends the request, when recording.
+   * @param {function} callback The callback function.
+   */
+  request(
+    reqOpts: DecorateRequestOptions,
+    baseUrl: string,
+    send: (
+      reqOpts: DecorateRequestOptions,
+      callback: BodyResponseCallback
+    ) => void,
+    callback: BodyResponseCallback
+  ) {
+    const request: RecordedRequest = scrub(describeRequest(reqOpts, baseUrl));
+
+    if (this.mode === 'replay') {
+      const interaction = (this.replays.get(toKey(request)) || []).shift();
+      if (!interaction) {
+        callback(
+          new Error(
+            `No recorded response for ${request.method} ${request.uri} in ` +
+              `${this.path}: ${JSON.stringify(request)}`
+          )
+        );
+        return;
+      }
+      const err = interaction.error
+        ? Object.assign(new ApiError(interaction.error.message), {
+            code: interaction.error.code,
+            errors: interaction.error.errors,
+          })
+        : null;
+      setImmediate(() => callback(err, interaction.body));
+      return;
+    }
+
+    send(reqOpts, (err, body, res) => {
+      const interaction: Interaction = {request};
+      if (err) {
+        const apiError = err as ApiError;
+        interaction.error = scrub({
+          code: apiError.code,
+          message: apiError.message,
+          errors: apiError.errors,
+        });
+      }
+      if (body !== undefined) {
+        interaction.body = scrub(body);
+      }
+      this.interactions.push(interaction);
+      fs.writeFileSync(
+        this.path,
+        JSON.stringify({interactions: this.interactions}, null, 2) + '\n'
+      );
+      callback(err, body, res);
+    });
+  }
+}
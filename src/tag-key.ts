@@ -0,0 +1,55 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Resource} from '.';
+import {
+  TagOperationCallback,
+  TagOperationResponse,
+  TagServiceObject,
+} from './tag';
+
+export type TagKeyOperationResponse = TagOperationResponse<TagKey>;
+export type TagKeyOperationCallback = TagOperationCallback<TagKey>;
+
+/**
+ * A TagKey object allows you to interact with a tag key. Tag keys hold the
+ * {@link TagValue}s that can be bound to resources.
+ *
+ * @see [Creating and managing tags]{@link https://cloud.google.com/resource-manager/docs/tags/tags-creating-and-managing}
+ * @see [TagKey Resource]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagKeys#TagKey}
+ *
+ * @class
+ * @extends TagServiceObject
+ * @param {Resource} resource {@link Resource} object this tag key belongs to.
+ * @param {string} id The tag key's numeric ID.
+ *
+ * @example
+ * const {Resource} = require('@google-cloud/resource');
+ * const resource = new Resource();
+ * const tagKey = resource.tagKey('1234567890');
+ */
+class TagKey extends TagServiceObject<TagKey> {
+  constructor(resource: Resource, id: string) {
+    super(resource, 'tagKeys', id);
+  }
+}
+
+/**
+ * Reference to the {@link TagKey} class.
+ * @name module:@google-cloud/resource.TagKey
+ * @see TagKey
+ */
+export {TagKey};
@@ -0,0 +1,56 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Resource} from '.';
+import {
+  TagOperationCallback,
+  TagOperationResponse,
+  TagServiceObject,
+} from './tag';
+
+export type TagValueOperationResponse = TagOperationResponse<TagValue>;
+export type TagValueOperationCallback = TagOperationCallback<TagValue>;
+
+/**
+ * A TagValue object allows you to interact with a tag value. Tag values belong
+ * to a {@link TagKey} and can be bound to projects with
+ * {@link Project#bindTag}.
+ *
+ * @see [Creating and managing tags]{@link https://cloud.google.com/resource-manager/docs/tags/tags-creating-and-managing}
+ * @see [TagValue Resource]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagValues#TagValue}
+ *
+ * @class
+ * @extends TagServiceObject
+ * @param {Resource} resource {@link Resource} object this tag value belongs to.
+ * @param {string} id The tag value's numeric ID.
+ *
+ * @example
+ * const {Resource} = require('@google-cloud/resource');
+ * const resource = new Resource();
+ * const tagValue = resource.tagValue('1234567890');
+ */
+class TagValue extends TagServiceObject<TagValue> {
+  constructor(resource: Resource, id: string) {
+    super(resource, 'tagValues', id);
+  }
+}
+
+/**
+ * Reference to the {@link TagValue} class.
+ * @name module:@google-cloud/resource.TagValue
+ * @see TagValue
+ */
+export {TagValue};
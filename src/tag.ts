@@ -0,0 +1,214 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Metadata, Operation, ServiceObjectConfig} from '@google-cloud/common';
+import {promisifyAll} from '@google-cloud/promisify';
+
+import {Resource} from '.';
+import {IamServiceObject} from './iam';
+
+export type TagCollection = 'tagKeys' | 'tagValues';
+export type TagOperationResponse<T> = [Operation<T>, Metadata];
+export interface TagOperationCallback<T> {
+  (
+    err: Error | null,
+    operation?: Operation<T> | null,
+    apiResponse?: Metadata
+  ): void;
+}
+
+/*! Developer Documentation
+ *
+ * Tags are deleted through a long-running operation, so `delete` returns an
+ * `Operation` instead of the response type `ServiceObject` declares for it.
+ */
+const TagBaseServiceObject = IamServiceObject as new (
+  config: ServiceObjectConfig
+) => Omit<IamServiceObject<Metadata>, 'delete'>;
+
+/**
+ * The methods shared by {@link TagKey} and {@link TagValue}, which are
+ * managed the same way through the v3 API.
+ *
+ * @see [Creating and managing tags]{@link https://cloud.google.com/resource-manager/docs/tags/tags-creating-and-managing}
+ *
+ * @class
+ * @extends IamServiceObject
+ * @param {Resource} resource {@link Resource} object the tag belongs to.
+ * @param {string} collection Either `tagKeys` or `tagValues`.
+ * @param {string} id The tag's numeric ID.
+ */
+class TagServiceObject<T> extends TagBaseServiceObject {
+  resource: Resource;
+  constructor(resource: Resource, collection: TagCollection, id: string) {
+    const methods = {
+      /**
+       * Check if the tag exists.
+       *
+       * @method TagServiceObject#exists
+       * @param {function} callback The callback function.
+       * @param {?error} callback.err An error returned while making this
+       *     request.
+       * @param {boolean} callback.exists Whether the tag exists or not.
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const tagKey = resource.tagKey('1234567890');
+       *
+       * tagKey.exists((err, exists) => {});
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * tagKey.exists().then((data) => {
+       *   const exists = data[0];
+       * });
+       */
+      exists: true,
+
+      /**
+       * Get a tag if it exists.
+       *
+       * @method TagServiceObject#get
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const tagKey = resource.tagKey('1234567890');
+       *
+       * tagKey.get((err, tagKey, apiResponse) => {
+       *   // `tagKey.metadata` has been populated.
+       * });
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * tagKey.get().then((data) => {
+       *   const tagKey = data[0];
+       *   const apiResponse = data[1];
+       * });
+       */
+      get: true,
+
+      /**
+       * Get the metadata for the tag.
+       *
+       * @see [tagKeys: get API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagKeys/get}
+       * @see [tagValues: get API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagValues/get}
+       *
+       * @method TagServiceObject#getMetadata
+       * @param {function} [callback] The callback function.
+       * @param {?error} callback.err An error returned while making this
+       *     request.
+       * @param {?object} callback.metadata - Metadata of the tag from the API.
+       * @param {object} callback.apiResponse - Raw API response.
+       *
+       * @example
+       * const {Resource} = require('@google-cloud/resource');
+       * const resource = new Resource();
+       * const tagKey = resource.tagKey('1234567890');
+       *
+       * tagKey.getMetadata((err, metadata, apiResponse) => {});
+       *
+       * //-
+       * // If the callback is omitted, we'll return a Promise.
+       * //-
+       * tagKey.getMetadata().then((data) => {
+       *   const metadata = data[0];
+       *   const apiResponse = data[1];
+       * });
+       */
+      getMetadata: true,
+    };
+
+    super({
+      parent: resource,
+      baseUrl: `${resource.getBaseUrl_('v3')}/${collection}`,
+      /**
+       * @name TagServiceObject#id
+       * @type {string}
+       */
+      id: id.replace(new RegExp(`^${collection}/`), ''),
+      methods,
+    });
+
+    this.resource = resource;
+  }
+
+  delete(): Promise<TagOperationResponse<T>>;
+  delete(callback: TagOperationCallback<T>): void;
+  /**
+   * Delete the tag. A tag key must not have any tag values, and a tag value
+   * must not be bound to any resource.
+   *
+   * @see [tagKeys: delete API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagKeys/delete}
+   * @see [tagValues: delete API Documentation]{@link https://cloud.google.com/resource-manager/reference/rest/v3/tagValues/delete}
+   *
+   * @param {function} [callback] Callback function.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {Operation} callback.operation The operation deleting the tag.
+   * @param {object} callback.apiResponse The full API response.
+   * @returns {Promise}
+   *
+   * @example
+   * const {Resource} = require('@google-cloud/resource');
+   * const resource = new Resource();
+   * const tagKey = resource.tagKey('1234567890');
+   *
+   * tagKey.delete((err, operation, apiResponse) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   operation
+   *     .on('error', err => {})
+   *     .on('complete', () => {
+   *       // The tag key was deleted!
+   *     });
+   * });
+   *
+   * //-
+   * // If the callback is omitted, we'll return a Promise.
+   * //-
+   * tagKey.delete().then((data) => {
+   *   const operation = data[0];
+   *   return operation.promise();
+   * });
+   */
+  delete(
+    callback?: TagOperationCallback<T>
+  ): void | Promise<TagOperationResponse<T>> {
+    this.request(
+      {
+        method: 'DELETE',
+        uri: '',
+      },
+      (err, resp) => {
+        this.resource.handleOperationV3_<T>(err, resp, callback!);
+      }
+    );
+  }
+}
+
+/*! Developer Documentation
+ *
+ * All async methods (except for streams) will return a Promise in the event
+ * that a callback is omitted.
+ */
+promisifyAll(TagServiceObject);
+
+export {TagServiceObject};
@@ -0,0 +1,170 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Policy} from './project';
+
+export interface Labels {
+  [key: string]: string;
+}
+
+export const LABEL_KEY_REGEX = /^[a-z][a-z0-9_-]{0,62}$/;
+export const LABEL_VALUE_REGEX = /^[a-z0-9_-]{0,63}$/;
+export const MAX_LABELS = 64;
+export const CONDITIONAL_POLICY_VERSION = 3;
+export const PROJECT_ID_REGEX = /^[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+
+const RESTRICTED_PROJECT_ID_STRINGS = ['google', 'null', 'undefined', 'ssl'];
+const PROJECT_NAME_REGEX = /^[A-Za-z0-9'" !-]{4,30}$/;
+
+/**
+ * Check labels against the requirements of the API: at most 64 labels, keys
+ * of 1 to 63 lowercase letters, digits, `_` and `-` starting with a letter,
+ * and values of at most 63 of the same characters.
+ *
+ * @see [Requirements for labels]{@link https://cloud.google.com/resource-manager/docs/creating-managing-labels#requirements}
+ *
+ * @private
+ *
+ * @throws {Error} If the labels are invalid.
+ *
+ * @param {object} labels The labels to check.
+ */
+export function validateLabels(labels: Labels) {
+  const keys = Object.keys(labels);
+  if (keys.length > MAX_LABELS) {
+    throw new Error(
+      `A project can have at most ${MAX_LABELS} labels, got ${keys.length}.`
+    );
+  }
+  for (const key of keys) {
+    if (!LABEL_KEY_REGEX.test(key)) {
+      throw new Error(`Invalid label key "${key}".`);
+    }
+    const value = labels[key];
+    if (typeof value !== 'string' || !LABEL_VALUE_REGEX.test(value)) {
+      throw new Error(`Invalid value "${value}" for label "${key}".`);
+    }
+  }
+}
+
+/**
+ * Check a project ID against the requirements of the API: 6 to 30 lowercase
+ * letters, digits and hyphens, starting with a letter, not ending with a
+ * hyphen and not containing a restricted string such as `google`.
+ *
+ * @see [Creating a project]{@link https://cloud.google.com/resource-manager/docs/creating-managing-projects#before_you_begin}
+ *
+ * @private
+ *
+ * @throws {Error} If the project ID is invalid, describing why.
+ *
+ * @param {string} id The project ID to check.
+ */
+export function validateProjectId(id: string) {
+  const fail = (reason: string) => {
+    throw new Error(`Invalid project ID "${id}": ${reason}.`);
+  };
+  if (typeof id !== 'string' || id.length < 6 || id.length > 30) {
+    fail('it must be 6 to 30 characters long');
+  }
+  if (!/^[a-z]/.test(id)) {
+    fail('it must start with a lowercase letter');
+  }
+  if (!/^[a-z0-9-]*$/.test(id)) {
+    fail('it can only contain lowercase letters, digits and hyphens');
+  }
+  if (id.endsWith('-')) {
+    fail('it cannot end with a hyphen');
+  }
+  RESTRICTED_PROJECT_ID_STRINGS.forEach(restricted => {
+    if (id.includes(restricted)) {
+      fail(`it cannot contain "${restricted}"`);
+    }
+  });
+}
+
+/**
+ * Check the display name of a project against the requirements of the API: 4
+ * to 30 letters, digits, spaces, hyphens, quotes and exclamation points.
+ *
+ * @see [Project Resource]{@link https://cloud.google.com/resource-manager/reference/rest/v1/projects#Project}
+ *
+ * @private
+ *
+ * @throws {Error} If the name is invalid, describing why.
+ *
+ * @param {string} name The display name to check.
+ */
+export function validateProjectName(name: string) {
+  if (typeof name !== 'string' || name.length < 4 || name.length > 30) {
+    throw new Error(
+      `Invalid project name "${name}": it must be 4 to 30 characters long.`
+    );
+  }
+  if (!PROJECT_NAME_REGEX.test(name)) {
+    throw new Error(
+      `Invalid project name "${name}": it can only contain letters, digits, ` +
+        'spaces, hyphens, quotes and exclamation points.'
+    );
+  }
+}
+
+/**
+ * Check the fields of project metadata which the API constrains, when they
+ * are set: the display name and the labels.
+ *
+ * @private
+ *
+ * @throws {Error} If the name or the labels are invalid, describing why.
+ *
+ * @param {object} metadata The project metadata to check.
+ */
+export function validateProjectMetadata(metadata: {
+  name?: string;
+  labels?: Labels;
+}) {
+  if (metadata.name !== undefined) {
+    validateProjectName(metadata.name);
+  }
+  if (metadata.labels !== undefined) {
+    validateLabels(metadata.labels);
+  }
+}
+
+/**
+ * Check that an IAM policy can be written without losing information: a
+ * policy holding conditional role bindings must have version 3, as earlier
+ * versions have no conditions.
+ *
+ * @see [Policy versions]{@link https://cloud.google.com/iam/docs/policies#versions}
+ *
+ * @private
+ *
+ * @throws {Error} If the policy holds conditional bindings with another
+ *     version.
+ *
+ * @param {Policy} policy The policy to check.
+ */
+export function validatePolicy(policy: Policy) {
+  const conditional = (policy.bindings || []).filter(b => b.condition);
+  if (conditional.length > 0 && policy.version !== CONDITIONAL_POLICY_VERSION) {
+    throw new Error(
+      'A policy with conditional bindings must have version ' +
+        `${CONDITIONAL_POLICY_VERSION}, got ${policy.version}: conditions ` +
+        `on ${conditional.map(b => b.role).join(', ')} would be lost.`
+    );
+  }
+}
@@ -84,7 +84,7 @@ describe('Resource', () => {
       const [p, operation] = await project.create();
       testProjects.push(p);
       return new Promise((resolve, reject) => {
-        operation.on('error', reject).on('complete', resolve);
+        operation!.on('error', reject).on('complete', resolve);
       });
     });
 
@@ -98,7 +98,7 @@ describe('Resource', () => {
     it('should run operation as a promise', async () => {
       const project = resource.project(generateName('project'));
       const [, operation] = await project.create();
-      await operation.promise();
+      await operation!.promise();
       testProjects.push(project);
       const [metadata] = await project.getMetadata();
       assert.strictEqual(metadata.projectId, project.id);
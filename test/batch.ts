@@ -0,0 +1,196 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {describe, it, afterEach, beforeEach} from 'mocha';
+import {runBatch} from '../src/batch';
+
+describe('runBatch', () => {
+  const originalSetTimeout = global.setTimeout;
+  let delays: number[];
+
+  beforeEach(() => {
+    delays = [];
+    Object.assign(global, {
+      setTimeout(fn: Function, delay: number) {
+        delays.push(delay);
+        process.nextTick(fn);
+      },
+    });
+  });
+
+  afterEach(() => {
+    Object.assign(global, {setTimeout: originalSetTimeout});
+  });
+
+  function rateLimitError() {
+    return Object.assign(new Error('Quota exceeded.'), {code: 429});
+  }
+
+  it('should report the results in the order of the IDs', done => {
+    runBatch(
+      ['a', 'b', 'c'],
+      (id, callback) => {
+        setImmediate(() => {
+          if (id === 'b') {
+            callback(new Error(`${id} failed.`));
+            return;
+          }
+          callback(null, id.toUpperCase());
+        });
+      },
+      {},
+      (err, report) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(report!.succeeded, [
+          {id: 'a', result: 'A'},
+          {id: 'c', result: 'C'},
+        ]);
+        assert.strictEqual(report!.failed.length, 1);
+        assert.strictEqual(report!.failed[0].id, 'b');
+        assert.strictEqual(report!.failed[0].error.message, 'b failed.');
+        done();
+      }
+    );
+  });
+
+  it('should limit the number of tasks in flight', done => {
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    runBatch(
+      ids,
+      (id, callback) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        setImmediate(() => {
+          inFlight--;
+          callback(null);
+        });
+      },
+      {concurrency: 3},
+      (err, report) => {
+        assert.ifError(err);
+        assert.strictEqual(report!.succeeded.length, ids.length);
+        assert.strictEqual(maxInFlight, 3);
+        done();
+      }
+    );
+  });
+
+  it('should default to 5 tasks in flight', done => {
+    const started: string[] = [];
+    const callbacks: Function[] = [];
+    runBatch(
+      ['a', 'b', 'c', 'd', 'e', 'f'],
+      (id, callback) => {
+        started.push(id);
+        callbacks.push(callback);
+      },
+      {},
+      () => {}
+    );
+    assert.deepStrictEqual(started, ['a', 'b', 'c', 'd', 'e']);
+    callbacks[0](null);
+    assert.deepStrictEqual(started, ['a', 'b', 'c', 'd', 'e', 'f']);
+    done();
+  });
+
+  it('should retry rate limited tasks with a backoff', done => {
+    let attempts = 0;
+    runBatch(
+      ['a'],
+      (id, callback) => {
+        callback(++attempts < 3 ? rateLimitError() : null, attempts);
+      },
+      {retryDelayMs: 100},
+      (err, report) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(report!.succeeded, [{id: 'a', result: 3}]);
+        assert.deepStrictEqual(delays, [100, 200]);
+        done();
+      }
+    );
+  });
+
+  it('should give up on rate limited tasks after maxRetries', done => {
+    const error = rateLimitError();
+    let attempts = 0;
+    runBatch(
+      ['a'],
+      (id, callback) => {
+        attempts++;
+        callback(error);
+      },
+      {maxRetries: 2},
+      (err, report) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(report!.failed, [{id: 'a', error}]);
+        assert.strictEqual(attempts, 3);
+        assert.deepStrictEqual(delays, [1000, 2000]);
+        done();
+      }
+    );
+  });
+
+  it('should not retry other errors', done => {
+    let attempts = 0;
+    runBatch(
+      ['a'],
+      (id, callback) => {
+        attempts++;
+        callback(Object.assign(new Error('Not found.'), {code: 404}));
+      },
+      {},
+      (err, report) => {
+        assert.ifError(err);
+        assert.strictEqual(report!.failed.length, 1);
+        assert.strictEqual(attempts, 1);
+        done();
+      }
+    );
+  });
+
+  it('should report an empty batch', done => {
+    runBatch(
+      [],
+      () => {
+        throw new Error('Should not have been called.');
+      },
+      {},
+      (err, report) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(report, {succeeded: [], failed: []});
+        done();
+      }
+    );
+  });
+
+  it('should return an error for an invalid concurrency', done => {
+    runBatch(
+      ['a'],
+      () => {},
+      {concurrency: 0},
+      (err, report) => {
+        assert.strictEqual(
+          err!.message,
+          '`concurrency` must be a positive integer.'
+        );
+        assert.strictEqual(report, undefined);
+        done();
+      }
+    );
+  });
+});
@@ -0,0 +1,180 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {IamCondition} from '../src/condition';
+
+describe('IamCondition', () => {
+  const TIME = '2030-01-01T00:00:00Z';
+
+  describe('expiresAt', () => {
+    it('should build a time-bound condition', () => {
+      assert.deepStrictEqual(IamCondition.expiresAt(TIME), {
+        expression: 'request.time < timestamp("2030-01-01T00:00:00.000Z")',
+        title: 'Expires at 2030-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should accept a Date', () => {
+      const condition = IamCondition.expiresAt(new Date(TIME));
+      assert.strictEqual(
+        condition.expression,
+        'request.time < timestamp("2030-01-01T00:00:00.000Z")'
+      );
+    });
+
+    it('should use the given title and description', () => {
+      const condition = IamCondition.expiresAt(TIME, {
+        title: 'Contractor access',
+        description: 'Until the end of the contract.',
+      });
+      assert.strictEqual(condition.title, 'Contractor access');
+      assert.strictEqual(
+        condition.description,
+        'Until the end of the contract.'
+      );
+    });
+
+    it('should throw for an invalid time', () => {
+      assert.throws(() => {
+        IamCondition.expiresAt('tomorrow');
+      }, /Invalid time "tomorrow"\./);
+    });
+
+    it('should throw for an invalid title', () => {
+      assert.throws(() => {
+        IamCondition.expiresAt(TIME, {title: ''});
+      }, /Invalid condition title "": it must be 1 to 100 characters long\./);
+      assert.throws(() => {
+        IamCondition.expiresAt(TIME, {title: 't'.repeat(101)});
+      }, /Invalid condition title/);
+    });
+
+    it('should throw for a description which is too long', () => {
+      assert.throws(() => {
+        IamCondition.expiresAt(TIME, {description: 'd'.repeat(257)});
+      }, /Invalid condition description: it must be at most 256 characters/);
+    });
+  });
+
+  describe('startsAt', () => {
+    it('should build a time-bound condition', () => {
+      assert.deepStrictEqual(IamCondition.startsAt(TIME), {
+        expression: 'request.time >= timestamp("2030-01-01T00:00:00.000Z")',
+        title: 'Starts at 2030-01-01T00:00:00.000Z',
+      });
+    });
+  });
+
+  describe('between', () => {
+    it('should build a time window', () => {
+      const condition = IamCondition.between(TIME, '2030-02-01T00:00:00Z');
+      assert.strictEqual(
+        condition.expression,
+        'request.time >= timestamp("2030-01-01T00:00:00.000Z") && ' +
+          'request.time < timestamp("2030-02-01T00:00:00.000Z")'
+      );
+      assert.strictEqual(
+        condition.title,
+        'From 2030-01-01T00:00:00.000Z to 2030-02-01T00:00:00.000Z'
+      );
+    });
+
+    it('should throw if the end is not after the start', () => {
+      assert.throws(() => {
+        IamCondition.between(TIME, TIME);
+      }, /The end time .* must be after the start time/);
+    });
+  });
+
+  describe('resourceNamePrefix', () => {
+    it('should build a resource name condition', () => {
+      assert.deepStrictEqual(
+        IamCondition.resourceNamePrefix('projects/_/buckets/logs-'),
+        {
+          expression: 'resource.name.startsWith("projects/_/buckets/logs-")',
+          title: 'Resource name starts with projects/_/buckets/logs-',
+        }
+      );
+    });
+
+    it('should escape quotes', () => {
+      const condition = IamCondition.resourceNamePrefix('a"b\\c');
+      assert.strictEqual(
+        condition.expression,
+        'resource.name.startsWith("a\\"b\\\\c")'
+      );
+    });
+
+    it('should truncate the generated title', () => {
+      const condition = IamCondition.resourceNamePrefix('p'.repeat(200));
+      assert.strictEqual(condition.title.length, 100);
+    });
+
+    it('should throw for an empty prefix', () => {
+      assert.throws(() => {
+        IamCondition.resourceNamePrefix('');
+      }, /A resource name prefix is required\./);
+    });
+  });
+
+  describe('resourceType', () => {
+    it('should build a resource type condition', () => {
+      assert.deepStrictEqual(
+        IamCondition.resourceType('storage.googleapis.com/Bucket'),
+        {
+          expression: 'resource.type == "storage.googleapis.com/Bucket"',
+          title: 'Resource type is storage.googleapis.com/Bucket',
+        }
+      );
+    });
+
+    it('should throw for an empty type', () => {
+      assert.throws(() => {
+        IamCondition.resourceType('');
+      }, /A resource type is required\./);
+    });
+  });
+
+  describe('all', () => {
+    it('should combine conditions', () => {
+      const condition = IamCondition.all([
+        IamCondition.expiresAt(TIME),
+        IamCondition.resourceType('storage.googleapis.com/Bucket'),
+      ]);
+      assert.deepStrictEqual(condition, {
+        expression:
+          '(request.time < timestamp("2030-01-01T00:00:00.000Z")) && ' +
+          '(resource.type == "storage.googleapis.com/Bucket")',
+        title:
+          'Expires at 2030-01-01T00:00:00.000Z and ' +
+          'Resource type is storage.googleapis.com/Bucket',
+      });
+    });
+
+    it('should keep a single condition', () => {
+      const condition = IamCondition.expiresAt(TIME);
+      assert.deepStrictEqual(IamCondition.all([condition]), condition);
+    });
+
+    it('should throw without conditions', () => {
+      assert.throws(() => {
+        IamCondition.all([]);
+      }, /At least one condition is required\./);
+    });
+  });
+});
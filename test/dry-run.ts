@@ -0,0 +1,69 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {describeRequest} from '../src/dry-run';
+
+describe('describeRequest', () => {
+  const BASE_URL = 'https://cloudresourcemanager.googleapis.com/v1';
+
+  it('should resolve the URI against the base URL', () => {
+    assert.deepStrictEqual(
+      describeRequest({method: 'DELETE', uri: '/projects/p-1/'}, BASE_URL),
+      {method: 'DELETE', uri: `${BASE_URL}/projects/p-1`}
+    );
+  });
+
+  it('should join custom methods with a colon', () => {
+    const request = describeRequest(
+      {method: 'POST', uri: '/projects/p-1/:undelete'},
+      BASE_URL
+    );
+    assert.strictEqual(request.uri, `${BASE_URL}/projects/p-1:undelete`);
+  });
+
+  it('should keep an absolute URI', () => {
+    const uri = 'https://cloudresourcemanager.googleapis.com/v3/tagKeys';
+    assert.strictEqual(describeRequest({uri}, BASE_URL).uri, uri);
+  });
+
+  it('should default to GET', () => {
+    assert.strictEqual(describeRequest({uri: ''}, BASE_URL).method, 'GET');
+  });
+
+  it('should include the query string and the body', () => {
+    const request = describeRequest(
+      {
+        method: 'PATCH',
+        uri: '/projects/p-1',
+        qs: {updateMask: 'labels', pageToken: undefined},
+        json: {labels: {env: 'prod'}, etag: undefined},
+      },
+      BASE_URL
+    );
+    assert.deepStrictEqual(request.qs, {updateMask: 'labels'});
+    assert.deepStrictEqual(request.json, {labels: {env: 'prod'}});
+  });
+
+  it('should ignore a body which is not an object', () => {
+    const request = describeRequest(
+      {method: 'POST', uri: '/projects', json: true},
+      BASE_URL
+    );
+    assert.strictEqual(request.json, undefined);
+  });
+});
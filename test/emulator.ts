@@ -0,0 +1,315 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ApiError} from '@google-cloud/common';
+import * as assert from 'assert';
+import {describe, it, after, before, beforeEach} from 'mocha';
+
+import {
+  formatIamPolicyDiff,
+  IamCondition,
+  LifecycleState,
+  Project,
+  ProjectFilter,
+  Resource,
+} from '../src';
+import {ResourceManagerEmulator} from '../src/emulator';
+
+describe('ResourceManagerEmulator', () => {
+  const emulator = new ResourceManagerEmulator();
+  let resource: Resource;
+
+  before(async () => {
+    const [apiEndpoint] = await emulator.start();
+    resource = new Resource({apiEndpoint, projectId: 'emulator'});
+  });
+
+  after(async () => {
+    await emulator.stop();
+  });
+
+  beforeEach(() => {
+    emulator.reset();
+  });
+
+  async function createProject(id: string, labels?: {[key: string]: string}) {
+    const [, operation] = await resource.createProject(id, {labels});
+    const [project] = await operation!.waitForCompletion({pollIntervalMs: 1});
+    return project;
+  }
+
+  async function assertRejects(promise: Promise<unknown>, code: number) {
+    await assert.rejects(promise, (err: ApiError) => {
+      assert.strictEqual(err.code, code);
+      return true;
+    });
+  }
+
+  describe('start', () => {
+    it('should return an error if already started', done => {
+      emulator.start((err: Error | null) => {
+        assert.strictEqual(err!.message, 'The emulator is already started.');
+        done();
+      });
+    });
+  });
+
+  describe('projects', () => {
+    it('should create a project through an operation', async () => {
+      const project = await createProject('grape-spaceship-123', {env: 'dev'});
+      assert.strictEqual(project.id, 'grape-spaceship-123');
+
+      const [metadata] = await project.getMetadata();
+      assert.strictEqual(metadata.lifecycleState, LifecycleState.ACTIVE);
+      assert.deepStrictEqual(metadata.labels, {env: 'dev'});
+      assert.ok(/^\d+$/.test(metadata.projectNumber!));
+    });
+
+    it('should refuse duplicate and invalid project IDs', async () => {
+      await createProject('grape-spaceship-123');
+      await assertRejects(resource.createProject('grape-spaceship-123'), 409);
+      await assert.rejects(
+        resource.createProject('Grape'),
+        /Invalid project ID "Grape"/
+      );
+    });
+
+    it('should return 404 for unknown projects', async () => {
+      const [exists] = await resource.project('missing-project').exists();
+      assert.strictEqual(exists, false);
+    });
+
+    it('should page through projects', async () => {
+      for (const id of ['project-a1', 'project-b2', 'project-c3']) {
+        await createProject(id);
+      }
+
+      const [page, nextQuery] = (await resource.getProjects({
+        autoPaginate: false,
+        pageSize: 2,
+      })) as unknown as [Project[], {}];
+      assert.strictEqual(page.length, 2);
+      assert(nextQuery);
+
+      const ids = [];
+      for await (const project of resource.listProjectsAsync({pageSize: 2})) {
+        ids.push(project.id);
+      }
+      assert.deepStrictEqual(ids, ['project-a1', 'project-b2', 'project-c3']);
+    });
+
+    it('should filter projects', async () => {
+      await createProject('project-a1', {env: 'prod'});
+      await createProject('project-b2', {env: 'dev'});
+
+      const filter = ProjectFilter.label('env', 'prod').and(
+        ProjectFilter.id('project-*')
+      );
+      const [projects] = await resource.getProjects({filter});
+      assert.deepStrictEqual(
+        projects.map(project => project.id),
+        ['project-a1']
+      );
+
+      await assertRejects(resource.getProjects({filter: 'id:a OR id:b'}), 400);
+    });
+
+    it('should update a project', async () => {
+      const project = await createProject('grape-spaceship-123');
+      await project.setMetadata({name: 'Grape', labels: {env: 'prod'}});
+
+      const [metadata] = await project.getMetadata();
+      assert.strictEqual(metadata.name, 'Grape');
+      assert.deepStrictEqual(metadata.labels, {env: 'prod'});
+    });
+
+    it('should move projects through their lifecycle', async () => {
+      const project = await createProject('grape-spaceship-123');
+
+      await project.delete();
+      let [metadata] = await project.getMetadata();
+      assert.strictEqual(metadata.lifecycleState, 'DELETE_REQUESTED');
+      await assertRejects(project.delete(), 400);
+      await assertRejects(project.setMetadata({name: 'Grape'}), 400);
+
+      await project.restore();
+      [metadata] = await project.getMetadata();
+      assert.strictEqual(metadata.lifecycleState, 'ACTIVE');
+      await assertRejects(project.restore(), 400);
+    });
+  });
+
+  describe('IAM policies', () => {
+    it('should change the etag on every write', async () => {
+      const project = await createProject('grape-spaceship-123');
+      const [policy] = await project.getIamPolicy();
+      assert.deepStrictEqual(policy.bindings, []);
+
+      const bindings = [{role: 'roles/viewer', members: ['user:a@b.com']}];
+      const [updated] = await project.setIamPolicy({...policy, bindings});
+      assert.notStrictEqual(updated.etag, policy.etag);
+      assert.deepStrictEqual(updated.bindings, bindings);
+    });
+
+    it('should only write the fields of the update mask', async () => {
+      const project = await createProject('grape-spaceship-123');
+      await project.addIamBinding('roles/viewer', ['user:a@b.com']);
+
+      await project.enableAuditLogs('allServices', ['DATA_READ'], {
+        exemptedMembers: ['user:a@b.com'],
+      });
+      let [auditConfigs] = await project.getAuditConfigs();
+      assert.deepStrictEqual(auditConfigs, [
+        {
+          service: 'allServices',
+          auditLogConfigs: [
+            {logType: 'DATA_READ', exemptedMembers: ['user:a@b.com']},
+          ],
+        },
+      ]);
+      const [policy] = await project.getIamPolicy();
+      assert.strictEqual(policy.bindings.length, 1);
+
+      await project.disableAuditLogs('allServices', ['DATA_READ']);
+      [auditConfigs] = await project.getAuditConfigs();
+      assert.deepStrictEqual(auditConfigs, []);
+    });
+
+    it('should preview policy changes', async () => {
+      const project = await createProject('grape-spaceship-123');
+      await project.addIamBinding('roles/viewer', ['user:a@b.com']);
+      const [policy] = await project.getIamPolicy();
+      const wanted = {
+        ...policy,
+        bindings: [{role: 'roles/editor', members: ['user:a@b.com']}],
+      };
+
+      const [diff] = await project.previewIamPolicyChange(wanted);
+      assert.strictEqual(
+        formatIamPolicyDiff(diff),
+        [
+          'Bindings:',
+          '  roles/editor',
+          '    + user:a@b.com',
+          '  roles/viewer',
+          '    - user:a@b.com',
+        ].join('\n')
+      );
+
+      await project.setIamPolicy(wanted);
+      const [after] = await project.previewIamPolicyChange(wanted);
+      assert.strictEqual(after.hasChanges, false);
+    });
+
+    it('should keep conditions at version 3 only', async () => {
+      const project = await createProject('grape-spaceship-123');
+      const condition = IamCondition.expiresAt('2030-01-01T00:00:00Z');
+      await project.addIamBinding('roles/viewer', ['user:a@b.com'], condition);
+
+      const [policy] = await project.getIamPolicy();
+      assert.strictEqual(policy.version, 3);
+      assert.deepStrictEqual(policy.bindings[0].condition, condition);
+
+      const [downgraded] = await project.getIamPolicy({
+        requestedPolicyVersion: 1,
+      });
+      assert.strictEqual(downgraded.version, 1);
+      assert.strictEqual(downgraded.bindings[0].condition, undefined);
+      assert.ok(/^roles\/viewer_withcond_/.test(downgraded.bindings[0].role));
+
+      await assert.rejects(
+        project.setIamPolicy({...policy, version: 1}),
+        /must have version 3/
+      );
+    });
+
+    it('should refuse writes with a stale etag', async () => {
+      const project = await createProject('grape-spaceship-123');
+      const [policy] = await project.getIamPolicy();
+      await project.setIamPolicy(policy);
+      await assertRejects(project.setIamPolicy(policy), 409);
+    });
+  });
+
+  describe('dry run', () => {
+    let dryRunResource: Resource;
+
+    before(() => {
+      dryRunResource = new Resource({
+        apiEndpoint: resource.baseUrl.replace(/\/v1$/, ''),
+        projectId: 'emulator',
+        dryRun: true,
+      });
+    });
+
+    it('should not change anything', async () => {
+      await createProject('grape-spaceship-123');
+      const project = dryRunResource.project('grape-spaceship-123');
+
+      const [, operation, request] = await dryRunResource.createProject(
+        'grape-spaceship-456'
+      );
+      assert.strictEqual(operation, null);
+      assert.deepStrictEqual(request, {
+        dryRun: true,
+        method: 'POST',
+        uri: `${resource.baseUrl}/projects`,
+        json: {projectId: 'grape-spaceship-456'},
+      });
+      await project.setMetadata({name: 'Grape'});
+      await project.delete();
+      await assert.rejects(
+        project.restore(),
+        /cannot be restored while its lifecycle state is ACTIVE/
+      );
+      const [policy, setIamPolicyRequest] = await project.addIamBinding(
+        'roles/viewer',
+        ['user:a@b.com']
+      );
+      assert.deepStrictEqual(policy.bindings, [
+        {role: 'roles/viewer', members: ['user:a@b.com']},
+      ]);
+      assert.strictEqual(setIamPolicyRequest!.method, 'POST');
+
+      const [projects] = await resource.getProjects();
+      assert.deepStrictEqual(
+        projects.map(p => p.id),
+        ['grape-spaceship-123']
+      );
+      const [metadata] = await projects[0].getMetadata();
+      assert.notStrictEqual(metadata.name, 'Grape');
+      assert.strictEqual(metadata.lifecycleState, LifecycleState.ACTIVE);
+      const [current] = await projects[0].getIamPolicy();
+      assert.deepStrictEqual(current.bindings, []);
+    });
+
+    it('should send calls which opt out', async () => {
+      await createProject('grape-spaceship-123');
+      const project = dryRunResource.project('grape-spaceship-123');
+
+      await project.setMetadata({name: 'Grape'}, {dryRun: false});
+
+      const [metadata] = await resource
+        .project('grape-spaceship-123')
+        .getMetadata();
+      assert.strictEqual(metadata.name, 'Grape');
+    });
+  });
+
+  it('should return 404 for unsupported methods', async () => {
+    await assertRejects(resource.getOrganizations(), 404);
+  });
+});
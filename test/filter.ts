@@ -0,0 +1,183 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {LifecycleState} from '../src';
+import {ProjectFilter} from '../src/filter';
+
+describe('ProjectFilter', () => {
+  describe('displayName', () => {
+    it('should match a plain name', () => {
+      const filter = ProjectFilter.displayName('billing');
+      assert.strictEqual(filter.toString(), 'name:billing');
+    });
+
+    it('should quote and escape other names', () => {
+      const filter = ProjectFilter.displayName('My "big" project\\');
+      assert.strictEqual(filter.toString(), 'name:"My \\"big\\" project\\\\"');
+    });
+
+    it('should accept a trailing wildcard', () => {
+      const filter = ProjectFilter.displayName('billing-*');
+      assert.strictEqual(filter.toString(), 'name:billing-*');
+    });
+
+    it('should throw for an empty name', () => {
+      assert.throws(() => {
+        ProjectFilter.displayName('');
+      }, /A value is required to filter by name\./);
+    });
+
+    it('should throw for a wildcard which is not trailing', () => {
+      assert.throws(() => {
+        ProjectFilter.displayName('bill*ing');
+      }, /a wildcard may only end a value/);
+    });
+
+    it('should throw for a wildcard on a quoted name', () => {
+      assert.throws(() => {
+        ProjectFilter.displayName('My project*');
+      }, /wildcards can only be used with/);
+    });
+  });
+
+  describe('id', () => {
+    it('should match a project ID', () => {
+      const filter = ProjectFilter.id('grape-spaceship-123');
+      assert.strictEqual(filter.toString(), 'id:grape-spaceship-123');
+    });
+
+    it('should accept a prefix', () => {
+      assert.strictEqual(ProjectFilter.id('grape-*').toString(), 'id:grape-*');
+      assert.strictEqual(ProjectFilter.id('*').toString(), 'id:*');
+    });
+
+    it('should throw for an invalid project ID', () => {
+      assert.throws(() => {
+        ProjectFilter.id('Grape Spaceship');
+      }, /Invalid project ID "Grape Spaceship"\./);
+    });
+  });
+
+  describe('label', () => {
+    it('should match a label value', () => {
+      const filter = ProjectFilter.label('env', 'prod');
+      assert.strictEqual(filter.toString(), 'labels.env:prod');
+    });
+
+    it('should match any value by default', () => {
+      assert.strictEqual(ProjectFilter.label('env').toString(), 'labels.env:*');
+    });
+
+    it('should match an empty value', () => {
+      const filter = ProjectFilter.label('env', '');
+      assert.strictEqual(filter.toString(), 'labels.env:""');
+    });
+
+    it('should throw for an invalid key', () => {
+      assert.throws(() => {
+        ProjectFilter.label('label.env', 'prod');
+      }, /Invalid label key "label.env"\./);
+    });
+
+    it('should throw for an invalid value', () => {
+      assert.throws(() => {
+        ProjectFilter.label('env', 'Prod');
+      }, /Invalid value "Prod" for label "env"\./);
+    });
+  });
+
+  describe('lifecycleState', () => {
+    it('should accept a LifecycleState', () => {
+      const filter = ProjectFilter.lifecycleState(LifecycleState.ACTIVE);
+      assert.strictEqual(filter.toString(), 'lifecycleState:ACTIVE');
+    });
+
+    it('should accept the name of a state', () => {
+      const filter = ProjectFilter.lifecycleState('DELETE_REQUESTED');
+      assert.strictEqual(filter.toString(), 'lifecycleState:DELETE_REQUESTED');
+    });
+
+    it('should throw for an unknown state', () => {
+      assert.throws(() => {
+        ProjectFilter.lifecycleState('DELETED');
+      }, /Invalid lifecycle state "DELETED"\./);
+    });
+  });
+
+  describe('parent', () => {
+    it('should match the parent type and ID', () => {
+      const filter = ProjectFilter.parent({type: 'folder', id: '1234'});
+      assert.strictEqual(
+        filter.toString(),
+        'parent.type:folder AND parent.id:1234'
+      );
+    });
+
+    it('should match the parent type only', () => {
+      const filter = ProjectFilter.parent({type: 'organization'});
+      assert.strictEqual(filter.toString(), 'parent.type:organization');
+    });
+
+    it('should throw for an invalid type', () => {
+      assert.throws(() => {
+        ProjectFilter.parent({type: 'project' as 'folder', id: '1234'});
+      }, /Invalid parent type "project"\./);
+    });
+
+    it('should throw for an invalid ID', () => {
+      assert.throws(() => {
+        ProjectFilter.parent({type: 'organization', id: 'acme'});
+      }, /Invalid organization ID "acme"\./);
+    });
+  });
+
+  describe('and', () => {
+    it('should combine filters', () => {
+      const filter = ProjectFilter.label('env', 'prod').and(
+        ProjectFilter.label('team', 'billing'),
+        ProjectFilter.lifecycleState('ACTIVE')
+      );
+      assert.strictEqual(
+        filter.toString(),
+        'labels.env:prod AND labels.team:billing AND lifecycleState:ACTIVE'
+      );
+    });
+
+    it('should group OR filters', () => {
+      const filter = ProjectFilter.parent({type: 'folder', id: '1234'}).and(
+        ProjectFilter.id('a-*').or(ProjectFilter.id('b-*'))
+      );
+      assert.strictEqual(
+        filter.toString(),
+        'parent.type:folder AND parent.id:1234 AND (id:a-* OR id:b-*)'
+      );
+    });
+  });
+
+  describe('or', () => {
+    it('should group AND filters', () => {
+      const filter = ProjectFilter.parent({type: 'folder', id: '1234'}).or(
+        ProjectFilter.label('env', 'prod')
+      );
+      assert.strictEqual(
+        filter.toString(),
+        '(parent.type:folder AND parent.id:1234) OR labels.env:prod'
+      );
+    });
+  });
+});
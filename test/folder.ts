@@ -0,0 +1,203 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  DecorateRequestOptions,
+  Operation,
+  ServiceObject,
+  ServiceObjectConfig,
+  Metadata,
+} from '@google-cloud/common';
+import * as promisify from '@google-cloud/promisify';
+import * as assert from 'assert';
+import {describe, it, before, beforeEach} from 'mocha';
+import * as proxyquire from 'proxyquire';
+import {Resource} from '../src';
+
+let promisified = false;
+const fakePromisify = Object.assign({}, promisify, {
+  promisifyAll(Class: Function) {
+    if (Class.name === 'Folder') {
+      promisified = true;
+    }
+  },
+});
+
+class FakeServiceObject extends ServiceObject {
+  calledWith_: Array<{}>;
+  constructor(config: ServiceObjectConfig) {
+    super(config);
+    this.calledWith_ = [config];
+  }
+}
+
+describe('Folder', () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let Folder: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let folder: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let IamServiceObject: any;
+
+  const OPERATION = {};
+  const RESOURCE = {
+    getBaseUrl_(version: string) {
+      return `https://fake.endpoint/${version}`;
+    },
+    operationV3_() {
+      return OPERATION;
+    },
+    handleOperationV3_: Resource.prototype.handleOperationV3_,
+  };
+  const ID = '1234567890';
+
+  before(() => {
+    IamServiceObject = proxyquire('../src/iam.js', {
+      '@google-cloud/common': {
+        ServiceObject: FakeServiceObject,
+      },
+    }).IamServiceObject;
+    Folder = proxyquire('../src/folder.js', {
+      './iam': {IamServiceObject},
+      '@google-cloud/promisify': fakePromisify,
+    }).Folder;
+  });
+
+  beforeEach(() => {
+    folder = new Folder(RESOURCE, ID);
+  });
+
+  describe('instantiation', () => {
+    it('should inherit from ServiceObject', () => {
+      const calledWith = folder.calledWith_[0];
+
+      assert(folder instanceof ServiceObject);
+      assert(folder instanceof IamServiceObject);
+
+      assert.strictEqual(calledWith.parent, RESOURCE);
+      assert.strictEqual(
+        calledWith.baseUrl,
+        'https://fake.endpoint/v3/folders'
+      );
+      assert.strictEqual(calledWith.id, ID);
+      assert.deepStrictEqual(calledWith.methods, {
+        exists: true,
+        get: true,
+        getMetadata: true,
+      });
+    });
+
+    it('should accept a fully qualified name', () => {
+      const folder = new Folder(RESOURCE, `folders/${ID}`);
+      assert.strictEqual(folder.calledWith_[0].id, ID);
+    });
+
+    it('should localize the resource', () => {
+      assert.strictEqual(folder.resource, RESOURCE);
+    });
+
+    it('should promisify all the things', () => {
+      assert(promisified);
+    });
+  });
+
+  describe('delete', () => {
+    it('should make the correct API request', done => {
+      folder.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'DELETE');
+        assert.strictEqual(reqOpts.uri, '');
+        done();
+      };
+      folder.delete(assert.ifError);
+    });
+
+    it('should return an Operation', done => {
+      const apiResponse = {name: 'operations/df.1234'};
+      folder.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      folder.delete((err: Error, operation: Operation, resp: Metadata) => {
+        assert.ifError(err);
+        assert.strictEqual(operation, OPERATION);
+        assert.strictEqual(resp, apiResponse);
+        done();
+      });
+    });
+  });
+
+  describe('move', () => {
+    it('should make the correct API request', done => {
+      folder.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':move');
+        assert.deepStrictEqual(reqOpts.json, {
+          destinationParent: 'organizations/1234',
+        });
+        done();
+      };
+      folder.move({type: 'organization', id: '1234'}, assert.ifError);
+    });
+
+    it('should return an Operation', done => {
+      const apiResponse = {name: 'operations/mf.1234'};
+      folder.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      folder.move(
+        {type: 'folder', id: '1234'},
+        (err: Error, operation: Operation, resp: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(operation, OPERATION);
+          assert.strictEqual(resp, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('restore', () => {
+    it('should make the correct API request', done => {
+      folder.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':undelete');
+        done();
+      };
+      folder.restore(assert.ifError);
+    });
+  });
+
+  describe('setMetadata', () => {
+    it('should make the correct API request', done => {
+      folder.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'PATCH');
+        assert.strictEqual(reqOpts.uri, '');
+        assert.deepStrictEqual(reqOpts.qs, {updateMask: 'displayName'});
+        assert.deepStrictEqual(reqOpts.json, {displayName: 'New name'});
+        done();
+      };
+      folder.setMetadata(
+        {displayName: 'New name', ignored: true},
+        assert.ifError
+      );
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  DecorateRequestOptions,
+  Metadata,
+  ServiceObject,
+  ServiceObjectConfig,
+} from '@google-cloud/common';
+import * as promisify from '@google-cloud/promisify';
+import * as assert from 'assert';
+import {describe, it, before, beforeEach} from 'mocha';
+import * as proxyquire from 'proxyquire';
+import {Policy} from '../src/project';
+
+let promisified = false;
+const fakePromisify = Object.assign({}, promisify, {
+  promisifyAll(Class: Function) {
+    if (Class.name === 'IamServiceObject') {
+      promisified = true;
+    }
+  },
+});
+
+class FakeServiceObject extends ServiceObject {
+  calledWith_: Array<{}>;
+  constructor(config: ServiceObjectConfig) {
+    super(config);
+    this.calledWith_ = [config];
+  }
+}
+
+describe('IamServiceObject', () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let IamServiceObject: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let iamServiceObject: any;
+
+  const CONFIG = {
+    parent: {},
+    baseUrl: '/folders',
+    id: '1234567890',
+  };
+
+  before(() => {
+    IamServiceObject = proxyquire('../src/iam.js', {
+      '@google-cloud/common': {
+        ServiceObject: FakeServiceObject,
+      },
+      '@google-cloud/promisify': fakePromisify,
+    }).IamServiceObject;
+  });
+
+  beforeEach(() => {
+    iamServiceObject = new IamServiceObject(CONFIG);
+  });
+
+  describe('instantiation', () => {
+    it('should inherit from ServiceObject', () => {
+      const calledWith = iamServiceObject.calledWith_[0];
+      assert(iamServiceObject instanceof ServiceObject);
+      assert.strictEqual(calledWith, CONFIG);
+    });
+
+    it('should promisify all the things', () => {
+      assert(promisified);
+    });
+  });
+
+  describe('getIamPolicy', () => {
+    const error = new Error('Error.');
+    const policy = {version: 1, bindings: [], etag: 'BwWf8AIJOb4='};
+
+    it('should make the correct API request', done => {
+      const options = {requestedPolicyVersion: 1};
+      iamServiceObject.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':getIamPolicy');
+        assert.deepStrictEqual(reqOpts.body, {options});
+        done();
+      };
+      iamServiceObject.getIamPolicy(options, assert.ifError);
+    });
+
+    it('should request version 3 by default', done => {
+      iamServiceObject.request = (reqOpts: DecorateRequestOptions) => {
+        assert.deepStrictEqual(reqOpts.body, {
+          options: {requestedPolicyVersion: 3},
+        });
+        done();
+      };
+      iamServiceObject.getIamPolicy(assert.ifError);
+    });
+
+    it('should execute the callback with error & API response', done => {
+      iamServiceObject.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, policy);
+      };
+      iamServiceObject.getIamPolicy((err: Error, policy_: Policy) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(policy_, policy);
+        done();
+      });
+    });
+  });
+
+  describe('setIamPolicy', () => {
+    const policy = {version: 1, bindings: [], etag: 'BwWf8AIJOb4='};
+
+    it('should make the correct API request', done => {
+      iamServiceObject.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':setIamPolicy');
+        assert.deepStrictEqual(reqOpts.json, {policy});
+        done();
+      };
+      iamServiceObject.setIamPolicy(policy, assert.ifError);
+    });
+
+    it('should send the options', done => {
+      const options = {updateMask: 'bindings'};
+      iamServiceObject.request = (reqOpts: DecorateRequestOptions) => {
+        assert.deepStrictEqual(reqOpts.json, {policy, updateMask: 'bindings'});
+        done();
+      };
+      iamServiceObject.setIamPolicy(policy, options, assert.ifError);
+    });
+
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      iamServiceObject.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, policy);
+      };
+      iamServiceObject.setIamPolicy(policy, (err: Error, policy_: Policy) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(policy_, policy);
+        done();
+      });
+    });
+
+    it('should refuse conditional bindings below version 3', done => {
+      iamServiceObject.request = () => {
+        throw new Error('Should not have made a request.');
+      };
+      const conditionalPolicy = {
+        version: 1,
+        bindings: [
+          {
+            role: 'roles/viewer',
+            members: ['user:a@example.com'],
+            condition: {title: 'expires', expression: 'true'},
+          },
+        ],
+        etag: 'BwWf8AIJOb4=',
+      };
+      iamServiceObject.setIamPolicy(conditionalPolicy, (err: Error) => {
+        assert.ok(
+          /A policy with conditional bindings must have version 3, got 1/.test(
+            err.message
+          )
+        );
+        done();
+      });
+    });
+  });
+
+  describe('testIamPermissions', () => {
+    const PERMISSIONS = ['resourcemanager.folders.delete'];
+
+    it('should make the correct API request', done => {
+      iamServiceObject.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':testIamPermissions');
+        assert.deepStrictEqual(reqOpts.json, {permissions: PERMISSIONS});
+        done();
+      };
+      iamServiceObject.testIamPermissions(PERMISSIONS, assert.ifError);
+    });
+
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      iamServiceObject.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+      iamServiceObject.testIamPermissions(
+        PERMISSIONS,
+        (err: Error, permissions: string[], apiResponse_: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(permissions, null);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should return the granted permissions', done => {
+      iamServiceObject.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, {permissions: PERMISSIONS});
+      };
+      iamServiceObject.testIamPermissions(
+        PERMISSIONS,
+        (err: Error, permissions: string[]) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(permissions, PERMISSIONS);
+          done();
+        }
+      );
+    });
+
+    it('should default to no permissions', done => {
+      iamServiceObject.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, {});
+      };
+      iamServiceObject.testIamPermissions(
+        PERMISSIONS,
+        (err: Error, permissions: string[]) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(permissions, []);
+          done();
+        }
+      );
+    });
+  });
+});
@@ -23,11 +23,22 @@ import {
 import {MakeAuthenticatedRequestFactoryConfig} from '@google-cloud/common/build/src/util';
 import arrify = require('arrify');
 import * as assert from 'assert';
-import {describe, it, before, beforeEach} from 'mocha';
+import * as crypto from 'crypto';
+import {describe, it, afterEach, before, beforeEach} from 'mocha';
 import * as proxyquire from 'proxyquire';
 
 import * as root from '../src';
-import {Project} from '../src';
+import {BatchReport} from '../src/batch';
+import {ProjectFilter} from '../src/filter';
+import {
+  Folder,
+  GetProjectOptions,
+  Lien,
+  Organization,
+  Project,
+  TagKey,
+  TagValue,
+} from '../src';
 
 class FakeOperation {
   calledWith_: Array<{}>;
@@ -36,6 +47,34 @@ class FakeOperation {
   }
 }
 
+class FakeFolder {
+  calledWith_: Array<{}>;
+  constructor(...args: Array<{}>) {
+    this.calledWith_ = args;
+  }
+}
+
+class FakeLien {
+  calledWith_: Array<{}>;
+  constructor(...args: Array<{}>) {
+    this.calledWith_ = args;
+  }
+}
+
+class FakeOrganization {
+  calledWith_: Array<{}>;
+  constructor(...args: Array<{}>) {
+    this.calledWith_ = args;
+  }
+}
+
+class FakeProjectOperation {
+  calledWith_: Array<{}>;
+  constructor(...args: Array<{}>) {
+    this.calledWith_ = args;
+  }
+}
+
 class FakeProject {
   calledWith_: Array<{}>;
   constructor(...args: Array<{}>) {
@@ -43,6 +82,20 @@ class FakeProject {
   }
 }
 
+class FakeTagKey {
+  calledWith_: Array<{}>;
+  constructor(...args: Array<{}>) {
+    this.calledWith_ = args;
+  }
+}
+
+class FakeTagValue {
+  calledWith_: Array<{}>;
+  constructor(...args: Array<{}>) {
+    this.calledWith_ = args;
+  }
+}
+
 class FakeService {
   calledWith_: Array<{}>;
   constructor(...args: Array<{}>) {
@@ -60,7 +113,14 @@ const fakePaginator = {
       }
       methods = arrify(methods);
       assert.strictEqual(Class.name, 'Resource');
-      assert.deepStrictEqual(methods, ['getProjects']);
+      assert.deepStrictEqual(methods, [
+        'getFolders',
+        'getLiens',
+        'getOrganizations',
+        'getProjects',
+        'getTagKeys',
+        'getTagValues',
+      ]);
       extended = true;
     },
     streamify(methodName: string) {
@@ -77,7 +137,17 @@ const fakePromisify = {
       return;
     }
     promisified = true;
-    assert.deepStrictEqual(options.exclude, ['operation', 'project']);
+    assert.deepStrictEqual(options.exclude, [
+      'folder',
+      'lien',
+      'listProjectPagesAsync',
+      'listProjectsAsync',
+      'operation',
+      'organization',
+      'project',
+      'tagKey',
+      'tagValue',
+    ]);
   },
 };
 
@@ -92,6 +162,13 @@ const fakeUtil = Object.assign({}, util, {
 });
 const originalFakeUtil = Object.assign({}, fakeUtil);
 
+let randomBytesOverride: Function | null;
+const fakeCrypto = {
+  randomBytes(size: number) {
+    return (randomBytesOverride || crypto.randomBytes)(size);
+  },
+};
+
 describe('Resource', () => {
   const PROJECT_ID = 'test-project-id';
   let Resource: typeof root.Resource;
@@ -100,21 +177,41 @@ describe('Resource', () => {
 
   before(() => {
     Resource = proxyquire('../src', {
+      crypto: fakeCrypto,
       '@google-cloud/common': {
         Operation: FakeOperation,
         Service: FakeService,
       },
       '@google-cloud/promisify': fakePromisify,
       '@google-cloud/paginator': fakePaginator,
+      './folder': {
+        Folder: FakeFolder,
+      },
+      './lien': {
+        Lien: FakeLien,
+      },
+      './operation': {
+        ProjectOperation: FakeProjectOperation,
+      },
+      './organization': {
+        Organization: FakeOrganization,
+      },
       './project': {
         Project: FakeProject,
       },
+      './tag-key': {
+        TagKey: FakeTagKey,
+      },
+      './tag-value': {
+        TagValue: FakeTagValue,
+      },
     }).Resource;
   });
 
   beforeEach(() => {
     Object.assign(fakeUtil, originalFakeUtil);
     makeAuthenticatedRequestFactoryOverride = null;
+    randomBytesOverride = null;
 
     resource = new Resource({
       projectId: PROJECT_ID,
@@ -128,6 +225,9 @@ describe('Resource', () => {
 
     it('should streamify the correct methods', () => {
       assert.strictEqual(resource.getProjectsStream, 'getProjects');
+      assert.strictEqual(resource.getOrganizationsStream, 'getOrganizations');
+      assert.strictEqual(resource.getTagKeysStream, 'getTagKeys');
+      assert.strictEqual(resource.getTagValuesStream, 'getTagValues');
     });
 
     it('should promisify all tlhe things', () => {
@@ -158,6 +258,200 @@ describe('Resource', () => {
       });
       const calledWith = resource.calledWith_[0];
       assert.strictEqual(calledWith.baseUrl, `https://${apiEndpoint}/v1`);
+      assert.strictEqual(calledWith.customEndpoint, false);
+    });
+
+    it('should call an http:// apiEndpoint without credentials', () => {
+      const apiEndpoint = 'http://localhost:8085';
+      resource = new Resource({
+        apiEndpoint,
+      });
+      const calledWith = resource.calledWith_[0];
+      assert.strictEqual(calledWith.baseUrl, `${apiEndpoint}/v1`);
+      assert.strictEqual(calledWith.customEndpoint, true);
+    });
+
+    it('should not be in dry-run mode by default', () => {
+      assert.strictEqual(resource.dryRun, false);
+    });
+
+    it('should localize the dryRun option', () => {
+      resource = new Resource({dryRun: true});
+      assert.strictEqual(resource.dryRun, true);
+    });
+
+    describe('emulator', () => {
+      const EMULATOR_HOST = 'localhost:8085';
+
+      afterEach(() => {
+        delete process.env.RESOURCE_MANAGER_EMULATOR_HOST;
+      });
+
+      it('should use the emulator host from the environment', () => {
+        process.env.RESOURCE_MANAGER_EMULATOR_HOST = EMULATOR_HOST;
+        resource = new Resource();
+        const [config, options] = resource.calledWith_;
+        assert.strictEqual(config.baseUrl, `http://${EMULATOR_HOST}/v1`);
+        assert.strictEqual(config.customEndpoint, true);
+        assert.strictEqual(options.projectId, 'emulator-project');
+      });
+
+      it('should prefer the emulatorHost option', () => {
+        process.env.RESOURCE_MANAGER_EMULATOR_HOST = 'localhost:9000';
+        resource = new Resource({emulatorHost: `http://${EMULATOR_HOST}`});
+        const [config] = resource.calledWith_;
+        assert.strictEqual(config.baseUrl, `http://${EMULATOR_HOST}/v1`);
+      });
+
+      it('should keep a given project ID', () => {
+        resource = new Resource({
+          emulatorHost: EMULATOR_HOST,
+          projectId: 'grape-spaceship-123',
+        });
+        const [, options] = resource.calledWith_;
+        assert.strictEqual(options.projectId, 'grape-spaceship-123');
+      });
+    });
+  });
+
+  describe('createFolder', () => {
+    const DISPLAY_NAME = 'Engineering';
+    const OPTIONS = {parent: {type: 'organization', id: '1234'}};
+
+    beforeEach(() => {
+      resource.baseUrl = 'https://cloudresourcemanager.googleapis.com/v1';
+    });
+
+    it('should make the correct API request', done => {
+      resource.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(
+          reqOpts.uri,
+          'https://cloudresourcemanager.googleapis.com/v3/folders'
+        );
+        assert.deepStrictEqual(reqOpts.json, {
+          displayName: DISPLAY_NAME,
+          parent: 'organizations/1234',
+        });
+        done();
+      };
+
+      resource.createFolder(DISPLAY_NAME, OPTIONS, assert.ifError);
+    });
+
+    it('should execute callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+
+      resource.createFolder(
+        DISPLAY_NAME,
+        OPTIONS,
+        (err: Error, op: Operation, res: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(op, null);
+          assert.strictEqual(res, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should execute callback with Operation & API response', done => {
+      const apiResponse = {name: 'operations/cf.1234'};
+      const fakeOperation = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      resource.operationV3_ = (name: string) => {
+        assert.strictEqual(name, apiResponse.name);
+        return fakeOperation;
+      };
+
+      resource.createFolder(
+        DISPLAY_NAME,
+        OPTIONS,
+        (err: Error, op: Operation, res: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(op, fakeOperation);
+          assert.strictEqual(op.metadata, apiResponse);
+          assert.strictEqual(res, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('createLien', () => {
+    const OPTIONS = {
+      parent: {type: 'project', id: PROJECT_ID},
+      restrictions: ['resourcemanager.projects.delete'],
+      reason: 'Production project',
+      origin: 'platform-team',
+    };
+
+    it('should make the correct API request', done => {
+      resource.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, '/liens');
+        assert.deepStrictEqual(reqOpts.json, {
+          parent: `projects/${PROJECT_ID}`,
+          restrictions: OPTIONS.restrictions,
+          reason: OPTIONS.reason,
+          origin: OPTIONS.origin,
+        });
+        done();
+      };
+
+      resource.createLien(OPTIONS, assert.ifError);
+    });
+
+    it('should execute callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+
+      resource.createLien(OPTIONS, (err: Error, lien: Lien, res: Metadata) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(lien, null);
+        assert.strictEqual(res, apiResponse);
+        done();
+      });
+    });
+
+    it('should execute callback with Lien & API response', done => {
+      const apiResponse = {name: 'liens/1234abcd'};
+      const lien = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      resource.lien = (name: string) => {
+        assert.strictEqual(name, apiResponse.name);
+        return lien;
+      };
+
+      resource.createLien(OPTIONS, (err: Error, lien_: Lien, res: Metadata) => {
+        assert.ifError(err);
+        assert.strictEqual(lien_, lien);
+        assert.strictEqual(lien_.metadata, apiResponse);
+        assert.strictEqual(res, apiResponse);
+        done();
+      });
     });
   });
 
@@ -191,6 +485,81 @@ describe('Resource', () => {
       resource.createProject(NEW_PROJECT_ID, OPTIONS, assert.ifError);
     });
 
+    it('should reject an invalid project ID without a request', done => {
+      resource.request = () => {
+        throw new Error('Should not have made a request.');
+      };
+
+      resource.createProject('new_project', (err: Error, p: Project) => {
+        assert.ok(
+          /Invalid project ID "new_project": it can only contain/.test(
+            err.message
+          )
+        );
+        assert.strictEqual(p, null);
+        done();
+      });
+    });
+
+    it('should only describe the request in dry-run mode', done => {
+      const project = {};
+      resource.baseUrl = 'https://fake.endpoint/v1';
+      resource.request = () => {
+        throw new Error('Should not have made a request.');
+      };
+      resource.project = (id: string) => {
+        assert.strictEqual(id, NEW_PROJECT_ID);
+        return project;
+      };
+
+      resource.createProject(
+        NEW_PROJECT_ID,
+        Object.assign({dryRun: true}, OPTIONS),
+        (err: Error, p: Project, o: Operation, res: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(p, project);
+          assert.strictEqual(o, null);
+          assert.deepStrictEqual(res, {
+            dryRun: true,
+            method: 'POST',
+            uri: 'https://fake.endpoint/v1/projects',
+            json: EXPECTED_BODY,
+          });
+          done();
+        }
+      );
+    });
+
+    it('should reject an invalid name without a request', done => {
+      resource.request = () => {
+        throw new Error('Should not have made a request.');
+      };
+
+      resource.createProject(
+        NEW_PROJECT_ID,
+        {name: 'New_Project'},
+        (err: Error) => {
+          assert.ok(/Invalid project name "New_Project"/.test(err.message));
+          done();
+        }
+      );
+    });
+
+    it('should reject invalid labels in dry-run mode', done => {
+      resource.request = () => {
+        throw new Error('Should not have made a request.');
+      };
+
+      resource.createProject(
+        NEW_PROJECT_ID,
+        {labels: {Env: 'prod'}, dryRun: true},
+        (err: Error) => {
+          assert.strictEqual(err.message, 'Invalid label key "Env".');
+          done();
+        }
+      );
+    });
+
     describe('error', () => {
       const error = new Error('Error.');
       const apiResponse = {a: 'b', c: 'd'};
@@ -260,85 +629,838 @@ describe('Resource', () => {
     });
   });
 
-  describe('getProjects', () => {
-    it('should accept only a callback', done => {
+  describe('createTagKey', () => {
+    const SHORT_NAME = 'environment';
+    const OPTIONS = {
+      parent: {type: 'organization', id: '1234'},
+      description: 'Deployment environment',
+    };
+
+    beforeEach(() => {
+      resource.baseUrl = 'https://cloudresourcemanager.googleapis.com/v1';
+    });
+
+    it('should make the correct API request', done => {
       resource.request = (reqOpts: DecorateRequestOptions) => {
-        assert.deepStrictEqual(reqOpts.qs, {});
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(
+          reqOpts.uri,
+          'https://cloudresourcemanager.googleapis.com/v3/tagKeys'
+        );
+        assert.deepStrictEqual(reqOpts.json, {
+          description: OPTIONS.description,
+          parent: 'organizations/1234',
+          shortName: SHORT_NAME,
+        });
         done();
       };
-      resource.getProjects(assert.ifError);
+
+      resource.createTagKey(SHORT_NAME, OPTIONS, assert.ifError);
+    });
+
+    it('should execute callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+
+      resource.createTagKey(
+        SHORT_NAME,
+        OPTIONS,
+        (err: Error, op: Operation, res: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(op, null);
+          assert.strictEqual(res, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should execute callback with Operation & API response', done => {
+      const apiResponse = {name: 'operations/tkc.1234'};
+      const fakeOperation = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      resource.operationV3_ = (name: string) => {
+        assert.strictEqual(name, apiResponse.name);
+        return fakeOperation;
+      };
+
+      resource.createTagKey(
+        SHORT_NAME,
+        OPTIONS,
+        (err: Error, op: Operation, res: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(op, fakeOperation);
+          assert.strictEqual(op.metadata, apiResponse);
+          assert.strictEqual(res, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('createTagValue', () => {
+    const SHORT_NAME = 'production';
+
+    beforeEach(() => {
+      resource.baseUrl = 'https://cloudresourcemanager.googleapis.com/v1';
     });
 
     it('should make the correct API request', done => {
-      const query = {a: 'b', c: 'd'};
       resource.request = (reqOpts: DecorateRequestOptions) => {
-        assert.strictEqual(reqOpts.uri, '/projects');
-        assert.strictEqual(reqOpts.qs, query);
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(
+          reqOpts.uri,
+          'https://cloudresourcemanager.googleapis.com/v3/tagValues'
+        );
+        assert.deepStrictEqual(reqOpts.json, {
+          description: undefined,
+          parent: 'tagKeys/1234',
+          shortName: SHORT_NAME,
+        });
         done();
       };
-      resource.getProjects(query, assert.ifError);
+
+      resource.createTagValue(
+        SHORT_NAME,
+        {tagKey: 'tagKeys/1234'},
+        assert.ifError
+      );
     });
 
-    describe('error', () => {
+    it('should execute callback with error & API response', done => {
       const error = new Error('Error.');
-      const apiResponse = {a: 'b', c: 'd'};
+      const apiResponse = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
 
-      beforeEach(() => {
-        resource.request = (
-          reqOpts: DecorateRequestOptions,
-          callback: Function
-        ) => {
-          callback(error, apiResponse);
-        };
+      resource.createTagValue(
+        SHORT_NAME,
+        {tagKey: '1234'},
+        (err: Error, op: Operation, res: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(op, null);
+          assert.strictEqual(res, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should execute callback with Operation & API response', done => {
+      const apiResponse = {name: 'operations/tvc.1234'};
+      const fakeOperation = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      resource.operationV3_ = (name: string) => {
+        assert.strictEqual(name, apiResponse.name);
+        return fakeOperation;
+      };
+
+      resource.createTagValue(
+        SHORT_NAME,
+        {tagKey: '1234'},
+        (err: Error, op: Operation, res: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(op, fakeOperation);
+          assert.strictEqual(op.metadata, apiResponse);
+          assert.strictEqual(res, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('generateProjectId', () => {
+    it('should add a random suffix to the prefix', done => {
+      resource.generateProjectId('billing', (err: Error, id: string) => {
+        assert.ifError(err);
+        assert.ok(/^billing-[a-z0-9]{6}$/.test(id));
+        done();
       });
+    });
 
-      it('should execute callback with error & API response', done => {
-        resource.getProjects(
-          {},
-          (
-            err: Error,
-            projects: Project[],
-            nextQuery: {},
-            apiResp: Metadata
-          ) => {
-            assert.strictEqual(err, error);
-            assert.strictEqual(projects, null);
-            assert.strictEqual(nextQuery, null);
-            assert.strictEqual(apiResp, apiResponse);
+    it('should drop the random bytes which would bias the suffix', done => {
+      const bytes = [
+        [252, 0, 255, 1, 35, 36],
+        [251, 72, 253, 254, 255, 255],
+      ];
+      randomBytesOverride = (size: number) => {
+        assert.strictEqual(size, 6);
+        return Buffer.from(bytes.shift()!);
+      };
+      resource.generateProjectId('billing', (err: Error, id: string) => {
+        assert.ifError(err);
+        assert.strictEqual(id, 'billing-ab9a9a');
+        done();
+      });
+    });
+
+    it('should not repeat a trailing hyphen', done => {
+      resource.generateProjectId('billing-', (err: Error, id: string) => {
+        assert.ifError(err);
+        assert.ok(/^billing-[a-z0-9]{6}$/.test(id));
+        done();
+      });
+    });
+
+    it('should reject an invalid prefix', done => {
+      const prefixes = ['', '1billing', 'Billing', 'b'.repeat(24)];
+      let pending = prefixes.length;
+      prefixes.forEach(prefix => {
+        resource.generateProjectId(prefix, (err: Error, id: string) => {
+          assert.ok(/Invalid project ID prefix/.test(err.message));
+          assert.strictEqual(id, null);
+          if (--pending === 0) {
             done();
           }
-        );
+        });
       });
     });
 
-    describe('success', () => {
-      const apiResponse = {
-        projects: [{projectId: PROJECT_ID}],
+    it('should reject a prefix which makes an invalid ID', done => {
+      resource.generateProjectId('googler', (err: Error) => {
+        assert.ok(/it cannot contain "google"/.test(err.message));
+        done();
+      });
+    });
+
+    it('should not check availability by default', done => {
+      resource.project = () => {
+        throw new Error('Should not have checked availability.');
       };
 
-      beforeEach(() => {
-        resource.request = (
-          reqOpts: DecorateRequestOptions,
-          callback: Function
-        ) => {
-          callback(null, apiResponse);
-        };
-      });
+      resource.generateProjectId('billing', done);
+    });
 
-      it('should build a nextQuery if necessary', done => {
-        const nextPageToken = 'next-page-token';
-        const apiResponseWithNextPageToken = Object.assign({}, apiResponse, {
-          nextPageToken,
-        });
-        const expectedNextQuery = {
-          pageToken: nextPageToken,
-        };
+    describe('checkAvailability', () => {
+      const OPTIONS = {checkAvailability: true};
 
-        resource.request = (
-          reqOpts: DecorateRequestOptions,
-          callback: Function
-        ) => {
-          callback(null, apiResponseWithNextPageToken);
+      function stubProjects(errors: Array<Error | null>) {
+        const checked: string[] = [];
+        resource.project = (id: string) => {
+          checked.push(id);
+          return {
+            getMetadata(callback: Function) {
+              callback(errors.shift());
+            },
+          };
+        };
+        return checked;
+      }
+
+      it('should return an ID with no project', done => {
+        const checked = stubProjects([
+          Object.assign(new Error('Not found.'), {code: 404}),
+        ]);
+
+        resource.generateProjectId(
+          'billing',
+          OPTIONS,
+          (err: Error, id: string) => {
+            assert.ifError(err);
+            assert.deepStrictEqual(checked, [id]);
+            done();
+          }
+        );
+      });
+
+      it('should generate another ID after a 403', done => {
+        const checked = stubProjects([
+          Object.assign(new Error('Forbidden.'), {code: 403}),
+          Object.assign(new Error('Not found.'), {code: 404}),
+        ]);
+
+        resource.generateProjectId(
+          'billing',
+          OPTIONS,
+          (err: Error, id: string) => {
+            assert.ifError(err);
+            assert.strictEqual(checked.length, 2);
+            assert.strictEqual(checked[1], id);
+            done();
+          }
+        );
+      });
+
+      it('should give up after maxAttempts of 403s', done => {
+        const forbidden = () =>
+          Object.assign(new Error('Forbidden.'), {code: 403});
+        const checked = stubProjects([forbidden(), forbidden()]);
+
+        resource.generateProjectId(
+          'billing',
+          {checkAvailability: true, maxAttempts: 2},
+          (err: Error, id: string) => {
+            assert.strictEqual(
+              err.message,
+              'Could not generate an available project ID after 2 attempts.'
+            );
+            assert.strictEqual(id, null);
+            assert.strictEqual(checked.length, 2);
+            done();
+          }
+        );
+      });
+
+      it('should return any other error', done => {
+        const error = Object.assign(new Error('Error.'), {code: 500});
+        stubProjects([error]);
+
+        resource.generateProjectId(
+          'billing',
+          OPTIONS,
+          (err: Error, id: string) => {
+            assert.strictEqual(err, error);
+            assert.strictEqual(id, null);
+            done();
+          }
+        );
+      });
+
+      it('should retry while the ID is taken', done => {
+        const checked = stubProjects([
+          null,
+          null,
+          Object.assign(new Error('Not found.'), {code: 404}),
+        ]);
+
+        resource.generateProjectId(
+          'billing',
+          OPTIONS,
+          (err: Error, id: string) => {
+            assert.ifError(err);
+            assert.strictEqual(checked.length, 3);
+            assert.strictEqual(checked[2], id);
+            done();
+          }
+        );
+      });
+
+      it('should give up after maxAttempts', done => {
+        const checked = stubProjects([null, null, null]);
+
+        resource.generateProjectId(
+          'billing',
+          {checkAvailability: true, maxAttempts: 2},
+          (err: Error, id: string) => {
+            assert.strictEqual(
+              err.message,
+              'Could not generate an available project ID after 2 attempts.'
+            );
+            assert.strictEqual(id, null);
+            assert.strictEqual(checked.length, 2);
+            done();
+          }
+        );
+      });
+
+      it('should return other errors', done => {
+        const error = Object.assign(new Error('Error.'), {code: 500});
+        stubProjects([error]);
+
+        resource.generateProjectId('billing', OPTIONS, (err: Error) => {
+          assert.strictEqual(err, error);
+          done();
+        });
+      });
+    });
+  });
+
+  describe('getFolders', () => {
+    const PARENT = {type: 'folder', id: '1234'};
+
+    beforeEach(() => {
+      resource.baseUrl = 'https://cloudresourcemanager.googleapis.com/v1';
+    });
+
+    it('should make the correct API request', done => {
+      const query = {
+        autoPaginate: false,
+        pageSize: 10,
+        pageToken: 'token',
+        parent: PARENT,
+        showDeleted: true,
+      };
+      resource.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(
+          reqOpts.uri,
+          'https://cloudresourcemanager.googleapis.com/v3/folders'
+        );
+        assert.deepStrictEqual(reqOpts.qs, {
+          pageSize: query.pageSize,
+          pageToken: query.pageToken,
+          parent: 'folders/1234',
+          showDeleted: true,
+        });
+        done();
+      };
+      resource.getFolders(query, assert.ifError);
+    });
+
+    it('should execute callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+
+      resource.getFolders(
+        {parent: PARENT},
+        (err: Error, folders: Folder[], nextQuery: {}, apiResp: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(folders, null);
+          assert.strictEqual(nextQuery, null);
+          assert.strictEqual(apiResp, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should build a nextQuery if necessary', done => {
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, {nextPageToken: 'next-page-token'});
+      };
+
+      resource.getFolders(
+        {parent: PARENT},
+        (err: Error, folders: Folder[], nextQuery: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(folders, []);
+          assert.deepStrictEqual(nextQuery, {
+            parent: PARENT,
+            pageToken: 'next-page-token',
+          });
+          done();
+        }
+      );
+    });
+
+    it('should execute callback with Folders & API resp', done => {
+      const apiResponse = {folders: [{name: 'folders/5678'}]};
+      const folder = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      resource.folder = (name: string) => {
+        assert.strictEqual(name, apiResponse.folders[0].name);
+        return folder;
+      };
+
+      resource.getFolders(
+        {parent: PARENT},
+        (err: Error, folders: Folder[], nextQuery: {}, apiResp: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(folders[0], folder);
+          assert.strictEqual(folders[0].metadata, apiResponse.folders[0]);
+          assert.strictEqual(apiResp, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('getLiens', () => {
+    const PARENT = {type: 'project', id: PROJECT_ID};
+
+    it('should make the correct API request', done => {
+      const query = {
+        autoPaginate: false,
+        pageSize: 10,
+        pageToken: 'token',
+        parent: PARENT,
+      };
+      resource.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.uri, '/liens');
+        assert.deepStrictEqual(reqOpts.qs, {
+          pageSize: query.pageSize,
+          pageToken: query.pageToken,
+          parent: `projects/${PROJECT_ID}`,
+        });
+        done();
+      };
+      resource.getLiens(query, assert.ifError);
+    });
+
+    it('should execute callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+
+      resource.getLiens(
+        {parent: PARENT},
+        (err: Error, liens: Lien[], nextQuery: {}, apiResp: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(liens, null);
+          assert.strictEqual(nextQuery, null);
+          assert.strictEqual(apiResp, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should build a nextQuery if necessary', done => {
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, {nextPageToken: 'next-page-token'});
+      };
+
+      resource.getLiens(
+        {parent: PARENT},
+        (err: Error, liens: Lien[], nextQuery: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(liens, []);
+          assert.deepStrictEqual(nextQuery, {
+            parent: PARENT,
+            pageToken: 'next-page-token',
+          });
+          done();
+        }
+      );
+    });
+
+    it('should execute callback with Liens & API resp', done => {
+      const apiResponse = {liens: [{name: 'liens/1234abcd'}]};
+      const lien = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      resource.lien = (name: string) => {
+        assert.strictEqual(name, apiResponse.liens[0].name);
+        return lien;
+      };
+
+      resource.getLiens(
+        {parent: PARENT},
+        (err: Error, liens: Lien[], nextQuery: {}, apiResp: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(liens[0], lien);
+          assert.strictEqual(liens[0].metadata, apiResponse.liens[0]);
+          assert.strictEqual(apiResp, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('getOperation', () => {
+    const NAME = 'operations/cp.1234';
+
+    it('should get the metadata of the operation', done => {
+      resource.operation = (name: string) => {
+        assert.strictEqual(name, NAME);
+        return {
+          getMetadata() {
+            done();
+          },
+        };
+      };
+      resource.getOperation(NAME, assert.ifError);
+    });
+
+    it('should execute callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      resource.operation = () => {
+        return {
+          getMetadata(callback: Function) {
+            callback(error, apiResponse);
+          },
+        };
+      };
+      resource.getOperation(
+        NAME,
+        (err: Error, op: Operation, resp: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(op, null);
+          assert.strictEqual(resp, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should execute callback with the Operation & API response', done => {
+      const apiResponse = {name: NAME, done: false};
+      const fakeOperation = {
+        getMetadata(callback: Function) {
+          callback(null, apiResponse);
+        },
+      };
+      resource.operation = () => {
+        return fakeOperation;
+      };
+      resource.getOperation(
+        NAME,
+        (err: Error, op: Operation, resp: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(op, fakeOperation);
+          assert.strictEqual(resp, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('getOrganizations', () => {
+    it('should accept only a callback', done => {
+      resource.request = (reqOpts: DecorateRequestOptions) => {
+        assert.deepStrictEqual(reqOpts.json, {
+          filter: undefined,
+          pageSize: undefined,
+          pageToken: undefined,
+        });
+        done();
+      };
+      resource.getOrganizations(assert.ifError);
+    });
+
+    it('should make the correct API request', done => {
+      const query = {
+        autoPaginate: false,
+        filter: 'domain:example.com',
+        pageSize: 10,
+        pageToken: 'token',
+      };
+      resource.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, '/organizations:search');
+        assert.deepStrictEqual(reqOpts.json, {
+          filter: query.filter,
+          pageSize: query.pageSize,
+          pageToken: query.pageToken,
+        });
+        done();
+      };
+      resource.getOrganizations(query, assert.ifError);
+    });
+
+    describe('error', () => {
+      const error = new Error('Error.');
+      const apiResponse = {a: 'b', c: 'd'};
+
+      beforeEach(() => {
+        resource.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(error, apiResponse);
+        };
+      });
+
+      it('should execute callback with error & API response', done => {
+        resource.getOrganizations(
+          {},
+          (
+            err: Error,
+            organizations: Organization[],
+            nextQuery: {},
+            apiResp: Metadata
+          ) => {
+            assert.strictEqual(err, error);
+            assert.strictEqual(organizations, null);
+            assert.strictEqual(nextQuery, null);
+            assert.strictEqual(apiResp, apiResponse);
+            done();
+          }
+        );
+      });
+    });
+
+    describe('success', () => {
+      const apiResponse = {
+        organizations: [{name: 'organizations/1234'}],
+      };
+
+      beforeEach(() => {
+        resource.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(null, apiResponse);
+        };
+      });
+
+      it('should build a nextQuery if necessary', done => {
+        const nextPageToken = 'next-page-token';
+        const apiResponseWithNextPageToken = Object.assign({}, apiResponse, {
+          nextPageToken,
+        });
+
+        resource.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(null, apiResponseWithNextPageToken);
+        };
+
+        resource.getOrganizations(
+          {},
+          (err: Error, organizations: Organization[], nextQuery: {}) => {
+            assert.ifError(err);
+            assert.deepStrictEqual(nextQuery, {pageToken: nextPageToken});
+            done();
+          }
+        );
+      });
+
+      it('should execute callback with Organizations & API resp', done => {
+        const organization = {};
+
+        resource.organization = (name: string) => {
+          assert.strictEqual(name, apiResponse.organizations[0].name);
+          return organization;
+        };
+
+        resource.getOrganizations(
+          {},
+          (
+            err: Error,
+            organizations: Organization[],
+            nextQuery: {},
+            apiResp: Metadata
+          ) => {
+            assert.ifError(err);
+            assert.strictEqual(organizations[0], organization);
+            assert.strictEqual(
+              organizations[0].metadata,
+              apiResponse.organizations[0]
+            );
+            assert.strictEqual(apiResp, apiResponse);
+            done();
+          }
+        );
+      });
+    });
+  });
+
+  describe('getProjects', () => {
+    it('should accept only a callback', done => {
+      resource.request = (reqOpts: DecorateRequestOptions) => {
+        assert.deepStrictEqual(reqOpts.qs, {});
+        done();
+      };
+      resource.getProjects(assert.ifError);
+    });
+
+    it('should make the correct API request', done => {
+      const query = {a: 'b', c: 'd'};
+      resource.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.uri, '/projects');
+        assert.strictEqual(reqOpts.qs, query);
+        done();
+      };
+      resource.getProjects(query, assert.ifError);
+    });
+
+    it('should send a ProjectFilter as a string', done => {
+      const filter = ProjectFilter.label('env', 'prod');
+      const query = {filter, pageSize: 10};
+      resource.request = (reqOpts: DecorateRequestOptions) => {
+        assert.deepStrictEqual(reqOpts.qs, {
+          filter: 'labels.env:prod',
+          pageSize: 10,
+        });
+        assert.strictEqual(query.filter, filter);
+        done();
+      };
+      resource.getProjects(query, assert.ifError);
+    });
+
+    describe('error', () => {
+      const error = new Error('Error.');
+      const apiResponse = {a: 'b', c: 'd'};
+
+      beforeEach(() => {
+        resource.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(error, apiResponse);
+        };
+      });
+
+      it('should execute callback with error & API response', done => {
+        resource.getProjects(
+          {},
+          (
+            err: Error,
+            projects: Project[],
+            nextQuery: {},
+            apiResp: Metadata
+          ) => {
+            assert.strictEqual(err, error);
+            assert.strictEqual(projects, null);
+            assert.strictEqual(nextQuery, null);
+            assert.strictEqual(apiResp, apiResponse);
+            done();
+          }
+        );
+      });
+    });
+
+    describe('success', () => {
+      const apiResponse = {
+        projects: [{projectId: PROJECT_ID}],
+      };
+
+      beforeEach(() => {
+        resource.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(null, apiResponse);
+        };
+      });
+
+      it('should build a nextQuery if necessary', done => {
+        const nextPageToken = 'next-page-token';
+        const apiResponseWithNextPageToken = Object.assign({}, apiResponse, {
+          nextPageToken,
+        });
+        const expectedNextQuery = {
+          pageToken: nextPageToken,
+        };
+
+        resource.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(null, apiResponseWithNextPageToken);
         };
 
         resource.getProjects(
@@ -377,6 +1499,633 @@ describe('Resource', () => {
           }
         );
       });
+
+      it('should match lifecycle states returned by the API', done => {
+        resource.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(null, {
+            projects: [{projectId: PROJECT_ID, lifecycleState: 'ACTIVE'}],
+          });
+        };
+
+        resource.getProjects((err: Error, projects: Project[]) => {
+          assert.ifError(err);
+          assert.strictEqual(
+            projects[0].metadata.lifecycleState,
+            root.LifecycleState.ACTIVE
+          );
+          done();
+        });
+      });
+    });
+  });
+
+  describe('listProjectPagesAsync', () => {
+    let queries: GetProjectOptions[];
+
+    beforeEach(() => {
+      queries = [];
+      resource.getProjects = (query: GetProjectOptions, callback: Function) => {
+        queries.push(query);
+        const page = Number(query.pageToken || 0);
+        const nextQuery =
+          page < 2
+            ? Object.assign({}, query, {pageToken: `${page + 1}`})
+            : null;
+        callback(null, [`${page}-a`, `${page}-b`], nextQuery);
+      };
+    });
+
+    async function collect(options?: GetProjectOptions) {
+      const pages = [];
+      for await (const page of resource.listProjectPagesAsync(options)) {
+        pages.push(page);
+      }
+      return pages;
+    }
+
+    it('should page through all the projects', async () => {
+      const pages = await collect();
+      assert.deepStrictEqual(pages, [
+        ['0-a', '0-b'],
+        ['1-a', '1-b'],
+        ['2-a', '2-b'],
+      ]);
+      assert.deepStrictEqual(queries[0], {autoPaginate: false});
+      assert.strictEqual(queries[2].pageToken, '2');
+    });
+
+    it('should only request pages as they are reached', async () => {
+      const iterator = resource.listProjectPagesAsync()[Symbol.asyncIterator]();
+      await iterator.next();
+      assert.strictEqual(queries.length, 1);
+    });
+
+    it('should pass the options along', async () => {
+      const filter = 'name:billing';
+      await collect({filter, pageSize: 2, pageToken: '1'});
+      assert.deepStrictEqual(queries[0], {
+        autoPaginate: false,
+        filter,
+        pageSize: 2,
+        pageToken: '1',
+      });
+      assert.strictEqual(queries.length, 2);
+    });
+
+    it('should stop after maxResults projects', async () => {
+      const pages = await collect({maxResults: 3, maxApiCalls: 10});
+      assert.deepStrictEqual(pages, [['0-a', '0-b'], ['1-a']]);
+      assert.deepStrictEqual(queries[0], {autoPaginate: false, pageSize: 3});
+      assert.strictEqual(queries[1].pageSize, 1);
+    });
+
+    it('should skip empty pages', async () => {
+      resource.getProjects = (query: GetProjectOptions, callback: Function) => {
+        const nextQuery = query.pageToken ? null : {pageToken: 'next'};
+        callback(null, query.pageToken ? ['a'] : [], nextQuery);
+      };
+      assert.deepStrictEqual(await collect(), [['a']]);
+    });
+
+    it('should throw the request error', async () => {
+      const error = new Error('Error.');
+      resource.getProjects = (query: GetProjectOptions, callback: Function) => {
+        callback(error);
+      };
+      await assert.rejects(collect(), error);
+    });
+  });
+
+  describe('listProjectsAsync', () => {
+    it('should yield the projects of every page', async () => {
+      resource.listProjectPagesAsync = async function* (
+        options: GetProjectOptions
+      ) {
+        assert.deepStrictEqual(options, {pageSize: 2});
+        yield ['a', 'b'];
+        yield ['c'];
+      };
+      const projects = [];
+      for await (const project of resource.listProjectsAsync({pageSize: 2})) {
+        projects.push(project);
+      }
+      assert.deepStrictEqual(projects, ['a', 'b', 'c']);
+    });
+  });
+
+  describe('getTagKeys', () => {
+    const PARENT = {type: 'organization', id: '1234'};
+
+    beforeEach(() => {
+      resource.baseUrl = 'https://cloudresourcemanager.googleapis.com/v1';
+    });
+
+    it('should make the correct API request', done => {
+      const query = {
+        autoPaginate: false,
+        pageSize: 10,
+        pageToken: 'token',
+        parent: PARENT,
+      };
+      resource.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(
+          reqOpts.uri,
+          'https://cloudresourcemanager.googleapis.com/v3/tagKeys'
+        );
+        assert.deepStrictEqual(reqOpts.qs, {
+          pageSize: query.pageSize,
+          pageToken: query.pageToken,
+          parent: 'organizations/1234',
+        });
+        done();
+      };
+      resource.getTagKeys(query, assert.ifError);
+    });
+
+    it('should execute callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+
+      resource.getTagKeys(
+        {parent: PARENT},
+        (err: Error, tagKeys: TagKey[], nextQuery: {}, apiResp: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(tagKeys, null);
+          assert.strictEqual(nextQuery, null);
+          assert.strictEqual(apiResp, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should build a nextQuery if necessary', done => {
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, {nextPageToken: 'next-page-token'});
+      };
+
+      resource.getTagKeys(
+        {parent: PARENT},
+        (err: Error, tagKeys: TagKey[], nextQuery: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(tagKeys, []);
+          assert.deepStrictEqual(nextQuery, {
+            parent: PARENT,
+            pageToken: 'next-page-token',
+          });
+          done();
+        }
+      );
+    });
+
+    it('should execute callback with TagKeys & API resp', done => {
+      const apiResponse = {tagKeys: [{name: 'tagKeys/5678'}]};
+      const tagKey = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      resource.tagKey = (name: string) => {
+        assert.strictEqual(name, apiResponse.tagKeys[0].name);
+        return tagKey;
+      };
+
+      resource.getTagKeys(
+        {parent: PARENT},
+        (err: Error, tagKeys: TagKey[], nextQuery: {}, apiResp: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(tagKeys[0], tagKey);
+          assert.strictEqual(tagKeys[0].metadata, apiResponse.tagKeys[0]);
+          assert.strictEqual(apiResp, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('getTagValues', () => {
+    beforeEach(() => {
+      resource.baseUrl = 'https://cloudresourcemanager.googleapis.com/v1';
+    });
+
+    it('should make the correct API request', done => {
+      const query = {
+        autoPaginate: false,
+        pageSize: 10,
+        pageToken: 'token',
+        tagKey: '1234',
+      };
+      resource.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(
+          reqOpts.uri,
+          'https://cloudresourcemanager.googleapis.com/v3/tagValues'
+        );
+        assert.deepStrictEqual(reqOpts.qs, {
+          pageSize: query.pageSize,
+          pageToken: query.pageToken,
+          parent: 'tagKeys/1234',
+        });
+        done();
+      };
+      resource.getTagValues(query, assert.ifError);
+    });
+
+    it('should execute callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+
+      resource.getTagValues(
+        {tagKey: '1234'},
+        (
+          err: Error,
+          tagValues: TagValue[],
+          nextQuery: {},
+          apiResp: Metadata
+        ) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(tagValues, null);
+          assert.strictEqual(nextQuery, null);
+          assert.strictEqual(apiResp, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should build a nextQuery if necessary', done => {
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, {nextPageToken: 'next-page-token'});
+      };
+
+      resource.getTagValues(
+        {tagKey: '1234'},
+        (err: Error, tagValues: TagValue[], nextQuery: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(tagValues, []);
+          assert.deepStrictEqual(nextQuery, {
+            tagKey: '1234',
+            pageToken: 'next-page-token',
+          });
+          done();
+        }
+      );
+    });
+
+    it('should execute callback with TagValues & API resp', done => {
+      const apiResponse = {tagValues: [{name: 'tagValues/5678'}]};
+      const tagValue = {};
+      resource.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      resource.tagValue = (name: string) => {
+        assert.strictEqual(name, apiResponse.tagValues[0].name);
+        return tagValue;
+      };
+
+      resource.getTagValues(
+        {tagKey: '1234'},
+        (
+          err: Error,
+          tagValues: TagValue[],
+          nextQuery: {},
+          apiResp: Metadata
+        ) => {
+          assert.ifError(err);
+          assert.strictEqual(tagValues[0], tagValue);
+          assert.strictEqual(tagValues[0].metadata, apiResponse.tagValues[0]);
+          assert.strictEqual(apiResp, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('createProjects', () => {
+    it('should create every project', done => {
+      const specs = [
+        {projectId: 'project-a', name: 'A'},
+        {projectId: 'project-b', name: 'B'},
+      ];
+      resource.createProject = (
+        id: string,
+        options: {},
+        callback: Function
+      ) => {
+        assert.strictEqual(
+          options,
+          specs.find(s => s.projectId === id)
+        );
+        if (id === 'project-b') {
+          callback(new Error('Error.'));
+          return;
+        }
+        callback(null, {}, `operation-${id}`, {});
+      };
+      resource.createProjects(
+        specs,
+        {concurrency: 1},
+        (err: Error, report: BatchReport<string>) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(report.succeeded, [
+            {id: 'project-a', result: 'operation-project-a'},
+          ]);
+          assert.strictEqual(report.failed[0].id, 'project-b');
+          done();
+        }
+      );
+    });
+
+    it('should refuse duplicate project IDs', done => {
+      resource.createProject = () => {
+        throw new Error('Should not have created a project.');
+      };
+      resource.createProjects(
+        [{projectId: 'project-a'}, {projectId: 'project-a', name: 'A'}],
+        (err: Error) => {
+          assert.strictEqual(err.message, 'Duplicate project ID "project-a".');
+          done();
+        }
+      );
+    });
+  });
+
+  describe('deleteProjects', () => {
+    it('should delete every project', done => {
+      const deleted: string[] = [];
+      resource.project = (id: string) => {
+        return {
+          delete(callback: Function) {
+            deleted.push(id);
+            callback(null, {id});
+          },
+        };
+      };
+      resource.deleteProjects(
+        ['project-a', 'project-b'],
+        (err: Error, report: BatchReport<Metadata>) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(deleted, ['project-a', 'project-b']);
+          assert.deepStrictEqual(report.succeeded, [
+            {id: 'project-a', result: {id: 'project-a'}},
+            {id: 'project-b', result: {id: 'project-b'}},
+          ]);
+          done();
+        }
+      );
+    });
+
+    it('should not stop on a failure', done => {
+      const error = new Error('Error.');
+      resource.project = (id: string) => {
+        return {
+          delete(callback: Function) {
+            callback(id === 'project-a' ? error : null, {});
+          },
+        };
+      };
+      resource.deleteProjects(
+        ['project-a', 'project-b'],
+        {concurrency: 1},
+        (err: Error, report: BatchReport<Metadata>) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(report.failed, [{id: 'project-a', error}]);
+          assert.strictEqual(report.succeeded[0].id, 'project-b');
+          done();
+        }
+      );
+    });
+  });
+
+  describe('restoreProjects', () => {
+    it('should restore every project', done => {
+      resource.project = (id: string) => {
+        return {
+          restore(callback: Function) {
+            callback(null, {id});
+          },
+        };
+      };
+      resource.restoreProjects(
+        ['project-a'],
+        (err: Error, report: BatchReport<Metadata>) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(report.succeeded, [
+            {id: 'project-a', result: {id: 'project-a'}},
+          ]);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('updateProjects', () => {
+    it('should patch only the changed fields of every project', done => {
+      const patched: Array<[string, Metadata, string]> = [];
+      resource.project = (id: string) => {
+        return {
+          patchV3_(fields: Metadata, updateMask: string, callback: Function) {
+            patched.push([id, fields, updateMask]);
+            callback(null, {done: true});
+          },
+          getMetadata(callback: Function) {
+            callback(null, {projectId: id, name: 'New name'});
+          },
+        };
+      };
+      resource.updateProjects(
+        ['project-a', 'project-b'],
+        {name: 'New name', labels: {env: 'prod'}},
+        (err: Error, report: BatchReport<Metadata>) => {
+          assert.ifError(err);
+          const fields = {displayName: 'New name', labels: {env: 'prod'}};
+          assert.deepStrictEqual(patched, [
+            ['project-a', fields, 'displayName,labels'],
+            ['project-b', fields, 'displayName,labels'],
+          ]);
+          assert.deepStrictEqual(report.succeeded, [
+            {
+              id: 'project-a',
+              result: {projectId: 'project-a', name: 'New name'},
+            },
+            {
+              id: 'project-b',
+              result: {projectId: 'project-b', name: 'New name'},
+            },
+          ]);
+          done();
+        }
+      );
+    });
+
+    it('should report a failed update', done => {
+      const error = new Error('Error.');
+      resource.project = () => {
+        return {
+          patchV3_(fields: Metadata, updateMask: string, callback: Function) {
+            callback(error);
+          },
+          getMetadata() {
+            throw new Error('Should not have been called.');
+          },
+        };
+      };
+      resource.updateProjects(
+        ['project-a'],
+        {name: 'New name'},
+        (err: Error, report: BatchReport<Metadata>) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(report.failed, [{id: 'project-a', error}]);
+          done();
+        }
+      );
+    });
+
+    it('should refuse fields which cannot be patched', done => {
+      resource.project = () => {
+        throw new Error('Should not have been called.');
+      };
+      resource.updateProjects(
+        ['project-a'],
+        {parent: {type: 'folder', id: '1234'}},
+        (err: Error) => {
+          assert.strictEqual(err.message, 'Cannot update the `parent` field.');
+          done();
+        }
+      );
+    });
+
+    it('should refuse an empty patch', done => {
+      resource.updateProjects(['project-a'], {}, (err: Error) => {
+        assert.strictEqual(
+          err.message,
+          '`patch` must change `name` or `labels`.'
+        );
+        done();
+      });
+    });
+
+    it('should refuse an invalid name before any request', done => {
+      resource.project = () => {
+        throw new Error('Should not have been called.');
+      };
+      resource.updateProjects(['project-a'], {name: 'abc'}, (err: Error) => {
+        assert.ok(/Invalid project name "abc"/.test(err.message));
+        done();
+      });
+    });
+
+    it('should refuse invalid labels before any request', done => {
+      resource.project = () => {
+        throw new Error('Should not have been called.');
+      };
+      resource.updateProjects(
+        ['project-a'],
+        {labels: {Env: 'prod'}},
+        (err: Error) => {
+          assert.strictEqual(err.message, 'Invalid label key "Env".');
+          done();
+        }
+      );
+    });
+  });
+
+  describe('folder', () => {
+    const FOLDER_ID = '1234';
+
+    it('should throw if an ID is not provided', () => {
+      assert.throws(() => {
+        resource.folder();
+      }, /A folder ID is required\./);
+    });
+
+    it('should return a Folder object', () => {
+      const folder = resource.folder(FOLDER_ID);
+      assert(folder instanceof FakeFolder);
+      assert.strictEqual(folder.calledWith_[0], resource);
+      assert.strictEqual(folder.calledWith_[1], FOLDER_ID);
+    });
+  });
+
+  describe('describeRequest_', () => {
+    it('should describe the request against the base URL', () => {
+      resource.baseUrl = 'https://fake.endpoint/v1';
+      assert.deepStrictEqual(
+        resource.describeRequest_({
+          method: 'POST',
+          uri: '/projects/grape-spaceship-123/:undelete',
+        }),
+        {
+          dryRun: true,
+          method: 'POST',
+          uri: 'https://fake.endpoint/v1/projects/grape-spaceship-123:undelete',
+        }
+      );
+    });
+  });
+
+  describe('getBaseUrl_', () => {
+    it('should return the base URL of the API version', () => {
+      resource.baseUrl = 'https://fake.endpoint/v1';
+      assert.strictEqual(
+        resource.getBaseUrl_('v3'),
+        'https://fake.endpoint/v3'
+      );
+    });
+  });
+
+  describe('isDryRun_', () => {
+    it('should default to the option of the client', () => {
+      resource.dryRun = true;
+      assert.strictEqual(resource.isDryRun_(), true);
+      assert.strictEqual(resource.isDryRun_({}), true);
+    });
+
+    it('should prefer the option of the call', () => {
+      resource.dryRun = true;
+      assert.strictEqual(resource.isDryRun_({dryRun: false}), false);
+      resource.dryRun = false;
+      assert.strictEqual(resource.isDryRun_({dryRun: true}), true);
+    });
+  });
+
+  describe('lien', () => {
+    const LIEN_NAME = 'liens/1234abcd';
+
+    it('should throw if a name is not provided', () => {
+      assert.throws(() => {
+        resource.lien();
+      }, /A lien name is required\./);
+    });
+
+    it('should return a Lien object', () => {
+      const lien = resource.lien(LIEN_NAME);
+      assert(lien instanceof FakeLien);
+      assert.strictEqual(lien.calledWith_[0], resource);
+      assert.strictEqual(lien.calledWith_[1], LIEN_NAME);
     });
   });
 
@@ -389,16 +2138,81 @@ describe('Resource', () => {
       }, /A name must be specified for an operation\./);
     });
 
-    it('should return a common/operation', () => {
+    it('should return a ProjectOperation', () => {
       const operation = resource.operation(NAME);
+      assert(operation instanceof FakeProjectOperation);
+      assert.strictEqual(operation.calledWith_[0], resource);
+      assert.strictEqual(operation.calledWith_[1], NAME);
+    });
+  });
+
+  describe('organization', () => {
+    const ORGANIZATION_ID = '1234';
+
+    it('should throw if an ID is not provided', () => {
+      assert.throws(() => {
+        resource.organization();
+      }, /An organization ID is required\./);
+    });
+
+    it('should return an Organization object', () => {
+      const organization = resource.organization(ORGANIZATION_ID);
+      assert(organization instanceof FakeOrganization);
+      assert.strictEqual(organization.calledWith_[0], resource);
+      assert.strictEqual(organization.calledWith_[1], ORGANIZATION_ID);
+    });
+  });
+
+  describe('operationV3_', () => {
+    it('should return a common/operation of the v3 API', () => {
+      resource.baseUrl = 'https://fake.endpoint/v1';
+      const operation = resource.operationV3_('operations/cf.1234');
       assert(operation instanceof FakeOperation);
       assert.deepStrictEqual(operation.calledWith_[0], {
         parent: resource,
-        id: NAME,
+        baseUrl: 'https://fake.endpoint/v3',
+        id: 'operations/cf.1234',
       });
     });
   });
 
+  describe('handleOperationV3_', () => {
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      resource.handleOperationV3_(
+        error,
+        apiResponse,
+        (err: Error, operation: {}, apiResponse_: {}) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(operation, null);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should wrap the operation', done => {
+      const apiResponse = {name: 'operations/uf.1234'};
+      const operation = {} as Metadata;
+      resource.operationV3_ = (name: string) => {
+        assert.strictEqual(name, apiResponse.name);
+        return operation;
+      };
+      resource.handleOperationV3_(
+        null,
+        apiResponse,
+        (err: Error, operation_: Metadata, apiResponse_: {}) => {
+          assert.ifError(err);
+          assert.strictEqual(operation_, operation);
+          assert.strictEqual(operation_.metadata, apiResponse);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
   describe('project', () => {
     it('should return a Project object', () => {
       const project = resource.project(PROJECT_ID);
@@ -422,4 +2236,38 @@ describe('Resource', () => {
       }, /A project ID is required\./);
     });
   });
+
+  describe('tagKey', () => {
+    const TAG_KEY_ID = '1234';
+
+    it('should throw if an ID is not provided', () => {
+      assert.throws(() => {
+        resource.tagKey();
+      }, /A tag key ID is required\./);
+    });
+
+    it('should return a TagKey object', () => {
+      const tagKey = resource.tagKey(TAG_KEY_ID);
+      assert(tagKey instanceof FakeTagKey);
+      assert.strictEqual(tagKey.calledWith_[0], resource);
+      assert.strictEqual(tagKey.calledWith_[1], TAG_KEY_ID);
+    });
+  });
+
+  describe('tagValue', () => {
+    const TAG_VALUE_ID = '5678';
+
+    it('should throw if an ID is not provided', () => {
+      assert.throws(() => {
+        resource.tagValue();
+      }, /A tag value ID is required\./);
+    });
+
+    it('should return a TagValue object', () => {
+      const tagValue = resource.tagValue(TAG_VALUE_ID);
+      assert(tagValue instanceof FakeTagValue);
+      assert.strictEqual(tagValue.calledWith_[0], resource);
+      assert.strictEqual(tagValue.calledWith_[1], TAG_VALUE_ID);
+    });
+  });
 });
@@ -0,0 +1,88 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ServiceObject, ServiceObjectConfig} from '@google-cloud/common';
+import * as promisify from '@google-cloud/promisify';
+import * as assert from 'assert';
+import {describe, it, before, beforeEach} from 'mocha';
+import * as proxyquire from 'proxyquire';
+
+let promisified = false;
+const fakePromisify = Object.assign({}, promisify, {
+  promisifyAll(Class: Function) {
+    if (Class.name === 'Lien') {
+      promisified = true;
+    }
+  },
+});
+
+class FakeServiceObject extends ServiceObject {
+  calledWith_: Array<{}>;
+  constructor(config: ServiceObjectConfig) {
+    super(config);
+    this.calledWith_ = [config];
+  }
+}
+
+describe('Lien', () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let Lien: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let lien: any;
+
+  const RESOURCE = {};
+  const ID = '1234abcd';
+
+  before(() => {
+    Lien = proxyquire('../src/lien.js', {
+      '@google-cloud/common': {
+        ServiceObject: FakeServiceObject,
+      },
+      '@google-cloud/promisify': fakePromisify,
+    }).Lien;
+  });
+
+  beforeEach(() => {
+    lien = new Lien(RESOURCE, `liens/${ID}`);
+  });
+
+  describe('instantiation', () => {
+    it('should inherit from ServiceObject', () => {
+      const calledWith = lien.calledWith_[0];
+
+      assert(lien instanceof ServiceObject);
+
+      assert.strictEqual(calledWith.parent, RESOURCE);
+      assert.strictEqual(calledWith.baseUrl, '/liens');
+      assert.strictEqual(calledWith.id, ID);
+      assert.deepStrictEqual(calledWith.methods, {
+        delete: true,
+        exists: true,
+        get: true,
+        getMetadata: true,
+      });
+    });
+
+    it('should accept a bare ID', () => {
+      const lien = new Lien(RESOURCE, ID);
+      assert.strictEqual(lien.calledWith_[0].id, ID);
+    });
+
+    it('should promisify all the things', () => {
+      assert(promisified);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Operation, ServiceObjectConfig, Metadata} from '@google-cloud/common';
+import * as promisify from '@google-cloud/promisify';
+import * as assert from 'assert';
+import {describe, it, afterEach, before, beforeEach} from 'mocha';
+import * as proxyquire from 'proxyquire';
+import * as operationTypes from '../src/operation';
+
+let promisified = false;
+const fakePromisify = Object.assign({}, promisify, {
+  promisifyAll(Class: Function) {
+    if (Class.name === 'ProjectOperation') {
+      promisified = true;
+    }
+  },
+});
+
+class FakeOperation extends Operation {
+  calledWith_: Array<{}>;
+  constructor(config: ServiceObjectConfig) {
+    super(config);
+    this.calledWith_ = [config];
+  }
+}
+
+describe('ProjectOperation', () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let OperationError: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let ProjectOperation: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let operation: any;
+
+  const RESOURCE = {
+    project(id: string) {
+      return {id};
+    },
+  };
+  const NAME = 'operations/cp.1234';
+
+  const originalDateNow = Date.now;
+  const originalSetTimeout = global.setTimeout;
+  let delays: number[];
+  let now: number;
+
+  before(() => {
+    ({OperationError, ProjectOperation} = proxyquire('../src/operation.js', {
+      '@google-cloud/common': {
+        Operation: FakeOperation,
+      },
+      '@google-cloud/promisify': fakePromisify,
+    }));
+  });
+
+  beforeEach(() => {
+    operation = new ProjectOperation(RESOURCE, NAME);
+
+    delays = [];
+    now = 0;
+    Date.now = () => now;
+    Object.assign(global, {
+      setTimeout(fn: Function, delay: number) {
+        delays.push(delay);
+        now += delay;
+        process.nextTick(fn);
+      },
+    });
+  });
+
+  afterEach(() => {
+    Date.now = originalDateNow;
+    Object.assign(global, {setTimeout: originalSetTimeout});
+  });
+
+  function respondWith(responses: Array<[Error | null, Metadata]>) {
+    operation.getMetadata = (callback: Function) => {
+      const [err, metadata] = responses.shift()!;
+      callback(err, metadata);
+    };
+  }
+
+  describe('instantiation', () => {
+    it('should inherit from Operation', () => {
+      const calledWith = operation.calledWith_[0];
+
+      assert(operation instanceof Operation);
+
+      assert.strictEqual(calledWith.parent, RESOURCE);
+      assert.strictEqual(calledWith.id, NAME);
+    });
+
+    it('should localize the resource', () => {
+      assert.strictEqual(operation.resource, RESOURCE);
+    });
+
+    it('should promisify all the things', () => {
+      assert(promisified);
+    });
+  });
+
+  describe('promise', () => {
+    it('should wait for completion', async () => {
+      const result = {};
+      operation.waitForCompletion = (options?: {}) => {
+        assert.strictEqual(options, undefined);
+        return Promise.resolve(result);
+      };
+      assert.strictEqual(await operation.promise(), result);
+    });
+  });
+
+  describe('waitForCompletion', () => {
+    it('should poll until the operation is done', done => {
+      const metadata = {
+        done: true,
+        response: {
+          '@type': 'type.googleapis.com/google.cloudresourcemanager.v1.Project',
+          projectId: 'new-project-id',
+          lifecycleState: 'ACTIVE',
+        },
+      };
+      respondWith([
+        [null, {done: false}],
+        [null, {done: false}],
+        [null, metadata],
+      ]);
+      operation.waitForCompletion(
+        (err: Error, project: {id: string; metadata: {}}, resp: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(project.id, 'new-project-id');
+          assert.deepStrictEqual(project.metadata, {
+            projectId: 'new-project-id',
+            lifecycleState: 'ACTIVE',
+          });
+          assert.strictEqual(resp, metadata);
+          assert.deepStrictEqual(delays, [500, 500]);
+          done();
+        }
+      );
+    });
+
+    it('should back off between polls', done => {
+      respondWith([
+        [null, {}],
+        [null, {}],
+        [null, {}],
+        [null, {done: true, response: {projectId: 'new-project-id'}}],
+      ]);
+      operation.waitForCompletion(
+        {pollIntervalMs: 100, backoff: 2},
+        (err: Error) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(delays, [100, 200, 400]);
+          done();
+        }
+      );
+    });
+
+    it('should execute the callback with a request error', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      respondWith([[error, apiResponse]]);
+      operation.waitForCompletion((err: Error, project: {}, resp: Metadata) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(project, null);
+        assert.strictEqual(resp, apiResponse);
+        done();
+      });
+    });
+
+    it('should return an OperationError if the operation failed', done => {
+      const status = {
+        code: 6,
+        message: 'Requested entity already exists',
+        details: [{'@type': 'type.googleapis.com/google.rpc.ErrorInfo'}],
+      };
+      const metadata = {done: true, error: status};
+      respondWith([[null, metadata]]);
+      operation.waitForCompletion(
+        (err: operationTypes.OperationError, project: {}, resp: Metadata) => {
+          assert(err instanceof OperationError);
+          assert.strictEqual(err.name, 'OperationError');
+          assert.strictEqual(err.message, status.message);
+          assert.strictEqual(err.code, status.code);
+          assert.strictEqual(err.details, status.details);
+          assert.strictEqual(err.operationName, NAME);
+          assert.strictEqual(project, null);
+          assert.strictEqual(resp, metadata);
+          done();
+        }
+      );
+    });
+
+    it('should give up once the timeout is reached', done => {
+      respondWith([
+        [null, {}],
+        [null, {}],
+        [null, {}],
+      ]);
+      operation.waitForCompletion(
+        {timeoutMs: 150, pollIntervalMs: 100},
+        (err: Error, project: {}) => {
+          assert.strictEqual(
+            err.message,
+            `Timed out waiting for operation ${NAME}.`
+          );
+          assert.strictEqual(project, null);
+          assert.deepStrictEqual(delays, [100, 50]);
+          done();
+        }
+      );
+    });
+
+    it('should poll once more at the deadline', done => {
+      respondWith([
+        [null, {}],
+        [null, {}],
+        [null, {done: true, response: {projectId: 'new-project-id'}}],
+      ]);
+      operation.waitForCompletion(
+        {timeoutMs: 150, pollIntervalMs: 100},
+        (err: Error, project: {id: string}) => {
+          assert.ifError(err);
+          assert.strictEqual(project.id, 'new-project-id');
+          assert.deepStrictEqual(delays, [100, 50]);
+          assert.strictEqual(now, 150);
+          done();
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ServiceObject, ServiceObjectConfig} from '@google-cloud/common';
+import * as promisify from '@google-cloud/promisify';
+import * as assert from 'assert';
+import {describe, it, before, beforeEach} from 'mocha';
+import * as proxyquire from 'proxyquire';
+
+let promisified = false;
+const fakePromisify = Object.assign({}, promisify, {
+  promisifyAll(Class: Function) {
+    if (Class.name === 'Organization') {
+      promisified = true;
+    }
+  },
+});
+
+class FakeServiceObject extends ServiceObject {
+  calledWith_: Array<{}>;
+  constructor(config: ServiceObjectConfig) {
+    super(config);
+    this.calledWith_ = [config];
+  }
+}
+
+describe('Organization', () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let Organization: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let organization: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let IamServiceObject: any;
+
+  const RESOURCE = {};
+  const ID = '1234567890';
+
+  before(() => {
+    IamServiceObject = proxyquire('../src/iam.js', {
+      '@google-cloud/common': {
+        ServiceObject: FakeServiceObject,
+      },
+    }).IamServiceObject;
+    Organization = proxyquire('../src/organization.js', {
+      './iam': {IamServiceObject},
+      '@google-cloud/promisify': fakePromisify,
+    }).Organization;
+  });
+
+  beforeEach(() => {
+    organization = new Organization(RESOURCE, ID);
+  });
+
+  describe('instantiation', () => {
+    it('should inherit from ServiceObject', () => {
+      const calledWith = organization.calledWith_[0];
+
+      assert(organization instanceof ServiceObject);
+      assert(organization instanceof IamServiceObject);
+
+      assert.strictEqual(calledWith.parent, RESOURCE);
+      assert.strictEqual(calledWith.baseUrl, '/organizations');
+      assert.strictEqual(calledWith.id, ID);
+      assert.deepStrictEqual(calledWith.methods, {
+        exists: true,
+        get: true,
+        getMetadata: true,
+      });
+    });
+
+    it('should accept a fully qualified name', () => {
+      const organization = new Organization(RESOURCE, `organizations/${ID}`);
+      assert.strictEqual(organization.calledWith_[0].id, ID);
+    });
+
+    it('should promisify all the things', () => {
+      assert(promisified);
+    });
+  });
+});
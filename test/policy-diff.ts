@@ -0,0 +1,314 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {diffIamPolicies, formatIamPolicyDiff} from '../src/policy-diff';
+import {Policy} from '../src/project';
+
+describe('diffIamPolicies', () => {
+  const CONDITION = {
+    title: 'Contractor access',
+    expression: 'request.time < timestamp("2030-01-01T00:00:00.000Z")',
+  };
+  const BEFORE: Policy = {
+    version: 3,
+    etag: 'etag-1',
+    bindings: [
+      {role: 'roles/viewer', members: ['user:a@example.com']},
+      {
+        role: 'roles/editor',
+        members: ['user:b@example.com', 'user:c@example.com'],
+      },
+      {
+        role: 'roles/viewer',
+        members: ['user:d@example.com'],
+        condition: CONDITION,
+      },
+    ],
+    auditConfigs: [
+      {
+        service: 'allServices',
+        auditLogConfigs: [
+          {logType: 'DATA_READ', exemptedMembers: ['user:a@example.com']},
+          {logType: 'DATA_WRITE'},
+        ],
+      },
+    ],
+  };
+
+  it('should report no changes for equivalent policies', () => {
+    const after: Policy = {
+      version: 1,
+      etag: 'etag-2',
+      bindings: [
+        {
+          role: 'roles/editor',
+          members: ['user:c@example.com', 'user:b@example.com'],
+        },
+        {role: 'roles/viewer', members: ['user:a@example.com']},
+        {
+          role: 'roles/viewer',
+          members: ['user:d@example.com'],
+          condition: CONDITION,
+        },
+      ],
+      auditConfigs: BEFORE.auditConfigs,
+    };
+    assert.deepStrictEqual(diffIamPolicies(BEFORE, after), {
+      hasChanges: false,
+      bindings: [],
+      conditions: [],
+      auditLogs: [],
+    });
+  });
+
+  it('should report added and removed members per role', () => {
+    const diff = diffIamPolicies(BEFORE, {
+      bindings: [
+        {role: 'roles/viewer', members: ['user:a@example.com']},
+        {role: 'roles/editor', members: ['user:c@example.com']},
+        {role: 'roles/owner', members: ['user:e@example.com']},
+      ],
+      auditConfigs: BEFORE.auditConfigs,
+    });
+    assert.strictEqual(diff.hasChanges, true);
+    assert.deepStrictEqual(diff.bindings, [
+      {
+        role: 'roles/editor',
+        addedMembers: [],
+        removedMembers: ['user:b@example.com'],
+      },
+      {
+        role: 'roles/owner',
+        addedMembers: ['user:e@example.com'],
+        removedMembers: [],
+      },
+      {
+        role: 'roles/viewer',
+        condition: CONDITION,
+        addedMembers: [],
+        removedMembers: ['user:d@example.com'],
+      },
+    ]);
+  });
+
+  it('should merge bindings with the same role and condition', () => {
+    const diff = diffIamPolicies(
+      {bindings: [{role: 'roles/viewer', members: ['user:a@example.com']}]},
+      {
+        bindings: [
+          {role: 'roles/viewer', members: []},
+          {role: 'roles/viewer', members: ['user:a@example.com']},
+        ],
+      }
+    );
+    assert.strictEqual(diff.hasChanges, false);
+  });
+
+  it('should report condition changes', () => {
+    const condition = Object.assign({}, CONDITION, {
+      expression: 'request.time < timestamp("2031-01-01T00:00:00.000Z")',
+    });
+    const diff = diffIamPolicies(BEFORE, {
+      bindings: [
+        BEFORE.bindings[0],
+        BEFORE.bindings[1],
+        {role: 'roles/viewer', members: ['user:d@example.com'], condition},
+      ],
+      auditConfigs: BEFORE.auditConfigs,
+    });
+    assert.deepStrictEqual(diff.bindings, []);
+    assert.deepStrictEqual(diff.conditions, [
+      {
+        role: 'roles/viewer',
+        title: 'Contractor access',
+        before: CONDITION,
+        after: condition,
+      },
+    ]);
+  });
+
+  it('should tell apart conditions with the same title', () => {
+    const later = Object.assign({}, CONDITION, {
+      expression: 'request.time < timestamp("2031-01-01T00:00:00.000Z")',
+    });
+    const diff = diffIamPolicies(
+      {
+        bindings: [
+          {
+            role: 'roles/viewer',
+            members: ['user:a@example.com'],
+            condition: CONDITION,
+          },
+          {
+            role: 'roles/viewer',
+            members: ['user:b@example.com'],
+            condition: later,
+          },
+        ],
+      },
+      {
+        bindings: [
+          {
+            role: 'roles/viewer',
+            members: ['user:a@example.com', 'user:b@example.com'],
+            condition: later,
+          },
+        ],
+      }
+    );
+    assert.deepStrictEqual(diff.bindings, [
+      {
+        role: 'roles/viewer',
+        condition: CONDITION,
+        addedMembers: [],
+        removedMembers: ['user:a@example.com'],
+      },
+      {
+        role: 'roles/viewer',
+        condition: later,
+        addedMembers: ['user:a@example.com'],
+        removedMembers: [],
+      },
+    ]);
+    assert.deepStrictEqual(diff.conditions, []);
+  });
+
+  it('should report audit log changes', () => {
+    const diff = diffIamPolicies(BEFORE, {
+      bindings: BEFORE.bindings,
+      auditConfigs: [
+        {
+          service: 'allServices',
+          auditLogConfigs: [
+            {logType: 'DATA_READ', exemptedMembers: ['user:b@example.com']},
+          ],
+        },
+        {
+          service: 'storage.googleapis.com',
+          auditLogConfigs: [{logType: 'ADMIN_READ'}],
+        },
+      ],
+    });
+    assert.deepStrictEqual(diff.auditLogs, [
+      {
+        service: 'allServices',
+        logType: 'DATA_READ',
+        change: 'UPDATED',
+        addedExemptedMembers: ['user:b@example.com'],
+        removedExemptedMembers: ['user:a@example.com'],
+      },
+      {
+        service: 'allServices',
+        logType: 'DATA_WRITE',
+        change: 'DISABLED',
+        addedExemptedMembers: [],
+        removedExemptedMembers: [],
+      },
+      {
+        service: 'storage.googleapis.com',
+        logType: 'ADMIN_READ',
+        change: 'ENABLED',
+        addedExemptedMembers: [],
+        removedExemptedMembers: [],
+      },
+    ]);
+  });
+
+  it('should accept policies without bindings or audit configs', () => {
+    const diff = diffIamPolicies({etag: 'etag'}, BEFORE);
+    assert.strictEqual(diff.bindings.length, 3);
+    assert.strictEqual(diff.auditLogs.length, 2);
+  });
+});
+
+describe('formatIamPolicyDiff', () => {
+  it('should report no changes', () => {
+    assert.strictEqual(
+      formatIamPolicyDiff(diffIamPolicies({}, {})),
+      'No changes.'
+    );
+  });
+
+  it('should render every change', () => {
+    const report = formatIamPolicyDiff({
+      hasChanges: true,
+      bindings: [
+        {
+          role: 'roles/editor',
+          addedMembers: ['user:a@example.com'],
+          removedMembers: ['user:b@example.com'],
+        },
+        {
+          role: 'roles/viewer',
+          condition: {title: 'Contractor access', expression: 'true'},
+          addedMembers: ['user:c@example.com'],
+          removedMembers: [],
+        },
+      ],
+      conditions: [
+        {
+          role: 'roles/viewer',
+          title: 'Contractor access',
+          before: {title: 'Contractor access', expression: 'true'},
+          after: {
+            title: 'Contractor access',
+            expression: 'false',
+            description: 'Revoked.',
+          },
+        },
+      ],
+      auditLogs: [
+        {
+          service: 'allServices',
+          logType: 'DATA_READ',
+          change: 'ENABLED',
+          addedExemptedMembers: ['user:a@example.com'],
+          removedExemptedMembers: [],
+        },
+        {
+          service: 'allServices',
+          logType: 'DATA_WRITE',
+          change: 'UPDATED',
+          addedExemptedMembers: [],
+          removedExemptedMembers: ['user:b@example.com'],
+        },
+      ],
+    });
+    assert.strictEqual(
+      report,
+      [
+        'Bindings:',
+        '  roles/editor',
+        '    + user:a@example.com',
+        '    - user:b@example.com',
+        '  roles/viewer if "Contractor access"',
+        '    + user:c@example.com',
+        'Conditions:',
+        '  roles/viewer if "Contractor access"',
+        '    - expression: true',
+        '    + expression: false',
+        '    + description: Revoked.',
+        'Audit logs:',
+        '  allServices DATA_READ enabled',
+        '    + exempted user:a@example.com',
+        '  allServices DATA_WRITE exemptions',
+        '    - exempted user:b@example.com',
+      ].join('\n')
+    );
+  });
+});
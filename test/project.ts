@@ -23,9 +23,35 @@ import {
 } from '@google-cloud/common';
 import * as promisify from '@google-cloud/promisify';
 import * as assert from 'assert';
-import {describe, it, before, beforeEach} from 'mocha';
+import {EventEmitter} from 'events';
+import {describe, it, afterEach, before, beforeEach} from 'mocha';
 import * as proxyquire from 'proxyquire';
-import {Policy} from '../src/project';
+import {Resource} from '../src';
+import {diffIamPolicies, IamPolicyDiff} from '../src/policy-diff';
+import {
+  GetIamPolicyOptions,
+  OrgPolicy,
+  Policy,
+  ResourceId,
+} from '../src/project';
+
+let extended = false;
+const fakePaginator = {
+  paginator: {
+    extend(Class: Function, methods: string[]) {
+      if (Class.name !== 'Project') {
+        return;
+      }
+      assert.deepStrictEqual(methods, [
+        'getAvailableOrgPolicyConstraints',
+        'getEffectiveTags',
+        'getOrgPolicies',
+        'getTagBindings',
+      ]);
+      extended = true;
+    },
+  },
+};
 
 let promisified = false;
 const fakePromisify = Object.assign({}, promisify, {
@@ -49,17 +75,32 @@ describe('Project', () => {
   let Project: any;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   let project: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let IamServiceObject: any;
 
   const RESOURCE = {
     createProject: util.noop,
+    describeRequest_(reqOpts: DecorateRequestOptions) {
+      return Object.assign({dryRun: true}, reqOpts);
+    },
+    isDryRun_(options: {dryRun?: boolean} = {}) {
+      return !!options.dryRun;
+    },
   };
   const ID = 'project-id';
 
   before(() => {
+    IamServiceObject = proxyquire('../src/iam.js', {
+      '@google-cloud/common': {
+        ServiceObject: FakeServiceObject,
+      },
+    }).IamServiceObject;
     Project = proxyquire('../src/project.js', {
       '@google-cloud/common': {
         ServiceObject: FakeServiceObject,
       },
+      './iam': {IamServiceObject},
+      '@google-cloud/paginator': fakePaginator,
       '@google-cloud/promisify': fakePromisify,
     }).Project;
   });
@@ -81,6 +122,7 @@ describe('Project', () => {
 
       const project = new Project(resourceInstance, ID);
       assert(project instanceof ServiceObject);
+      assert(project instanceof IamServiceObject);
 
       const calledWith = (project as any).calledWith_[0];
 
@@ -101,29 +143,114 @@ describe('Project', () => {
       });
     });
 
+    it('should localize the resource', () => {
+      assert.strictEqual(project.resource, RESOURCE);
+    });
+
+    it('should extend the correct methods', () => {
+      assert(extended); // See `fakePaginator.extend`
+    });
+
     it('should promisify all tlhe things', () => {
       assert(promisified);
     });
   });
 
-  describe('getIamPolicy', () => {
+  describe('getAncestry', () => {
+    it('should make the correct API request', done => {
+      project.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':getAncestry');
+        assert.deepStrictEqual(reqOpts.json, {});
+        done();
+      };
+      project.getAncestry(assert.ifError);
+    });
+
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+      project.getAncestry(
+        (err: Error, ancestry: ResourceId[], apiResponse_: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(ancestry, null);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should return the ancestors in order', done => {
+      const apiResponse = {
+        ancestor: [
+          {resourceId: {type: 'project', id: ID}},
+          {resourceId: {type: 'folder', id: '1234'}},
+          {resourceId: {type: 'organization', id: '5678'}},
+        ],
+      };
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      project.getAncestry(
+        (err: Error, ancestry: ResourceId[], apiResponse_: Metadata) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(ancestry, [
+            {type: 'project', id: ID},
+            {type: 'folder', id: '1234'},
+            {type: 'organization', id: '5678'},
+          ]);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('getLiens', () => {
+    it('should get the liens of the project', done => {
+      const options = {pageSize: 10};
+      project.resource = {
+        getLiens(options_: {}, callback: Function) {
+          assert.deepStrictEqual(options_, {
+            pageSize: 10,
+            parent: {type: 'project', id: ID},
+          });
+          callback();
+        },
+      };
+      project.getLiens(options, done);
+    });
+
+    it('should not require any options', done => {
+      project.resource = {
+        getLiens(options: {}, callback: Function) {
+          assert.deepStrictEqual(options, {
+            parent: {type: 'project', id: ID},
+          });
+          callback();
+        },
+      };
+      project.getLiens(done);
+    });
+  });
+
+  describe('setIamPolicy', () => {
     const error = new Error('Error.');
     const policy = {
       version: 1,
       bindings: [
         {
-          members: ['serviceAccount:fakeemail@project.iam.gserviceaccount.com'],
-          role: 'roles/appengine.appAdmin',
-        },
-      ],
-      auditConfigs: [
-        {
-          auditLogConfigs: [
-            {
-              logType: 'ADMIN_READ',
-            },
-          ],
-          service: 'spanner.googleapis.com',
+          members: ['user:fake@example.com'],
+          role: 'roles/viewer',
         },
       ],
       etag: 'BwWf8AIJOb4=',
@@ -138,57 +265,1960 @@ describe('Project', () => {
       };
     });
 
-    it('should make the correct API request', done => {
+    it('should not send the dryRun option', done => {
       project.request = (reqOpts: DecorateRequestOptions) => {
         assert.strictEqual(reqOpts.method, 'POST');
-        assert.strictEqual(reqOpts.uri, ':getIamPolicy');
+        assert.strictEqual(reqOpts.uri, ':setIamPolicy');
+        assert.deepStrictEqual(reqOpts.json, {
+          policy,
+          updateMask: 'bindings',
+        });
         done();
       };
-      project.getIamPolicy(assert.ifError);
+      project.setIamPolicy(
+        policy,
+        {dryRun: false, updateMask: 'bindings'},
+        assert.ifError
+      );
     });
 
     it('should execute the callback with error & API response', done => {
-      project.getIamPolicy((err: Error, apiResponse_: Policy) => {
+      project.setIamPolicy(policy, (err: Error, apiResponse_: Policy) => {
         assert.strictEqual(err, error);
         assert.strictEqual(apiResponse_, policy);
         done();
       });
     });
+
+    it('should only describe the request in dry-run mode', done => {
+      project.request = () => {
+        throw new Error('Should not have made a request.');
+      };
+      project.setIamPolicy(
+        policy,
+        {dryRun: true, updateMask: 'bindings'},
+        (err: Error, policy_: Policy, dryRunRequest: {}) => {
+          assert.ifError(err);
+          assert.strictEqual(policy_, policy);
+          assert.deepStrictEqual(dryRunRequest, {
+            dryRun: true,
+            method: 'POST',
+            uri: `/projects/${ID}/:setIamPolicy`,
+            json: {policy, updateMask: 'bindings'},
+          });
+          done();
+        }
+      );
+    });
+
+    it('should validate the policy in dry-run mode', done => {
+      project.request = () => {
+        throw new Error('Should not have made a request.');
+      };
+      const conditionalPolicy = {
+        version: 1,
+        bindings: [
+          {
+            role: 'roles/viewer',
+            members: ['user:a@example.com'],
+            condition: {title: 'expires', expression: 'true'},
+          },
+        ],
+        etag: 'BwWf8AIJOb4=',
+      };
+      project.setIamPolicy(conditionalPolicy, {dryRun: true}, (err: Error) => {
+        assert.ok(err instanceof Error);
+        done();
+      });
+    });
   });
 
-  describe('restore', () => {
-    const error = new Error('Error.');
-    const apiResponse = {a: 'b', c: 'd'};
+  describe('hasPermission', () => {
+    const PERMISSION = 'resourcemanager.projects.delete';
+
+    it('should test the single permission', done => {
+      project.testIamPermissions = (permissions: string[]) => {
+        assert.deepStrictEqual(permissions, [PERMISSION]);
+        done();
+      };
+      project.hasPermission(PERMISSION, assert.ifError);
+    });
+
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      project.testIamPermissions = (
+        permissions: string[],
+        callback: Function
+      ) => {
+        callback(error, null, apiResponse);
+      };
+      project.hasPermission(
+        PERMISSION,
+        (err: Error, hasPermission: boolean, apiResponse_: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(hasPermission, null);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should return true if the permission is held', done => {
+      project.testIamPermissions = (
+        permissions: string[],
+        callback: Function
+      ) => {
+        callback(null, [PERMISSION], {});
+      };
+      project.hasPermission(
+        PERMISSION,
+        (err: Error, hasPermission: boolean) => {
+          assert.ifError(err);
+          assert.strictEqual(hasPermission, true);
+          done();
+        }
+      );
+    });
+
+    it('should return false if the permission is not held', done => {
+      project.testIamPermissions = (
+        permissions: string[],
+        callback: Function
+      ) => {
+        callback(null, [], {});
+      };
+      project.hasPermission(
+        PERMISSION,
+        (err: Error, hasPermission: boolean) => {
+          assert.ifError(err);
+          assert.strictEqual(hasPermission, false);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('updateIamPolicy', () => {
+    const originalSetTimeout = global.setTimeout;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let policy: any;
+    let delays: number[];
 
     beforeEach(() => {
-      project.request = (
-        reqOpts: DecorateRequestOptions,
+      delays = [];
+      Object.assign(global, {
+        setTimeout(fn: Function, delay: number) {
+          delays.push(delay);
+          process.nextTick(fn);
+        },
+      });
+      policy = {
+        version: 1,
+        bindings: [{role: 'roles/viewer', members: ['user:a@example.com']}],
+        etag: 'etag-1',
+      };
+      project.getIamPolicy = (options: {}, callback: Function) => {
+        callback(null, policy);
+      };
+    });
+
+    afterEach(() => {
+      Object.assign(global, {setTimeout: originalSetTimeout});
+    });
+
+    it('should read the policy at version 3', done => {
+      project.getIamPolicy = (options: {}) => {
+        assert.deepStrictEqual(options, {requestedPolicyVersion: 3});
+        done();
+      };
+      project.updateIamPolicy(util.noop, assert.ifError);
+    });
+
+    it('should return the read error', done => {
+      const error = new Error('Error.');
+      project.getIamPolicy = (options: {}, callback: Function) => {
+        callback(error);
+      };
+      project.updateIamPolicy(util.noop, (err: Error) => {
+        assert.strictEqual(err, error);
+        done();
+      });
+    });
+
+    it('should return errors thrown by the mutator', done => {
+      const error = new Error('Error.');
+      project.updateIamPolicy(
+        () => {
+          throw error;
+        },
+        (err: Error) => {
+          assert.strictEqual(err, error);
+          done();
+        }
+      );
+    });
+
+    it('should write the mutated policy', done => {
+      const updatedPolicy = {};
+      project.setIamPolicy = (
+        policy_: Policy,
+        options: {},
         callback: Function
       ) => {
-        callback(error, apiResponse);
+        assert.strictEqual(policy_, policy);
+        assert.strictEqual(policy_.etag, 'etag-1');
+        assert.deepStrictEqual(policy_.bindings[0].members, []);
+        assert.deepStrictEqual(options, {});
+        callback(null, updatedPolicy);
+      };
+      project.updateIamPolicy(
+        (policy: Policy) => {
+          policy.bindings[0].members = [];
+        },
+        (err: Error, policy_: Policy) => {
+          assert.ifError(err);
+          assert.strictEqual(policy_, updatedPolicy);
+          done();
+        }
+      );
+    });
+
+    it('should return the dry-run request of the write', done => {
+      const dryRunRequest = {dryRun: true};
+      project.setIamPolicy = (
+        policy_: Policy,
+        options: {},
+        callback: Function
+      ) => {
+        assert.deepStrictEqual(options, {dryRun: true});
+        callback(null, policy_, dryRunRequest);
       };
+      project.updateIamPolicy(
+        util.noop,
+        {dryRun: true},
+        (err: Error, policy_: Policy, dryRunRequest_: {}) => {
+          assert.ifError(err);
+          assert.strictEqual(policy_, policy);
+          assert.strictEqual(dryRunRequest_, dryRunRequest);
+          done();
+        }
+      );
     });
 
-    it('should make the correct API request', done => {
-      project.request = (reqOpts: DecorateRequestOptions) => {
-        assert.strictEqual(reqOpts.method, 'POST');
-        assert.strictEqual(reqOpts.uri, ':undelete');
+    it('should write the policy returned by the mutator', done => {
+      const newPolicy = {};
+      project.setIamPolicy = (policy_: Policy) => {
+        assert.strictEqual(policy_, newPolicy);
         done();
       };
-      project.restore(assert.ifError);
+      project.updateIamPolicy(() => newPolicy, assert.ifError);
     });
 
-    it('should execute the callback with error & API response', done => {
-      project.restore((err: Error, apiResponse_: Metadata) => {
+    it('should pass the update mask', done => {
+      project.setIamPolicy = (policy_: Policy, options: {}) => {
+        assert.deepStrictEqual(options, {updateMask: 'bindings'});
+        done();
+      };
+      project.updateIamPolicy(
+        util.noop,
+        {maxAttempts: 2, retryDelayMs: 10, updateMask: 'bindings'},
+        assert.ifError
+      );
+    });
+
+    it('should retry on concurrent modification', done => {
+      const conflict = Object.assign(new Error('Conflict.'), {code: 409});
+      let reads = 0;
+      let writes = 0;
+      project.getIamPolicy = (options: {}, callback: Function) => {
+        reads++;
+        callback(null, policy);
+      };
+      project.setIamPolicy = (
+        policy_: Policy,
+        options: {},
+        callback: Function
+      ) => {
+        writes++;
+        callback(writes < 3 ? conflict : null, policy_);
+      };
+      project.updateIamPolicy(util.noop, (err: Error) => {
+        assert.ifError(err);
+        assert.strictEqual(reads, 3);
+        assert.strictEqual(writes, 3);
+        assert.deepStrictEqual(delays, [1000, 2000]);
+        done();
+      });
+    });
+
+    it('should use the given retry delay', done => {
+      const conflict = Object.assign(new Error('Conflict.'), {code: 409});
+      project.setIamPolicy = (
+        policy_: Policy,
+        options: {},
+        callback: Function
+      ) => {
+        callback(conflict);
+      };
+      project.updateIamPolicy(
+        util.noop,
+        {maxAttempts: 3, retryDelayMs: 100},
+        (err: Error) => {
+          assert.strictEqual(err, conflict);
+          assert.deepStrictEqual(delays, [100, 200]);
+          done();
+        }
+      );
+    });
+
+    it('should retry when the request was aborted', done => {
+      const aborted = Object.assign(new Error('Aborted.'), {
+        errors: [{reason: 'aborted'}],
+      });
+      let writes = 0;
+      project.setIamPolicy = (
+        policy_: Policy,
+        options: {},
+        callback: Function
+      ) => {
+        writes++;
+        callback(writes < 2 ? aborted : null, policy_);
+      };
+      project.updateIamPolicy(util.noop, (err: Error) => {
+        assert.ifError(err);
+        assert.strictEqual(writes, 2);
+        done();
+      });
+    });
+
+    it('should give up after the maximum number of attempts', done => {
+      const conflict = Object.assign(new Error('Conflict.'), {code: 409});
+      let writes = 0;
+      project.setIamPolicy = (
+        policy_: Policy,
+        options: {},
+        callback: Function
+      ) => {
+        writes++;
+        callback(conflict);
+      };
+      project.updateIamPolicy(util.noop, {maxAttempts: 2}, (err: Error) => {
+        assert.strictEqual(err, conflict);
+        assert.strictEqual(writes, 2);
+        done();
+      });
+    });
+
+    it('should not retry other errors', done => {
+      const error = Object.assign(new Error('Error.'), {code: 403});
+      let writes = 0;
+      project.setIamPolicy = (
+        policy_: Policy,
+        options: {},
+        callback: Function
+      ) => {
+        writes++;
+        callback(error);
+      };
+      project.updateIamPolicy(util.noop, (err: Error) => {
         assert.strictEqual(err, error);
-        assert.strictEqual(apiResponse_, apiResponse);
+        assert.strictEqual(writes, 1);
         done();
       });
     });
+  });
 
-    it('should not require a callback', () => {
-      assert.doesNotThrow(() => {
-        project.restore();
+  describe('addIamBinding', () => {
+    const CONDITION = {
+      title: 'expires',
+      expression: 'request.time < timestamp("2030-01-01T00:00:00Z")',
+    };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let policy: any;
+
+    beforeEach(() => {
+      policy = {
+        version: 1,
+        bindings: [{role: 'roles/viewer', members: ['user:a@example.com']}],
+        etag: 'etag-1',
+      };
+      project.updateIamPolicy = (mutator: Function, callback: Function) => {
+        mutator(policy);
+        callback(null, policy);
+      };
+    });
+
+    it('should add members to the existing binding', done => {
+      project.addIamBinding(
+        'roles/viewer',
+        ['user:a@example.com', 'user:b@example.com'],
+        (err: Error, policy_: Policy) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(policy_.bindings, [
+            {
+              role: 'roles/viewer',
+              members: ['user:a@example.com', 'user:b@example.com'],
+            },
+          ]);
+          assert.strictEqual(policy_.version, 1);
+          done();
+        }
+      );
+    });
+
+    it('should create a binding for a new role', done => {
+      project.addIamBinding(
+        'roles/editor',
+        ['user:b@example.com'],
+        (err: Error, policy_: Policy) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(policy_.bindings[1], {
+            role: 'roles/editor',
+            members: ['user:b@example.com'],
+          });
+          done();
+        }
+      );
+    });
+
+    it('should create a conditional binding', done => {
+      project.addIamBinding(
+        'roles/viewer',
+        ['user:b@example.com'],
+        CONDITION,
+        (err: Error, policy_: Policy) => {
+          assert.ifError(err);
+          assert.strictEqual(policy_.bindings.length, 2);
+          assert.deepStrictEqual(policy_.bindings[1], {
+            role: 'roles/viewer',
+            members: ['user:b@example.com'],
+            condition: CONDITION,
+          });
+          assert.strictEqual(policy_.version, 3);
+          done();
+        }
+      );
+    });
+
+    it('should handle a policy without bindings', done => {
+      delete policy.bindings;
+      project.addIamBinding(
+        'roles/viewer',
+        ['user:b@example.com'],
+        (err: Error, policy_: Policy) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(policy_.bindings, [
+            {role: 'roles/viewer', members: ['user:b@example.com']},
+          ]);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('removeIamBinding', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let policy: any;
+
+    beforeEach(() => {
+      policy = {
+        version: 1,
+        bindings: [
+          {
+            role: 'roles/viewer',
+            members: ['user:a@example.com', 'user:b@example.com'],
+          },
+          {role: 'roles/editor', members: ['user:a@example.com']},
+        ],
+        etag: 'etag-1',
+      };
+      project.updateIamPolicy = (mutator: Function, callback: Function) => {
+        mutator(policy);
+        callback(null, policy);
+      };
+    });
+
+    it('should remove members from the binding', done => {
+      project.removeIamBinding(
+        'roles/viewer',
+        ['user:a@example.com'],
+        (err: Error, policy_: Policy) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(policy_.bindings, [
+            {role: 'roles/viewer', members: ['user:b@example.com']},
+            {role: 'roles/editor', members: ['user:a@example.com']},
+          ]);
+          done();
+        }
+      );
+    });
+
+    it('should drop bindings without members', done => {
+      project.removeIamBinding(
+        'roles/editor',
+        ['user:a@example.com'],
+        (err: Error, policy_: Policy) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(policy_.bindings, [
+            {
+              role: 'roles/viewer',
+              members: ['user:a@example.com', 'user:b@example.com'],
+            },
+          ]);
+          done();
+        }
+      );
+    });
+
+    it('should only touch bindings with the same condition', done => {
+      project.removeIamBinding(
+        'roles/editor',
+        ['user:a@example.com'],
+        {title: 'expires', expression: 'true'},
+        (err: Error, policy_: Policy) => {
+          assert.ifError(err);
+          assert.strictEqual(policy_.bindings.length, 2);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('previewIamPolicyChange', () => {
+    it('should compare the live policy at version 3', done => {
+      const livePolicy = {
+        bindings: [{role: 'roles/viewer', members: ['user:a@example.com']}],
+      };
+      const policy = {
+        bindings: [{role: 'roles/viewer', members: ['user:b@example.com']}],
+      };
+      project.getIamPolicy = (
+        options: GetIamPolicyOptions,
+        callback: Function
+      ) => {
+        assert.deepStrictEqual(options, {requestedPolicyVersion: 3});
+        callback(null, livePolicy);
+      };
+      project.previewIamPolicyChange(
+        policy,
+        (err: Error, diff: IamPolicyDiff) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(diff, diffIamPolicies(livePolicy, policy));
+          assert.strictEqual(diff.hasChanges, true);
+          done();
+        }
+      );
+    });
+
+    it('should return the error', done => {
+      const error = new Error('Error.');
+      project.getIamPolicy = (options: {}, callback: Function) => {
+        callback(error);
+      };
+      project.previewIamPolicyChange({}, (err: Error) => {
+        assert.strictEqual(err, error);
+        done();
+      });
+    });
+  });
+
+  describe('getAuditConfigs', () => {
+    it('should return the audit configs of the policy', done => {
+      const auditConfigs = [{service: 'allServices', auditLogConfigs: []}];
+      project.getIamPolicy = (callback: Function) => {
+        callback(null, {auditConfigs});
+      };
+      project.getAuditConfigs((err: Error, auditConfigs_: {}) => {
+        assert.ifError(err);
+        assert.strictEqual(auditConfigs_, auditConfigs);
+        done();
+      });
+    });
+
+    it('should default to no audit configs', done => {
+      project.getIamPolicy = (callback: Function) => {
+        callback(null, {bindings: []});
+      };
+      project.getAuditConfigs((err: Error, auditConfigs: {}) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(auditConfigs, []);
+        done();
+      });
+    });
+
+    it('should return the error', done => {
+      const error = new Error('Error.');
+      project.getIamPolicy = (callback: Function) => {
+        callback(error);
+      };
+      project.getAuditConfigs((err: Error) => {
+        assert.strictEqual(err, error);
+        done();
+      });
+    });
+  });
+
+  describe('audit logs', () => {
+    const SERVICE = 'storage.googleapis.com';
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let policy: any;
+
+    beforeEach(() => {
+      policy = {
+        version: 1,
+        bindings: [],
+        auditConfigs: [
+          {
+            service: 'allServices',
+            auditLogConfigs: [{logType: 'ADMIN_READ'}],
+          },
+          {
+            service: SERVICE,
+            auditLogConfigs: [
+              {logType: 'DATA_READ', exemptedMembers: ['user:a@example.com']},
+            ],
+          },
+        ],
+        etag: 'etag-1',
+      };
+      project.updateIamPolicy = (
+        mutator: Function,
+        options: {},
+        callback: Function
+      ) => {
+        assert.deepStrictEqual(options, {updateMask: 'auditConfigs'});
+        mutator(policy);
+        callback(null, policy);
+      };
+    });
+
+    describe('enableAuditLogs', () => {
+      it('should add log types and keep exemptions', done => {
+        project.enableAuditLogs(
+          SERVICE,
+          ['DATA_READ', 'DATA_WRITE'],
+          (err: Error, policy_: Policy) => {
+            assert.ifError(err);
+            assert.deepStrictEqual(policy_.auditConfigs[1], {
+              service: SERVICE,
+              auditLogConfigs: [
+                {
+                  logType: 'DATA_READ',
+                  exemptedMembers: ['user:a@example.com'],
+                },
+                {logType: 'DATA_WRITE'},
+              ],
+            });
+            done();
+          }
+        );
+      });
+
+      it('should replace the exempted members', done => {
+        project.enableAuditLogs(
+          SERVICE,
+          ['DATA_READ'],
+          {exemptedMembers: ['user:b@example.com']},
+          (err: Error, policy_: Policy) => {
+            assert.ifError(err);
+            assert.deepStrictEqual(policy_.auditConfigs[1].auditLogConfigs, [
+              {logType: 'DATA_READ', exemptedMembers: ['user:b@example.com']},
+            ]);
+            done();
+          }
+        );
+      });
+
+      it('should add a config for a new service', done => {
+        project.enableAuditLogs(
+          'bigquery.googleapis.com',
+          ['DATA_WRITE'],
+          (err: Error, policy_: Policy) => {
+            assert.ifError(err);
+            assert.strictEqual(policy_.auditConfigs.length, 3);
+            assert.deepStrictEqual(policy_.auditConfigs[2], {
+              service: 'bigquery.googleapis.com',
+              auditLogConfigs: [{logType: 'DATA_WRITE'}],
+            });
+            done();
+          }
+        );
+      });
+
+      it('should reject an invalid log type', done => {
+        project.updateIamPolicy = () => {
+          throw new Error('Should not have updated the policy.');
+        };
+        project.enableAuditLogs(SERVICE, ['DATA_DELETE'], (err: Error) => {
+          assert.strictEqual(
+            err.message,
+            'Invalid audit log type "DATA_DELETE".'
+          );
+          done();
+        });
+      });
+
+      it('should require a service', done => {
+        project.enableAuditLogs('', ['DATA_READ'], (err: Error) => {
+          assert.strictEqual(err.message, 'A service is required.');
+          done();
+        });
+      });
+    });
+
+    describe('disableAuditLogs', () => {
+      it('should remove log types', done => {
+        policy.auditConfigs[1].auditLogConfigs.push({logType: 'DATA_WRITE'});
+        project.disableAuditLogs(
+          SERVICE,
+          ['DATA_READ'],
+          (err: Error, policy_: Policy) => {
+            assert.ifError(err);
+            assert.deepStrictEqual(policy_.auditConfigs[1].auditLogConfigs, [
+              {logType: 'DATA_WRITE'},
+            ]);
+            done();
+          }
+        );
+      });
+
+      it('should drop a service without log types', done => {
+        project.disableAuditLogs(
+          SERVICE,
+          ['DATA_READ', 'DATA_WRITE'],
+          (err: Error, policy_: Policy) => {
+            assert.ifError(err);
+            assert.deepStrictEqual(policy_.auditConfigs, [
+              {
+                service: 'allServices',
+                auditLogConfigs: [{logType: 'ADMIN_READ'}],
+              },
+            ]);
+            done();
+          }
+        );
+      });
+
+      it('should not add a config for an unknown service', done => {
+        project.disableAuditLogs(
+          'bigquery.googleapis.com',
+          ['DATA_READ'],
+          (err: Error, policy_: Policy) => {
+            assert.ifError(err);
+            assert.strictEqual(policy_.auditConfigs.length, 2);
+            done();
+          }
+        );
+      });
+    });
+  });
+
+  describe('clearOrgPolicy', () => {
+    it('should make the correct API request', done => {
+      project.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':clearOrgPolicy');
+        assert.deepStrictEqual(reqOpts.json, {
+          constraint: 'constraints/compute.vmExternalIpAccess',
+          etag: 'BwWf8AIJOb4=',
+        });
+        done();
+      };
+      project.clearOrgPolicy(
+        'compute.vmExternalIpAccess',
+        'BwWf8AIJOb4=',
+        assert.ifError
+      );
+    });
+
+    it('should not require an etag', done => {
+      project.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.json.etag, undefined);
+        done();
+      };
+      project.clearOrgPolicy(
+        'constraints/compute.vmExternalIpAccess',
+        assert.ifError
+      );
+    });
+
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+      project.clearOrgPolicy(
+        'compute.vmExternalIpAccess',
+        (err: Error, apiResponse_: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('getAvailableOrgPolicyConstraints', () => {
+    it('should make the correct API request', done => {
+      const options = {pageSize: 10, pageToken: 'token', autoPaginate: false};
+      project.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':listAvailableOrgPolicyConstraints');
+        assert.deepStrictEqual(reqOpts.json, {
+          pageSize: 10,
+          pageToken: 'token',
+        });
+        done();
+      };
+      project.getAvailableOrgPolicyConstraints(options, assert.ifError);
+    });
+
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+      project.getAvailableOrgPolicyConstraints(
+        (
+          err: Error,
+          constraints: {},
+          nextQuery: {},
+          apiResponse_: Metadata
+        ) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(constraints, null);
+          assert.strictEqual(nextQuery, null);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should return constraints and a nextQuery', done => {
+      const apiResponse = {
+        constraints: [{name: 'constraints/compute.vmExternalIpAccess'}],
+        nextPageToken: 'next-token',
+      };
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      project.getAvailableOrgPolicyConstraints(
+        {pageSize: 1},
+        (err: Error, constraints: {}, nextQuery: {}) => {
+          assert.ifError(err);
+          assert.strictEqual(constraints, apiResponse.constraints);
+          assert.deepStrictEqual(nextQuery, {
+            pageSize: 1,
+            pageToken: 'next-token',
+          });
+          done();
+        }
+      );
+    });
+  });
+
+  describe('getEffectiveOrgPolicy', () => {
+    it('should make the correct API request', done => {
+      project.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':getEffectiveOrgPolicy');
+        assert.deepStrictEqual(reqOpts.json, {
+          constraint: 'constraints/compute.vmExternalIpAccess',
+        });
+        done();
+      };
+      project.getEffectiveOrgPolicy(
+        'compute.vmExternalIpAccess',
+        assert.ifError
+      );
+    });
+
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      const policy = {constraint: 'constraints/compute.vmExternalIpAccess'};
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, policy);
+      };
+      project.getEffectiveOrgPolicy(
+        policy.constraint,
+        (err: Error, policy_: OrgPolicy) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(policy_, policy);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('getOrgPolicies', () => {
+    it('should make the correct API request', done => {
+      project.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':listOrgPolicies');
+        assert.deepStrictEqual(reqOpts.json, {
+          pageSize: undefined,
+          pageToken: undefined,
+        });
+        done();
+      };
+      project.getOrgPolicies(assert.ifError);
+    });
+
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+      project.getOrgPolicies(
+        (err: Error, policies: {}, nextQuery: {}, apiResponse_: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(policies, null);
+          assert.strictEqual(nextQuery, null);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should return policies', done => {
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, {});
+      };
+      project.getOrgPolicies(
+        (err: Error, policies: OrgPolicy[], nextQuery: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(policies, []);
+          assert.strictEqual(nextQuery, undefined);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('getOrgPolicy', () => {
+    it('should make the correct API request', done => {
+      project.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':getOrgPolicy');
+        assert.deepStrictEqual(reqOpts.json, {
+          constraint: 'constraints/compute.vmExternalIpAccess',
+        });
+        done();
+      };
+      project.getOrgPolicy(
+        'constraints/compute.vmExternalIpAccess',
+        assert.ifError
+      );
+    });
+
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      const policy = {constraint: 'constraints/compute.vmExternalIpAccess'};
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, policy);
+      };
+      project.getOrgPolicy(
+        policy.constraint,
+        (err: Error, policy_: OrgPolicy) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(policy_, policy);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('setOrgPolicy', () => {
+    it('should make the correct API request', done => {
+      const policy: OrgPolicy = {
+        constraint: 'compute.vmExternalIpAccess',
+        etag: 'BwWf8AIJOb4=',
+        listPolicy: {allValues: 'DENY'},
+      };
+      project.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':setOrgPolicy');
+        assert.deepStrictEqual(reqOpts.json, {
+          policy: {
+            constraint: 'constraints/compute.vmExternalIpAccess',
+            etag: 'BwWf8AIJOb4=',
+            listPolicy: {allValues: 'DENY'},
+          },
+        });
+        assert.strictEqual(policy.constraint, 'compute.vmExternalIpAccess');
+        done();
+      };
+      project.setOrgPolicy(policy, assert.ifError);
+    });
+
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      const policy = {
+        constraint: 'constraints/compute.disableSerialPortAccess',
+        booleanPolicy: {enforced: true},
+      };
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, policy);
+      };
+      project.setOrgPolicy(policy, (err: Error, policy_: OrgPolicy) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(policy_, policy);
+        done();
+      });
+    });
+  });
+
+  describe('move', () => {
+    const DESTINATION: ResourceId = {type: 'folder', id: '1234'};
+    const OPERATION: Metadata = {};
+
+    beforeEach(() => {
+      project.getMetadata = (callback: Function) => {
+        callback(null, {lifecycleState: 'ACTIVE'});
+      };
+      project.resource = {
+        getBaseUrl_(version: string) {
+          return `https://fake.endpoint/${version}`;
+        },
+        operationV3_() {
+          return OPERATION;
+        },
+        handleOperationV3_: Resource.prototype.handleOperationV3_,
+      };
+    });
+
+    it('should make the correct API request', done => {
+      project.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(
+          reqOpts.uri,
+          `https://fake.endpoint/v3/projects/${ID}:move`
+        );
+        assert.deepStrictEqual(reqOpts.json, {
+          destinationParent: 'folders/1234',
+        });
+        done();
+      };
+      project.move(DESTINATION, assert.ifError);
+    });
+
+    it('should return an error if the metadata cannot be fetched', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      project.getMetadata = (callback: Function) => {
+        callback(error, apiResponse);
+      };
+      project.request = () => {
+        throw new Error('Should not have been called.');
+      };
+      project.move(
+        DESTINATION,
+        (err: Error, operation: {}, apiResponse_: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(operation, null);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should refuse to move a project which is not active', done => {
+      const metadata = {lifecycleState: 'DELETE_REQUESTED'};
+      project.getMetadata = (callback: Function) => {
+        callback(null, metadata);
+      };
+      project.request = () => {
+        throw new Error('Should not have been called.');
+      };
+      project.move(
+        DESTINATION,
+        (err: Error, operation: {}, apiResponse: Metadata) => {
+          assert.strictEqual(
+            err.message,
+            `Project ${ID} cannot be moved while its lifecycle state is DELETE_REQUESTED.`
+          );
+          assert.strictEqual(operation, null);
+          assert.strictEqual(apiResponse, metadata);
+          done();
+        }
+      );
+    });
+
+    it('should execute the callback with error & API response', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+      project.move(
+        DESTINATION,
+        (err: Error, operation: {}, apiResponse_: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(operation, null);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should return an Operation', done => {
+      const apiResponse = {name: 'operations/mp.1234'};
+      project.resource.operationV3_ = (name: string) => {
+        assert.strictEqual(name, apiResponse.name);
+        return OPERATION;
+      };
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(null, apiResponse);
+      };
+      project.move(
+        DESTINATION,
+        (err: Error, operation: Metadata, apiResponse_: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(operation, OPERATION);
+          assert.strictEqual(operation.metadata, apiResponse);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+  });
+
+  describe('tags', () => {
+    const FULL_RESOURCE_NAME =
+      '//cloudresourcemanager.googleapis.com/projects/1234567890';
+    const OPERATION: Metadata = {};
+
+    beforeEach(() => {
+      project.getFullResourceName_ = (callback: Function) => {
+        callback(null, FULL_RESOURCE_NAME);
+      };
+      project.resource = {
+        getBaseUrl_(version: string) {
+          return `https://fake.endpoint/${version}`;
+        },
+        operationV3_() {
+          return OPERATION;
+        },
+        handleOperationV3_: Resource.prototype.handleOperationV3_,
+      };
+    });
+
+    describe('bindTag', () => {
+      it('should make the correct API request', done => {
+        project.request = (reqOpts: DecorateRequestOptions) => {
+          assert.strictEqual(reqOpts.method, 'POST');
+          assert.strictEqual(
+            reqOpts.uri,
+            'https://fake.endpoint/v3/tagBindings'
+          );
+          assert.deepStrictEqual(reqOpts.json, {
+            parent: FULL_RESOURCE_NAME,
+            tagValue: 'tagValues/5678',
+          });
+          done();
+        };
+        project.bindTag('5678', assert.ifError);
+      });
+
+      it('should accept a TagValue', done => {
+        project.request = (reqOpts: DecorateRequestOptions) => {
+          assert.strictEqual(reqOpts.json.tagValue, 'tagValues/5678');
+          done();
+        };
+        project.bindTag({id: '5678'}, assert.ifError);
+      });
+
+      it('should return an error if the project cannot be resolved', done => {
+        const error = new Error('Error.');
+        const apiResponse = {};
+        project.getFullResourceName_ = (callback: Function) => {
+          callback(error, undefined, apiResponse);
+        };
+        project.bindTag(
+          'tagValues/5678',
+          (err: Error, operation: {}, apiResponse_: Metadata) => {
+            assert.strictEqual(err, error);
+            assert.strictEqual(operation, null);
+            assert.strictEqual(apiResponse_, apiResponse);
+            done();
+          }
+        );
+      });
+
+      it('should return an Operation', done => {
+        const apiResponse = {name: 'operations/rctb.1234'};
+        project.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(null, apiResponse);
+        };
+        project.bindTag(
+          '5678',
+          (err: Error, operation: Metadata, apiResponse_: Metadata) => {
+            assert.ifError(err);
+            assert.strictEqual(operation, OPERATION);
+            assert.strictEqual(operation.metadata, apiResponse);
+            assert.strictEqual(apiResponse_, apiResponse);
+            done();
+          }
+        );
+      });
+    });
+
+    describe('getEffectiveTags', () => {
+      it('should make the correct API request', done => {
+        project.request = (reqOpts: DecorateRequestOptions) => {
+          assert.strictEqual(
+            reqOpts.uri,
+            'https://fake.endpoint/v3/effectiveTags'
+          );
+          assert.deepStrictEqual(reqOpts.qs, {
+            pageSize: 10,
+            pageToken: undefined,
+            parent: FULL_RESOURCE_NAME,
+          });
+          done();
+        };
+        project.getEffectiveTags({pageSize: 10}, assert.ifError);
+      });
+
+      it('should execute the callback with error & API response', done => {
+        const error = new Error('Error.');
+        const apiResponse = {};
+        project.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(error, apiResponse);
+        };
+        project.getEffectiveTags(
+          (err: Error, tags: {}, nextQuery: {}, apiResponse_: Metadata) => {
+            assert.strictEqual(err, error);
+            assert.strictEqual(tags, null);
+            assert.strictEqual(nextQuery, null);
+            assert.strictEqual(apiResponse_, apiResponse);
+            done();
+          }
+        );
+      });
+
+      it('should return the effective tags and a nextQuery', done => {
+        const apiResponse = {
+          effectiveTags: [
+            {
+              tagValue: 'tagValues/5678',
+              namespacedTagValue: '1234/environment/production',
+              tagKey: 'tagKeys/1234',
+              namespacedTagKey: '1234/environment',
+              inherited: true,
+            },
+          ],
+          nextPageToken: 'next-token',
+        };
+        project.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(null, apiResponse);
+        };
+        project.getEffectiveTags((err: Error, tags: {}, nextQuery: {}) => {
+          assert.ifError(err);
+          assert.strictEqual(tags, apiResponse.effectiveTags);
+          assert.deepStrictEqual(nextQuery, {pageToken: 'next-token'});
+          done();
+        });
+      });
+    });
+
+    describe('getTagBindings', () => {
+      it('should make the correct API request', done => {
+        project.request = (reqOpts: DecorateRequestOptions) => {
+          assert.strictEqual(
+            reqOpts.uri,
+            'https://fake.endpoint/v3/tagBindings'
+          );
+          assert.deepStrictEqual(reqOpts.qs, {
+            pageSize: undefined,
+            pageToken: 'token',
+            parent: FULL_RESOURCE_NAME,
+          });
+          done();
+        };
+        project.getTagBindings({pageToken: 'token'}, assert.ifError);
+      });
+
+      it('should return an error if the project cannot be resolved', done => {
+        const error = new Error('Error.');
+        const apiResponse = {};
+        project.getFullResourceName_ = (callback: Function) => {
+          callback(error, undefined, apiResponse);
+        };
+        project.getTagBindings(
+          (err: Error, tagBindings: {}, nextQuery: {}, apiResponse_: {}) => {
+            assert.strictEqual(err, error);
+            assert.strictEqual(tagBindings, null);
+            assert.strictEqual(nextQuery, null);
+            assert.strictEqual(apiResponse_, apiResponse);
+            done();
+          }
+        );
+      });
+
+      it('should return the tag bindings', done => {
+        project.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(null, {});
+        };
+        project.getTagBindings((err: Error, tagBindings: {}, nextQuery: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(tagBindings, []);
+          assert.strictEqual(nextQuery, undefined);
+          done();
+        });
+      });
+    });
+
+    describe('unbindTag', () => {
+      it('should make the correct API request', done => {
+        project.request = (reqOpts: DecorateRequestOptions) => {
+          assert.strictEqual(reqOpts.method, 'DELETE');
+          assert.strictEqual(
+            reqOpts.uri,
+            'https://fake.endpoint/v3/tagBindings/' +
+              '%2F%2Fcloudresourcemanager.googleapis.com%2Fprojects%2F1234567890' +
+              '/tagValues/5678'
+          );
+          done();
+        };
+        project.unbindTag('tagValues/5678', assert.ifError);
+      });
+
+      it('should execute the callback with error & API response', done => {
+        const error = new Error('Error.');
+        const apiResponse = {};
+        project.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(error, apiResponse);
+        };
+        project.unbindTag(
+          '5678',
+          (err: Error, operation: {}, apiResponse_: Metadata) => {
+            assert.strictEqual(err, error);
+            assert.strictEqual(operation, null);
+            assert.strictEqual(apiResponse_, apiResponse);
+            done();
+          }
+        );
+      });
+    });
+
+    describe('getFullResourceName_', () => {
+      beforeEach(() => {
+        delete project.getFullResourceName_;
+      });
+
+      it('should use the project number of the metadata', done => {
+        project.metadata = {projectNumber: '1234567890'};
+        project.getMetadata = () => {
+          throw new Error('Should not have been called.');
+        };
+        project.getFullResourceName_((err: Error, name: string) => {
+          assert.ifError(err);
+          assert.strictEqual(name, FULL_RESOURCE_NAME);
+          done();
+        });
+      });
+
+      it('should fetch the project number', done => {
+        const metadata = {projectNumber: '1234567890'};
+        project.getMetadata = (callback: Function) => {
+          callback(null, metadata);
+        };
+        project.getFullResourceName_(
+          (err: Error, name: string, apiResponse: Metadata) => {
+            assert.ifError(err);
+            assert.strictEqual(name, FULL_RESOURCE_NAME);
+            assert.strictEqual(apiResponse, metadata);
+            done();
+          }
+        );
+      });
+
+      it('should execute the callback with error & API response', done => {
+        const error = new Error('Error.');
+        const apiResponse = {};
+        project.getMetadata = (callback: Function) => {
+          callback(error, apiResponse);
+        };
+        project.getFullResourceName_(
+          (err: Error, name: string, apiResponse_: Metadata) => {
+            assert.strictEqual(err, error);
+            assert.strictEqual(name, undefined);
+            assert.strictEqual(apiResponse_, apiResponse);
+            done();
+          }
+        );
+      });
+    });
+  });
+
+  describe('labels', () => {
+    const URI = `https://fake.endpoint/v3/projects/${ID}`;
+    const originalSetTimeout = global.setTimeout;
+    let current: Metadata;
+    let written: Metadata[];
+    let delays: number[];
+    let operation: EventEmitter;
+
+    beforeEach(() => {
+      current = {labels: {env: 'dev', team: 'billing'}, etag: 'etag-1'};
+      written = [];
+      delays = [];
+      operation = new EventEmitter();
+      Object.assign(global, {
+        setTimeout(fn: Function, delay: number) {
+          delays.push(delay);
+          process.nextTick(fn);
+        },
+      });
+      project.resource = {
+        getBaseUrl_(version: string) {
+          return `https://fake.endpoint/${version}`;
+        },
+        operationV3_(name: string) {
+          assert.strictEqual(name, 'operations/1');
+          return operation;
+        },
+      };
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        if (reqOpts.method === 'PATCH') {
+          written.push(reqOpts);
+          callback(null, {name: 'operations/1', done: true});
+          return;
+        }
+        assert.strictEqual(reqOpts.method, undefined);
+        assert.strictEqual(reqOpts.uri, URI);
+        callback(null, current);
+      };
+    });
+
+    afterEach(() => {
+      Object.assign(global, {setTimeout: originalSetTimeout});
+    });
+
+    describe('getLabels', () => {
+      it('should return the labels of the project', done => {
+        const apiResponse = {};
+        project.getMetadata = (callback: Function) => {
+          callback(null, {labels: {env: 'prod'}}, apiResponse);
+        };
+        project.getLabels((err: Error, labels: {}, apiResponse_: Metadata) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(labels, {env: 'prod'});
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        });
+      });
+
+      it('should return an empty object without labels', done => {
+        project.getMetadata = (callback: Function) => {
+          callback(null, {});
+        };
+        project.getLabels((err: Error, labels: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(labels, {});
+          done();
+        });
+      });
+
+      it('should return the metadata error', done => {
+        const error = new Error('Error.');
+        const apiResponse = {};
+        project.getMetadata = (callback: Function) => {
+          callback(error, undefined, apiResponse);
+        };
+        project.getLabels((err: Error, labels: {}, apiResponse_: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(labels, null);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        });
+      });
+    });
+
+    describe('setLabels', () => {
+      it('should write only the labels with the etag read', done => {
+        project.setLabels({env: 'prod'}, (err: Error, labels: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(labels, {env: 'prod'});
+          assert.strictEqual(written.length, 1);
+          assert.strictEqual(written[0].uri, URI);
+          assert.deepStrictEqual(written[0].qs, {updateMask: 'labels'});
+          assert.deepStrictEqual(written[0].json, {
+            labels: {env: 'prod'},
+            etag: 'etag-1',
+          });
+          done();
+        });
+      });
+
+      it('should update the metadata', done => {
+        project.setLabels({env: 'prod'}, (err: Error) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(project.metadata.labels, {env: 'prod'});
+          done();
+        });
+      });
+
+      it('should not send invalid labels', done => {
+        project.setLabels({Env: 'prod'}, (err: Error, labels: {}) => {
+          assert.strictEqual(err.message, 'Invalid label key "Env".');
+          assert.strictEqual(labels, null);
+          assert.strictEqual(written.length, 0);
+          done();
+        });
+      });
+
+      it('should return the read error', done => {
+        const error = new Error('Error.');
+        const apiResponse = {};
+        project.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          callback(error, apiResponse);
+        };
+        project.setLabels(
+          {env: 'prod'},
+          (err: Error, labels: {}, apiResponse_: Metadata) => {
+            assert.strictEqual(err, error);
+            assert.strictEqual(labels, null);
+            assert.strictEqual(apiResponse_, apiResponse);
+            done();
+          }
+        );
+      });
+
+      it('should retry when the project changed in between', done => {
+        const conflict = Object.assign(new Error('Conflict.'), {code: 409});
+        const read = project.request;
+        let patches = 0;
+        project.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          if (reqOpts.method === 'PATCH' && patches++ === 0) {
+            current = {labels: {team: 'payments'}, etag: 'etag-2'};
+            callback(conflict);
+            return;
+          }
+          read(reqOpts, callback);
+        };
+        project.addLabels({env: 'prod'}, (err: Error, labels: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(labels, {team: 'payments', env: 'prod'});
+          assert.strictEqual(written[0].json.etag, 'etag-2');
+          assert.deepStrictEqual(delays, [1000]);
+          done();
+        });
+      });
+
+      it('should give up after 5 attempts', done => {
+        const conflict = Object.assign(new Error('Conflict.'), {code: 409});
+        let reads = 0;
+        project.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          if (reqOpts.method === 'PATCH') {
+            callback(conflict);
+            return;
+          }
+          reads++;
+          callback(null, current);
+        };
+        project.setLabels({env: 'prod'}, (err: Error) => {
+          assert.strictEqual(err, conflict);
+          assert.strictEqual(reads, 5);
+          assert.deepStrictEqual(delays, [1000, 2000, 4000, 8000]);
+          done();
+        });
+      });
+
+      it('should wait for the update operation', done => {
+        const apiResponse = {name: 'operations/1', done: true};
+        project.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          if (reqOpts.method === 'PATCH') {
+            callback(null, {name: 'operations/1', done: false});
+            return;
+          }
+          callback(null, current);
+        };
+        project.metadata = {labels: {}};
+        project.setLabels(
+          {env: 'prod'},
+          (err: Error, labels: {}, apiResponse_: Metadata) => {
+            assert.ifError(err);
+            assert.deepStrictEqual(labels, {env: 'prod'});
+            assert.strictEqual(apiResponse_, apiResponse);
+            assert.deepStrictEqual(project.metadata.labels, {env: 'prod'});
+            done();
+          }
+        );
+        setImmediate(() => {
+          assert.deepStrictEqual(project.metadata.labels, {});
+          operation.emit('complete', apiResponse);
+        });
+      });
+
+      it('should return the error of the update operation', done => {
+        const status = {code: 9, message: 'Precondition failed.'};
+        project.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          if (reqOpts.method === 'PATCH') {
+            callback(null, {name: 'operations/1', done: false});
+            return;
+          }
+          callback(null, current);
+        };
+        project.setLabels({env: 'prod'}, (err: Error, labels: {}) => {
+          assert.strictEqual(err.name, 'OperationError');
+          assert.strictEqual(err.message, status.message);
+          assert.strictEqual(labels, null);
+          done();
+        });
+        setImmediate(() => operation.emit('error', status));
+      });
+
+      it('should return an OperationError for a failed update', done => {
+        const status = {code: 3, message: 'Invalid labels.'};
+        project.request = (
+          reqOpts: DecorateRequestOptions,
+          callback: Function
+        ) => {
+          if (reqOpts.method === 'PATCH') {
+            callback(null, {name: 'operations/1', done: true, error: status});
+            return;
+          }
+          callback(null, current);
+        };
+        project.setLabels({env: 'prod'}, (err: Error, labels: {}) => {
+          assert.strictEqual(err.name, 'OperationError');
+          assert.strictEqual(err.message, status.message);
+          assert.strictEqual(labels, null);
+          done();
+        });
+      });
+    });
+
+    describe('addLabels', () => {
+      it('should merge the labels into the current ones', done => {
+        project.addLabels({env: 'prod', tier: 'web'}, (err: Error) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(written[0].json.labels, {
+            env: 'prod',
+            team: 'billing',
+            tier: 'web',
+          });
+          done();
+        });
+      });
+
+      it('should not exceed the label limit', done => {
+        const labels: {[key: string]: string} = {};
+        for (let i = 0; i < 63; i++) {
+          labels[`label-${i}`] = 'value';
+        }
+        project.addLabels(labels, (err: Error) => {
+          assert.strictEqual(
+            err.message,
+            'A project can have at most 64 labels, got 65.'
+          );
+          assert.strictEqual(written.length, 0);
+          done();
+        });
+      });
+    });
+
+    describe('removeLabels', () => {
+      it('should remove a label', done => {
+        project.removeLabels('team', (err: Error, labels: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(labels, {env: 'dev'});
+          assert.deepStrictEqual(written[0].json.labels, {env: 'dev'});
+          done();
+        });
+      });
+
+      it('should remove several labels and ignore unknown keys', done => {
+        project.removeLabels(['env', 'team', 'tier'], (err: Error) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(written[0].json.labels, {});
+          done();
+        });
+      });
+    });
+  });
+
+  describe('restore', () => {
+    const error = new Error('Error.');
+    const apiResponse = {a: 'b', c: 'd'};
+
+    beforeEach(() => {
+      project.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: Function
+      ) => {
+        callback(error, apiResponse);
+      };
+    });
+
+    it('should make the correct API request', done => {
+      project.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'POST');
+        assert.strictEqual(reqOpts.uri, ':undelete');
+        done();
+      };
+      project.restore(assert.ifError);
+    });
+
+    it('should execute the callback with error & API response', done => {
+      project.restore((err: Error, apiResponse_: Metadata) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(apiResponse_, apiResponse);
+        done();
+      });
+    });
+
+    it('should not require a callback', () => {
+      assert.doesNotThrow(() => {
+        project.restore();
+      });
+    });
+
+    it('should only describe the request in dry-run mode', done => {
+      project.request = () => {
+        throw new Error('Should not have made a request.');
+      };
+      project.getMetadata = (callback: Function) => {
+        callback(null, {lifecycleState: 'DELETE_REQUESTED'});
+      };
+      project.restore({dryRun: true}, (err: Error, dryRunRequest: {}) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(dryRunRequest, {
+          dryRun: true,
+          method: 'POST',
+          uri: `/projects/${ID}/:undelete`,
+        });
+        done();
+      });
+    });
+
+    it('should refuse an active project in dry-run mode', done => {
+      const metadata = {lifecycleState: 'ACTIVE'};
+      project.getMetadata = (callback: Function) => {
+        callback(null, metadata);
+      };
+      project.restore({dryRun: true}, (err: Error, apiResponse_: Metadata) => {
+        assert.strictEqual(
+          err.message,
+          `Project ${ID} cannot be restored while its lifecycle state is ACTIVE.`
+        );
+        assert.strictEqual(apiResponse_, metadata);
+        done();
+      });
+    });
+  });
+
+  describe('delete', () => {
+    const apiResponse = {};
+
+    afterEach(() => {
+      delete (FakeServiceObject.prototype as {delete?: Function}).delete;
+    });
+
+    it('should call ServiceObject#delete', done => {
+      Object.assign(FakeServiceObject.prototype, {
+        delete(options: {}, callback: Function) {
+          assert.deepStrictEqual(options, {ignoreNotFound: true});
+          callback(null, apiResponse);
+        },
+      });
+      project.delete(
+        {ignoreNotFound: true, dryRun: false},
+        (err: Error, apiResponse_: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        }
+      );
+    });
+
+    it('should only describe the request in dry-run mode', done => {
+      Object.assign(FakeServiceObject.prototype, {
+        delete() {
+          throw new Error('Should not have deleted the project.');
+        },
+      });
+      project.getMetadata = (callback: Function) => {
+        callback(null, {lifecycleState: 'ACTIVE'});
+      };
+      project.delete({dryRun: true}, (err: Error, dryRunRequest: {}) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(dryRunRequest, {
+          dryRun: true,
+          method: 'DELETE',
+          uri: `/projects/${ID}/`,
+        });
+        done();
+      });
+    });
+
+    it('should refuse a project marked for deletion in dry-run mode', done => {
+      project.getMetadata = (callback: Function) => {
+        callback(null, {lifecycleState: 'DELETE_REQUESTED'});
+      };
+      project.delete({dryRun: true}, (err: Error) => {
+        assert.strictEqual(
+          err.message,
+          `Project ${ID} cannot be deleted while its lifecycle state is ` +
+            'DELETE_REQUESTED.'
+        );
+        done();
+      });
+    });
+
+    it('should return the read error in dry-run mode', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      project.getMetadata = (callback: Function) => {
+        callback(error, apiResponse);
+      };
+      project.delete({dryRun: true}, (err: Error, apiResponse_: Metadata) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(apiResponse_, apiResponse);
+        done();
+      });
+    });
+  });
+
+  describe('setMetadata', () => {
+    const METADATA = {name: 'Grape'};
+    const apiResponse = {};
+
+    afterEach(() => {
+      delete (FakeServiceObject.prototype as {setMetadata?: Function})
+        .setMetadata;
+    });
+
+    it('should call ServiceObject#setMetadata', done => {
+      Object.assign(FakeServiceObject.prototype, {
+        setMetadata(metadata: {}, options: {}, callback: Function) {
+          assert.strictEqual(metadata, METADATA);
+          assert.deepStrictEqual(options, {});
+          callback(null, apiResponse);
+        },
+      });
+      project.setMetadata(METADATA, (err: Error, apiResponse_: Metadata) => {
+        assert.ifError(err);
+        assert.strictEqual(apiResponse_, apiResponse);
+        done();
+      });
+    });
+
+    it('should only describe the request in dry-run mode', done => {
+      Object.assign(FakeServiceObject.prototype, {
+        setMetadata() {
+          throw new Error('Should not have updated the project.');
+        },
+      });
+      project.setMetadata(
+        METADATA,
+        {dryRun: true},
+        (err: Error, dryRunRequest: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(dryRunRequest, {
+            dryRun: true,
+            method: 'PUT',
+            uri: `/projects/${ID}/`,
+            json: METADATA,
+          });
+          done();
+        }
+      );
+    });
+
+    it('should reject an invalid name in dry-run mode', done => {
+      project.setMetadata(
+        {name: 'grape_spaceship'},
+        {dryRun: true},
+        (err: Error, dryRunRequest: {}) => {
+          assert.ok(/Invalid project name "grape_spaceship"/.test(err.message));
+          assert.strictEqual(dryRunRequest, undefined);
+          done();
+        }
+      );
+    });
+
+    it('should reject invalid labels without a request', done => {
+      Object.assign(FakeServiceObject.prototype, {
+        setMetadata() {
+          throw new Error('Should not have updated the project.');
+        },
+      });
+      project.setMetadata({labels: {env: 'Prod'}}, (err: Error) => {
+        assert.strictEqual(
+          err.message,
+          'Invalid value "Prod" for label "env".'
+        );
+        done();
       });
     });
   });
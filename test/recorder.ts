@@ -0,0 +1,190 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ApiError, DecorateRequestOptions} from '@google-cloud/common';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import {describe, it, after, before} from 'mocha';
+import * as os from 'os';
+import * as path from 'path';
+
+import {Resource} from '../src';
+import {ResourceManagerEmulator} from '../src/emulator';
+import {Recorder, Recording} from '../src/recorder';
+
+describe('Recorder', () => {
+  const BASE_URL = 'http://localhost:8085/v1';
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resource-recorder-'));
+  });
+
+  after(() => {
+    fs.readdirSync(dir).forEach(file => fs.unlinkSync(path.join(dir, file)));
+    fs.rmdirSync(dir);
+  });
+
+  function readRecording(file: string): Recording {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  it('should throw for an invalid mode', () => {
+    assert.throws(() => {
+      new Recorder({mode: 'play' as 'replay', path: 'fixture.json'});
+    }, /Invalid recording mode "play"\./);
+  });
+
+  it('should throw if the recording cannot be read', () => {
+    const file = path.join(dir, 'missing.json');
+    assert.throws(() => {
+      new Recorder({mode: 'replay', path: file});
+    }, /Could not read the recording/);
+  });
+
+  it('should record requests with credentials scrubbed', done => {
+    const file = path.join(dir, 'scrubbed.json');
+    const recorder = new Recorder({mode: 'record', path: file});
+    const body = {name: 'operations/1', token: {access_token: 'secret'}};
+    recorder.request(
+      {
+        method: 'POST',
+        uri: '/projects/abc/:getIamPolicy',
+        headers: {Authorization: 'Bearer secret'},
+        json: {options: {}, private_key: 'secret'},
+      },
+      BASE_URL,
+      (reqOpts: DecorateRequestOptions, callback: Function) => {
+        callback(null, body);
+      },
+      (err, body_) => {
+        assert.ifError(err);
+        assert.strictEqual(body_, body);
+        assert.deepStrictEqual(readRecording(file).interactions, [
+          {
+            request: {
+              method: 'POST',
+              uri: `${BASE_URL}/projects/abc:getIamPolicy`,
+              json: {options: {}, private_key: '[REDACTED]'},
+            },
+            body: {name: 'operations/1', token: {access_token: '[REDACTED]'}},
+          },
+        ]);
+        done();
+      }
+    );
+  });
+
+  it('should record and replay errors', done => {
+    const file = path.join(dir, 'errors.json');
+    const recorder = new Recorder({mode: 'record', path: file});
+    const reqOpts = {uri: 'https://fake.endpoint/v3/projects/abc'};
+    const error = Object.assign(new ApiError('Not found.'), {
+      code: 404,
+      errors: [{reason: 'notFound'}],
+    });
+    recorder.request(
+      reqOpts,
+      BASE_URL,
+      (reqOpts: DecorateRequestOptions, callback: Function) => {
+        callback(error);
+      },
+      err => {
+        assert.strictEqual(err, error);
+        const replayer = new Recorder({mode: 'replay', path: file});
+        replayer.request(
+          reqOpts,
+          BASE_URL,
+          () => {
+            throw new Error('Should not have been called.');
+          },
+          err => {
+            const apiError = err as ApiError;
+            assert(apiError instanceof ApiError);
+            assert.strictEqual(apiError.code, 404);
+            assert.strictEqual(apiError.message, 'Not found.');
+            assert.deepStrictEqual(apiError.errors, [{reason: 'notFound'}]);
+            done();
+          }
+        );
+      }
+    );
+  });
+
+  describe('with a Resource', () => {
+    const emulator = new ResourceManagerEmulator();
+    let apiEndpoint: string;
+    let file: string;
+
+    before(async () => {
+      [apiEndpoint] = await emulator.start();
+      file = path.join(dir, 'flow.json');
+    });
+
+    after(async () => {
+      await emulator.stop();
+    });
+
+    async function flow(resource: Resource) {
+      const [, operation] = await resource.createProject('grape-spaceship-123');
+      const [project] = await operation!.waitForCompletion({pollIntervalMs: 1});
+      const [metadata] = await project.getMetadata();
+      const [exists] = await resource.project('missing-project').exists();
+      return {metadata, exists};
+    }
+
+    it('should replay a recorded flow without the API', async () => {
+      const recorded = await flow(
+        new Resource({
+          apiEndpoint,
+          projectId: 'emulator',
+          recording: {mode: 'record', path: file},
+        })
+      );
+      const requests = readRecording(file).interactions.map(
+        ({request}) =>
+          `${request.method} ${request.uri.replace(apiEndpoint, '')}`
+      );
+      assert.deepStrictEqual(requests, [
+        'POST /v1/projects',
+        'GET /v1/operations/cp.1',
+        'GET /v1/projects/grape-spaceship-123',
+        'GET /v1/projects/missing-project',
+      ]);
+
+      await emulator.stop();
+      const replayed = await flow(
+        new Resource({
+          apiEndpoint,
+          projectId: 'emulator',
+          recording: {mode: 'replay', path: file},
+        })
+      );
+      assert.deepStrictEqual(replayed, recorded);
+    });
+
+    it('should fail on requests which were not recorded', async () => {
+      const resource = new Resource({
+        apiEndpoint,
+        recording: {mode: 'replay', path: file},
+      });
+      await assert.rejects(
+        resource.project('other-project').getMetadata(),
+        /No recorded response for GET .*\/v1\/projects\/other-project/
+      );
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  DecorateRequestOptions,
+  Operation,
+  ServiceObject,
+  ServiceObjectConfig,
+  Metadata,
+} from '@google-cloud/common';
+import * as promisify from '@google-cloud/promisify';
+import * as assert from 'assert';
+import {describe, it, before, beforeEach} from 'mocha';
+import * as proxyquire from 'proxyquire';
+import {Resource} from '../src';
+
+let promisified = false;
+const fakePromisify = Object.assign({}, promisify, {
+  promisifyAll(Class: Function) {
+    if (Class.name === 'TagServiceObject') {
+      promisified = true;
+    }
+  },
+});
+
+class FakeServiceObject extends ServiceObject {
+  calledWith_: Array<{}>;
+  constructor(config: ServiceObjectConfig) {
+    super(config);
+    this.calledWith_ = [config];
+  }
+}
+
+const TAGS = [
+  {className: 'TagKey', path: '../src/tag-key.js', collection: 'tagKeys'},
+  {className: 'TagValue', path: '../src/tag-value.js', collection: 'tagValues'},
+];
+
+TAGS.forEach(({className, path, collection}) => {
+  describe(className, () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let Tag: any;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let tag: any;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let IamServiceObject: any;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let TagServiceObject: any;
+
+    const OPERATION = {};
+    const RESOURCE = {
+      getBaseUrl_(version: string) {
+        return `https://fake.endpoint/${version}`;
+      },
+      operationV3_() {
+        return OPERATION;
+      },
+      handleOperationV3_: Resource.prototype.handleOperationV3_,
+    };
+    const ID = '1234567890';
+
+    before(() => {
+      IamServiceObject = proxyquire('../src/iam.js', {
+        '@google-cloud/common': {
+          ServiceObject: FakeServiceObject,
+        },
+      }).IamServiceObject;
+      TagServiceObject = proxyquire('../src/tag.js', {
+        './iam': {IamServiceObject},
+        '@google-cloud/promisify': fakePromisify,
+      }).TagServiceObject;
+      Tag = proxyquire(path, {
+        './tag': {TagServiceObject},
+      })[className];
+    });
+
+    beforeEach(() => {
+      tag = new Tag(RESOURCE, ID);
+    });
+
+    describe('instantiation', () => {
+      it('should inherit from TagServiceObject', () => {
+        const calledWith = tag.calledWith_[0];
+
+        assert(tag instanceof ServiceObject);
+        assert(tag instanceof IamServiceObject);
+        assert(tag instanceof TagServiceObject);
+
+        assert.strictEqual(calledWith.parent, RESOURCE);
+        assert.strictEqual(
+          calledWith.baseUrl,
+          `https://fake.endpoint/v3/${collection}`
+        );
+        assert.strictEqual(calledWith.id, ID);
+        assert.deepStrictEqual(calledWith.methods, {
+          exists: true,
+          get: true,
+          getMetadata: true,
+        });
+      });
+
+      it('should accept a fully qualified name', () => {
+        const tag = new Tag(RESOURCE, `${collection}/${ID}`);
+        assert.strictEqual(tag.calledWith_[0].id, ID);
+      });
+
+      it('should localize the resource', () => {
+        assert.strictEqual(tag.resource, RESOURCE);
+      });
+
+      it('should promisify all the things', () => {
+        assert(promisified);
+      });
+    });
+
+    describe('delete', () => {
+      it('should make the correct API request', done => {
+        tag.request = (reqOpts: DecorateRequestOptions) => {
+          assert.strictEqual(reqOpts.method, 'DELETE');
+          assert.strictEqual(reqOpts.uri, '');
+          done();
+        };
+        tag.delete(assert.ifError);
+      });
+
+      it('should execute the callback with error & API response', done => {
+        const error = new Error('Error.');
+        const apiResponse = {};
+        tag.request = (reqOpts: DecorateRequestOptions, callback: Function) => {
+          callback(error, apiResponse);
+        };
+        tag.delete((err: Error, operation: Operation, resp: Metadata) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(operation, null);
+          assert.strictEqual(resp, apiResponse);
+          done();
+        });
+      });
+
+      it('should return an Operation', done => {
+        const apiResponse = {name: 'operations/td.1234'};
+        tag.request = (reqOpts: DecorateRequestOptions, callback: Function) => {
+          callback(null, apiResponse);
+        };
+        tag.delete((err: Error, operation: Operation, resp: Metadata) => {
+          assert.ifError(err);
+          assert.strictEqual(operation, OPERATION);
+          assert.strictEqual(resp, apiResponse);
+          done();
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {
+  validateLabels,
+  validatePolicy,
+  validateProjectId,
+  validateProjectMetadata,
+  validateProjectName,
+} from '../src/validation';
+
+describe('validateLabels', () => {
+  it('should accept valid labels', () => {
+    assert.doesNotThrow(() => {
+      validateLabels({env: 'prod', 'cost-center': '', team_1: 'a-b_c'});
+    });
+  });
+
+  it('should accept 64 labels', () => {
+    const labels: {[key: string]: string} = {};
+    for (let i = 0; i < 64; i++) {
+      labels[`label-${i}`] = 'value';
+    }
+    assert.doesNotThrow(() => {
+      validateLabels(labels);
+    });
+  });
+
+  it('should throw for more than 64 labels', () => {
+    const labels: {[key: string]: string} = {};
+    for (let i = 0; i < 65; i++) {
+      labels[`label-${i}`] = 'value';
+    }
+    assert.throws(() => {
+      validateLabels(labels);
+    }, /A project can have at most 64 labels, got 65\./);
+  });
+
+  it('should throw for an invalid key', () => {
+    ['', 'Env', '1env', 'env.name', 'e'.repeat(64)].forEach(key => {
+      assert.throws(() => {
+        validateLabels({[key]: 'prod'});
+      }, new RegExp(`Invalid label key "${key}"\\.`));
+    });
+  });
+
+  it('should throw for an invalid value', () => {
+    ['Prod', 'prod env', 'v'.repeat(64)].forEach(value => {
+      assert.throws(() => {
+        validateLabels({env: value});
+      }, new RegExp(`Invalid value "${value}" for label "env"\\.`));
+    });
+  });
+
+  it('should throw for a value which is not a string', () => {
+    assert.throws(() => {
+      validateLabels({env: 1 as never});
+    }, /Invalid value "1" for label "env"\./);
+  });
+});
+
+describe('validateProjectId', () => {
+  it('should accept valid project IDs', () => {
+    ['grape-spaceship-123', 'abcdef', 'a'.repeat(30)].forEach(id => {
+      assert.doesNotThrow(() => {
+        validateProjectId(id);
+      });
+    });
+  });
+
+  it('should throw for an ID of the wrong length', () => {
+    ['', 'abcde', 'a'.repeat(31)].forEach(id => {
+      assert.throws(() => {
+        validateProjectId(id);
+      }, new RegExp(`Invalid project ID "${id}": it must be 6 to 30 characters long\\.`));
+    });
+  });
+
+  it('should throw for an ID not starting with a letter', () => {
+    assert.throws(() => {
+      validateProjectId('1grape');
+    }, /Invalid project ID "1grape": it must start with a lowercase letter\./);
+  });
+
+  it('should throw for an ID with invalid characters', () => {
+    ['grape_spaceship', 'grape spaceship', 'grape.spaceship'].forEach(id => {
+      assert.throws(() => {
+        validateProjectId(id);
+      }, /it can only contain lowercase letters, digits and hyphens\./);
+    });
+  });
+
+  it('should throw for an ID ending with a hyphen', () => {
+    assert.throws(() => {
+      validateProjectId('grape-spaceship-');
+    }, /Invalid project ID "grape-spaceship-": it cannot end with a hyphen\./);
+  });
+
+  it('should throw for an ID containing a restricted string', () => {
+    assert.throws(() => {
+      validateProjectId('my-google-project');
+    }, /Invalid project ID "my-google-project": it cannot contain "google"\./);
+    assert.throws(() => {
+      validateProjectId('undefined-project');
+    }, /it cannot contain "undefined"\./);
+  });
+});
+
+describe('validateProjectName', () => {
+  it('should accept valid names', () => {
+    ['Grape', 'My "big" project!', "Bob's project-1"].forEach(name => {
+      assert.doesNotThrow(() => {
+        validateProjectName(name);
+      });
+    });
+  });
+
+  it('should throw for a name of the wrong length', () => {
+    ['abc', 'n'.repeat(31)].forEach(name => {
+      assert.throws(() => {
+        validateProjectName(name);
+      }, new RegExp(`Invalid project name "${name}": it must be 4 to 30 characters long\\.`));
+    });
+  });
+
+  it('should throw for a name with invalid characters', () => {
+    assert.throws(() => {
+      validateProjectName('grape_spaceship');
+    }, /Invalid project name "grape_spaceship": it can only contain letters, digits, spaces, hyphens, quotes and exclamation points\./);
+  });
+});
+
+describe('validateProjectMetadata', () => {
+  it('should accept metadata without a name or labels', () => {
+    assert.doesNotThrow(() => {
+      validateProjectMetadata({});
+    });
+  });
+
+  it('should check the name', () => {
+    assert.throws(() => {
+      validateProjectMetadata({name: 'abc'});
+    }, /Invalid project name "abc"/);
+  });
+
+  it('should check the labels', () => {
+    assert.throws(() => {
+      validateProjectMetadata({name: 'Grape', labels: {Env: 'prod'}});
+    }, /Invalid label key "Env"\./);
+  });
+});
+
+describe('validatePolicy', () => {
+  const CONDITION = {title: 'expires', expression: 'true'};
+
+  it('should accept a policy without conditions', () => {
+    assert.doesNotThrow(() => {
+      validatePolicy({
+        version: 1,
+        bindings: [{role: 'roles/viewer', members: ['user:a@example.com']}],
+        auditConfigs: [],
+        etag: 'etag',
+      });
+    });
+  });
+
+  it('should accept conditions at version 3', () => {
+    assert.doesNotThrow(() => {
+      validatePolicy({
+        version: 3,
+        bindings: [{role: 'roles/viewer', members: [], condition: CONDITION}],
+        auditConfigs: [],
+        etag: 'etag',
+      });
+    });
+  });
+
+  it('should throw for conditions below version 3', () => {
+    assert.throws(() => {
+      validatePolicy({
+        version: 1,
+        bindings: [
+          {role: 'roles/viewer', members: [], condition: CONDITION},
+          {role: 'roles/editor', members: []},
+        ],
+        auditConfigs: [],
+        etag: 'etag',
+      });
+    }, /A policy with conditional bindings must have version 3, got 1: conditions on roles\/viewer would be lost\./);
+  });
+});